@@ -4,6 +4,7 @@
  */
 
 import { Request, Response } from 'express';
+import * as admin from 'firebase-admin';
 import {
   CalculateRequest,
   CalculateResponse,
@@ -12,19 +13,74 @@ import {
   ExcludedNDC,
   AIInsights,
   Metadata,
+  FillSummary,
+  CostOption,
+  PackageOption,
 } from '@api-contracts';
 import { nameToRxCui } from '@clients-rxnorm';
-import { fdaClient, type NDCPackage } from '@clients-openfda';
+import { evaluatePackageEligibility, withMarketingStatusAsOf, type NDCPackage } from '@clients-openfda';
 import { ndcRecommender, sanitizeForAI, type NDCRecommendationRequest } from '@clients-openai';
-import { createLogger } from '@core-guardrails';
-import { ENABLE_OPENAI_ENHANCER } from '@core-config';
+import { createLogger, formatCurrency, getLabelerPreferences, redactObjectPHI } from '@core-guardrails';
+import { inventoryStoreFor } from './inventory';
+import { unitPriceStore } from './prices';
+import { fetchPackagesByRxCUI } from './ndcSource';
+import { ENABLE_OPENAI_ENHANCER, BUSINESS_RULES } from '@core-config';
 import { 
   computeTotalQuantity, 
+  computePhasedQuantity,
+  computePhasedQuantityForDays,
+  computeInjectableQuantity,
+  computeActuationQuantity,
+  rankActuationPackages,
+  parseActuationPackage,
+  isActuationUnit,
   chooseBestPackage, 
+  classifyWholePackage,
+  chooseBestPackageCombination,
+  chooseLowestCostCombination,
+  buildPackageCombination,
+  rankPackageOptions,
+  limitPackageSizes,
+  chooseDropBottles,
+  scheduleFills,
+  computeFillRequirements,
+  planFills,
+  isDropUnit,
   calculateFillPrecision,
   filterByDosageFormFamily,
-  type PackageCandidate 
+  normalizeDosageForm,
+  computeTopicalQuantity,
+  computeWeightBasedDose,
+  isLongActingUnit,
+  countLongActingUnits,
+  changeIntervalHours,
+  describeChangeInterval,
+  getUnitCategory,
+  groupByStrength,
+  normalizeUnit,
+  resolveInjectableDevice,
+  parseSIG,
+  mergeLabelerPreferences,
+  partitionByLabeler,
+  sortByLabelerPreference,
+  sortByStockStatus,
+  getStockStatus,
+  formatNDC10,
+  formatNDC11,
+  tryParseNDC,
+  type InventoryLookup,
+  type UnitPriceLookup,
+  type CostWeights,
+  type PackageCombination,
+  type LabelerPreferences,
+  type PackageCandidate,
+  type ResolvedStrength,
+  type InjectableDevice,
+  type ActuationQuantityResult,
+  type SIGInput,
+  type SIGPhase,
 } from '@domain-ndc';
+import { AuthenticatedRequest } from './middlewares/auth';
 
 const logger = createLogger({ service: 'CalculateEndpoint' });
 
@@ -46,6 +102,96 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
       daysSupply: request.daysSupply,
     });
 
+    // ==========================================
+    // STEP 0: Resolve SIG (structured, phased or free-text)
+    // ==========================================
+    let sig: SIGInput;
+    let phases: SIGPhase[] | undefined;
+
+    if (request.sig) {
+      sig = request.sig;
+    } else if (request.phases) {
+      // Phased schedule: first phase drives dosage form matching
+      phases = request.phases;
+      sig = phases[0];
+    } else if (request.sigText) {
+      const parsedSig = parseSIG(request.sigText);
+      sig = parsedSig.sig;
+
+      logger.info('Parsed free-text SIG', {
+        sig,
+        confidence: parsedSig.confidence,
+        unparsedCount: parsedSig.unparsed.length,
+      });
+
+      explanations.push({
+        step: 'sig_parsing',
+        description: `Parsed SIG as ${sig.dose} ${sig.unit} × ${parseFloat(sig.frequency.toFixed(4))}/day`,
+        details: {
+          confidence: parsedSig.confidence,
+          route: parsedSig.route,
+          indication: parsedSig.indication,
+          doseRange: parsedSig.doseRange,
+          frequencyRange: parsedSig.frequencyRange,
+          durationDays: parsedSig.durationDays,
+          unparsed: parsedSig.unparsed,
+        },
+      });
+
+      if (parsedSig.confidence < 0.8) {
+        warnings.push(
+          `SIG parsing confidence is ${(parsedSig.confidence * 100).toFixed(0)}%. ` +
+          `Please verify directions: ${sig.dose} ${sig.unit}, ${parseFloat(sig.frequency.toFixed(4))} time(s) per day`
+        );
+      }
+
+      if (parsedSig.unparsed.length > 0) {
+        warnings.push(`Unrecognized SIG text: ${parsedSig.unparsed.join('; ')}`);
+      }
+
+      if (parsedSig.durationDays && parsedSig.durationDays !== request.daysSupply) {
+        warnings.push(
+          `SIG specifies a duration of ${parsedSig.durationDays} days but days' supply is ${request.daysSupply}`
+        );
+      }
+    } else {
+      throw new Error('One of sig, phases or sigText must be provided');
+    }
+
+    // Weight- or BSA-based order: convert to an absolute dose per administration.
+    // Patient measurements stay in this scope and are never logged.
+    if (request.weightBasedDose) {
+      if (phases) {
+        throw new Error('Weight-based dosing is not supported with phases');
+      }
+
+      const weightBased = computeWeightBasedDose(
+        request.weightBasedDose,
+        request.patient ?? {},
+        sig.frequency
+      );
+      sig = {
+        ...sig,
+        dose: weightBased.dose,
+        unit: weightBased.unit,
+        minDose: undefined,
+        maxDose: undefined,
+      };
+      warnings.push(...weightBased.warnings);
+
+      explanations.push({
+        step: 'weight_based_dose',
+        description: weightBased.calculation,
+        details: {
+          basis: weightBased.basis,
+          per: request.weightBasedDose.per ?? 'dose',
+          roundTo: weightBased.roundTo,
+          capped: weightBased.capped,
+          dose: weightBased.dose,
+        },
+      });
+    }
+
     // ==========================================
     // STEP 1: Normalize drug name to RxCUI
     // ==========================================
@@ -119,12 +265,19 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
     
     logger.debug('Fetching NDC packages from FDA by RxCUI', { rxcui });
     
-    // Primary: Query FDA directly by RxCUI (most reliable)
-    logger.info('Attempting FDA RxCUI search', { rxcui, limit: 100 });
-    const allPackages: NDCPackage[] = await fdaClient.getNDCsByRxCUI(rxcui, { limit: 100 });
+    // Primary: Query FDA directly by RxCUI (most reliable); the NDC Directory
+    // snapshot stands in for or is compared with openFDA per NDC_DATA_SOURCE
+    logger.info('Attempting FDA RxCUI search', { rxcui });
+    const fetched = await fetchPackagesByRxCUI(rxcui);
+
+    // Marketing status is re-evaluated for the as-of date (today unless back-dated for an audit)
+    const asOf = request.asOf ? new Date(`${request.asOf}T00:00:00Z`) : new Date();
+    const allPackages: NDCPackage[] = fetched.packages.map(pkg => withMarketingStatusAsOf(pkg, asOf));
+    warnings.push(...fetched.warnings);
     
     logger.info('FDA RxCUI search completed', { 
       rxcui,
+      source: fetched.source,
       packageCount: allPackages?.length || 0,
       hasResults: !!(allPackages && allPackages.length > 0),
     });
@@ -132,11 +285,26 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
     if (allPackages && allPackages.length > 0) {
       explanations.push({
         step: 'fetch_packages_fda',
-        description: `Retrieved ${allPackages.length} NDC packages from FDA by RxCUI`,
+        description: (fetched.source === 'snapshot'
+          ? `Retrieved ${allPackages.length} NDC packages from the NDC Directory snapshot (${fetched.snapshotVersion}) by RxCUI`
+          : `Retrieved ${allPackages.length} NDC packages from FDA by RxCUI`) +
+          (fetched.truncation
+            ? `. Warning: FDA matched ${fetched.truncation.totalListings} product listings but only the first ` +
+              `${fetched.truncation.retrievedListings} were retrieved (result ceiling); some packages may be missing.`
+            : ''),
         details: {
           rxcui,
-          source: 'openFDA',
+          source: fetched.source === 'snapshot' ? 'NDC Directory snapshot' : 'openFDA',
           method: 'RxCUI search',
+          truncated: Boolean(fetched.truncation),
+          totalListings: fetched.truncation?.totalListings,
+          retrievedListings: fetched.truncation?.retrievedListings,
+          snapshotVersion: fetched.snapshotVersion,
+          snapshotDiff: fetched.diff && {
+            onlyLive: fetched.diff.onlyLive,
+            onlySnapshot: fetched.diff.onlySnapshot,
+            changed: fetched.diff.changed,
+          },
         },
       });
     } else {
@@ -157,56 +325,87 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
       totalPackages: allPackages.length,
     });
 
-    // Filter active packages
-    const activePackages = allPackages.filter((pkg: NDCPackage) => 
-      pkg.marketingStatus && typeof pkg.marketingStatus === 'object' 
-        ? pkg.marketingStatus.isActive 
-        : false
-    );
-    const inactiveCount = allPackages.length - activePackages.length;
+    // Filter to dispensable packages (marketed, not samples, finished products, current listings)
+    const ineligible = allPackages
+      .map((pkg: NDCPackage) => ({ pkg, eligibility: evaluatePackageEligibility(pkg, asOf) }))
+      .filter(entry => !entry.eligibility.dispensable);
+    const ineligiblePackages = new Set(ineligible.map(entry => entry.pkg));
+    let activePackages = allPackages.filter((pkg: NDCPackage) => !ineligiblePackages.has(pkg));
     
-    if (inactiveCount > 0) {
+    if (ineligible.length > 0) {
+      const reasonCounts: Record<string, number> = {};
+      ineligible.forEach(({ eligibility }) => {
+        eligibility.reasons.forEach(({ code }) => {
+          reasonCounts[code] = (reasonCounts[code] ?? 0) + 1;
+        });
+      });
+
       explanations.push({
         step: 'filter_active',
-        description: `Filtered out ${inactiveCount} inactive/discontinued packages`,
-        details: { activeCount: activePackages.length },
+        description: `Filtered out ${ineligible.length} packages not eligible for dispensing`,
+        details: { activeCount: activePackages.length, reasonCounts },
       });
       
       // Track excluded NDCs
-      allPackages
-        .filter((pkg: NDCPackage) => 
-          !pkg.marketingStatus || 
-          (typeof pkg.marketingStatus === 'object' && !pkg.marketingStatus.isActive)
-        )
-        .forEach((pkg: NDCPackage) => {
-          const status = typeof pkg.marketingStatus === 'object' 
-            ? pkg.marketingStatus.status 
-            : 'unknown';
-          excluded.push({
-            ndc: pkg.ndc,
-            reason: `Inactive or discontinued (status: ${status})`,
-            marketingStatus: status,
-          });
+      ineligible.forEach(({ pkg, eligibility }) => {
+        excluded.push({
+          ndc: pkg.ndc,
+          reason: eligibility.reasons.map(reason => reason.message).join('; '),
+          reasonCode: eligibility.reasons[0].code,
+          marketingStatus: pkg.marketingStatus?.status ?? 'unknown',
         });
+      });
     }
 
     if (activePackages.length === 0) {
       throw new Error('No active NDC packages available for this drug');
     }
 
+    // Labeler preference and block lists (signed-in users and their organisation)
+    const user = (req as AuthenticatedRequest).user;
+    const labelerPreferences = user ? await loadLabelerPreferences(user) : undefined;
+
+    if (labelerPreferences && labelerPreferences.blocked.length > 0) {
+      const { allowed, blocked } = partitionByLabeler(activePackages, pkg => pkg.labeler, labelerPreferences);
+
+      if (blocked.length > 0) {
+        explanations.push({
+          step: 'filter_labeler',
+          description: `Filtered out ${blocked.length} package(s) from labelers not stocked`,
+          details: {
+            blockedLabelers: Array.from(new Set(blocked.map(entry => entry.pkg.labeler))),
+            stockedCount: allowed.length,
+          },
+        });
+
+        blocked.forEach(({ pkg, reason }) => {
+          excluded.push({
+            ndc: pkg.ndc,
+            reason,
+            marketingStatus: pkg.marketingStatus.status,
+          });
+        });
+      }
+
+      if (allowed.length === 0) {
+        throw new Error('No stocked NDC packages available for this drug: all labelers are blocked');
+      }
+      activePackages = allowed;
+    }
+
     // ==========================================
     // STEP 3: Filter by dosage form family
     // ==========================================
     let filteredPackages = activePackages;
     
-    if (request.sig.unit) {
+    if (sig.unit) {
       // Use dosage form family matching (solid, liquid, other)
-      filteredPackages = filterByDosageFormFamily(activePackages, request.sig.unit);
+      filteredPackages = filterByDosageFormFamily(activePackages, sig.unit);
       
       if (filteredPackages.length > 0) {
         explanations.push({
           step: 'filter_dosage_form',
-          description: `Filtered to ${filteredPackages.length} packages matching dosage form family for "${request.sig.unit}"`,
+          description: `Filtered to ${filteredPackages.length} packages matching dosage form family for "${sig.unit}"`,
           details: {
             originalCount: activePackages.length,
             filteredCount: filteredPackages.length,
@@ -216,7 +415,7 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
         // If no match found, include all active packages with warning
         filteredPackages = activePackages;
         warnings.push(
-          `No packages found matching dosage form "${request.sig.unit}". ` +
+          `No packages found matching dosage form "${sig.unit}". ` +
           `Showing all available dosage forms. Verify prescription carefully.`
         );
         
@@ -224,26 +423,214 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
           step: 'filter_dosage_form',
           description: 'No dosage form match found - showing all active packages',
           details: {
-            requestedForm: request.sig.unit,
+            requestedForm: sig.unit,
             availableForms: Array.from(new Set(activePackages.map(p => p.dosageForm))),
           },
         });
       }
     }
 
+    // Unparseable package descriptions only carry placeholder sizes; never recommend them
+    const unparsedPackages = filteredPackages.filter(pkg => pkg.packageSize.parsed === false);
+    if (unparsedPackages.length > 0) {
+      unparsedPackages.forEach(pkg => {
+        excluded.push({
+          ndc: pkg.ndc,
+          reason: `Unparseable package description: "${pkg.packageSize.description}"`,
+          marketingStatus: pkg.marketingStatus.status,
+        });
+      });
+      filteredPackages = filteredPackages.filter(pkg => pkg.packageSize.parsed !== false);
+
+      if (filteredPackages.length === 0) {
+        throw new Error('No packages with a recognizable package size available for this drug');
+      }
+    }
+
     // Sort by package size for better recommendations
-    const sortedPackages = [...filteredPackages].sort((a, b) => 
+    let sortedPackages = [...filteredPackages].sort((a, b) => 
       (a.packageSize?.quantity || 0) - (b.packageSize?.quantity || 0)
     );
 
+    // ==========================================
+    // STEP 3b: Resolve strength per package family (mass-based doses)
+    // ==========================================
+    // A mg dose needs a different quantity per strength (e.g. amoxicillin 250 mg/5 mL
+    // vs 400 mg/5 mL), so evaluate each family and keep the one that fits best
+    if (getUnitCategory(sig.unit) === 'weight') {
+      const families = groupByStrength(sortedPackages, pkg => pkg.activeIngredients)
+        .filter((family): family is { strength: ResolvedStrength; packages: NDCPackage[] } =>
+          family.strength !== null
+        );
+
+      if (families.length > 0) {
+        const evaluated = families.map(family => {
+          const drugStrength = { strength: family.strength.label, dosageForm };
+          const quantity = phases
+            ? computePhasedQuantity(phases, drugStrength, request.daysSupply)
+            : computeTotalQuantity(sig, drugStrength, request.daysSupply);
+          const selection = chooseBestPackage(
+            family.packages.map(toPackageCandidate),
+            quantity.totalQuantity,
+            { labelerPreferences }
+          );
+          return { family, quantity, selection };
+        });
+
+        // Prefer the family that covers the need, then the one with least overfill
+        const best = evaluated.reduce((a, b) =>
+          b.selection.underfillPercentage < a.selection.underfillPercentage ||
+          (b.selection.underfillPercentage === a.selection.underfillPercentage &&
+            b.selection.overfillPercentage < a.selection.overfillPercentage)
+            ? b
+            : a
+        );
+
+        const resolved = best.family.strength;
+        strength = resolved.label;
+        sortedPackages = best.family.packages;
+
+        explanations.push({
+          step: 'concentration_resolution',
+          description: resolved.perUnit
+            ? `Using concentration ${resolved.label} (${resolved.amountPerUnit} ${resolved.unit}/${resolved.perUnit}) from FDA active ingredients`
+            : `Using strength ${resolved.label} per unit from FDA active ingredients`,
+          details: {
+            strength: resolved.label,
+            amountPerUnit: resolved.amountPerUnit,
+            families: evaluated.map(({ family, quantity, selection }) => ({
+              strength: family.strength.label,
+              packageCount: family.packages.length,
+              quantityNeeded: quantity.totalQuantity,
+              bestPackageNdc: selection.selected.ndc,
+              overfillPercentage: parseFloat(selection.overfillPercentage.toFixed(2)),
+              underfillPercentage: parseFloat(selection.underfillPercentage.toFixed(2)),
+            })),
+          },
+        });
+
+        if (families.length > 1) {
+          warnings.push(
+            `Multiple strengths available (${families.map(f => f.strength.label).join(', ')}); ` +
+            `quantity calculated for ${resolved.label}`
+          );
+        }
+      }
+    }
+
+    // Injectables (insulin): unit doses are dispensed as whole pens or vials
+    let injectableDevice: InjectableDevice | null = null;
+    if (!phases && normalizeUnit(sig.unit) === 'UNIT') {
+      const resolveDevice = (pkg: NDCPackage) => resolveInjectableDevice(
+        pkg.packageSize.levels,
+        pkg.activeIngredients[0]?.strength || strength
+      );
+
+      injectableDevice = sortedPackages.map(resolveDevice).find(device => device !== null) ?? null;
+
+      if (injectableDevice) {
+        const device = injectableDevice;
+        // Only packages of the same pen/vial can fill the calculated quantity
+        sortedPackages = sortedPackages.filter(pkg => {
+          const candidate = resolveDevice(pkg);
+          return candidate?.type === device.type &&
+            candidate.volumeMl === device.volumeMl &&
+            candidate.unitsPerMl === device.unitsPerMl;
+        });
+      } else {
+        warnings.push(
+          'Could not determine pen or vial size from FDA packaging. ' +
+          'Quantity is in units; verify pens/vials to dispense.'
+        );
+      }
+    }
+
+    // Inhalers and nasal sprays: rank packages by devices needed, not raw quantity
+    let actuationResult: ActuationQuantityResult | undefined;
+    if (!phases && isActuationUnit(sig.unit)) {
+      const { ranked, unresolved } = rankActuationPackages(
+        sortedPackages,
+        pkg => parseActuationPackage(pkg.packageSize.levels, pkg.packageSize.description),
+        sig,
+        request.daysSupply
+      );
+
+      if (ranked.length > 0) {
+        const best = ranked[0];
+        actuationResult = best.result;
+
+        unresolved.forEach(pkg => {
+          excluded.push({
+            ndc: pkg.ndc,
+            reason: `Actuation count not stated in package description: "${pkg.packageSize.description}"`,
+            marketingStatus: pkg.marketingStatus.status,
+          });
+        });
+
+        // Express package sizes in devices so selection compares device counts
+        sortedPackages = ranked
+          .filter(entry =>
+            entry.actuationPackage.actuationsPerDevice === best.actuationPackage.actuationsPerDevice
+          )
+          .map(entry => ({
+            ...entry.pkg,
+            packageSize: {
+              ...entry.pkg.packageSize,
+              quantity: entry.actuationPackage.devicesPerPackage,
+              unit: entry.actuationPackage.deviceName,
+            },
+          }));
+      } else {
+        warnings.push(
+          'Could not determine actuations per device from FDA packaging. ' +
+          'Quantity is in actuations; verify devices to dispense.'
+        );
+      }
+    }
+
+    // Creams and ointments: grams from fingertip units, matched against tube/jar sizes
+    const isTopical = !phases && (request.topical !== undefined || normalizeDosageForm(sig.unit) === 'topical');
+    if (isTopical) {
+      const gramPackages = sortedPackages.filter(pkg => ['GM', 'G'].includes(pkg.packageSize.unit));
+      if (gramPackages.length > 0) {
+        sortedPackages = gramPackages;
+      } else {
+        warnings.push('No tube or jar sizes in grams found in FDA packaging. Verify grams to dispense.');
+      }
+    }
+
+    // Patches, rings and depot injections: count units changed on an interval
+    const isLongActing = !phases && isLongActingUnit(sig.unit);
+    if (isLongActing) {
+      // Depot injections are packaged by volume; count syringes/vials instead of mL
+      sortedPackages = sortedPackages.map(pkg => {
+        const counted = countLongActingUnits(pkg.packageSize.levels);
+        return counted
+          ? {
+              ...pkg,
+              packageSize: { ...pkg.packageSize, quantity: counted.unitsPerPackage, unit: counted.container },
+            }
+          : pkg;
+      });
+    }
+
     // ==========================================
     // STEP 4: Calculate total quantity needed (with unit conversion)
     // ==========================================
-    const quantityResult = computeTotalQuantity(
-      request.sig,
-      { strength, dosageForm },
-      request.daysSupply
-    );
+    const phasedResult = phases
+      ? computePhasedQuantity(phases, { strength, dosageForm, dropsPerMl: request.dropsPerMl }, request.daysSupply)
+      : undefined;
+    const injectableResult = injectableDevice
+      ? computeInjectableQuantity(sig, injectableDevice, request.daysSupply)
+      : undefined;
+    const topicalResult = isTopical
+      ? computeTopicalQuantity(sig, request.daysSupply, request.topical)
+      : undefined;
+    const quantityResult = phasedResult
+      ?? injectableResult
+      ?? actuationResult
+      ?? topicalResult
+      ?? computeTotalQuantity(sig, { strength, dosageForm, dropsPerMl: request.dropsPerMl }, request.daysSupply);
     
     const totalQuantity = quantityResult.totalQuantity;
     
@@ -251,8 +638,8 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
     warnings.push(...quantityResult.warnings);
     
     logger.info('Calculated total quantity', {
-      dose: request.sig.dose,
-      frequency: request.sig.frequency,
+      dose: sig.dose,
+      frequency: sig.frequency,
       daysSupply: request.daysSupply,
       totalQuantity,
       method: quantityResult.details?.method,
@@ -261,82 +648,564 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
     explanations.push({
       step: 'quantity_calculation',
       description: quantityResult.details?.calculation || 
-        `Calculated total quantity: ${totalQuantity} ${request.sig.unit}`,
+        `Calculated total quantity: ${totalQuantity} ${sig.unit}`,
       details: {
         method: quantityResult.details?.method || 'direct',
-        dose: request.sig.dose,
-        frequency: request.sig.frequency,
+        dose: sig.dose,
+        frequency: sig.frequency,
+        schedule: sig.schedule,
         daysSupply: request.daysSupply,
+        administrationCount: quantityResult.administrationCount,
         result: totalQuantity,
       },
     });
 
+    if (quantityResult.prn) {
+      explanations.push({
+        step: 'prn_max_use',
+        description: quantityResult.prn.calculation,
+        details: {
+          dosePerAdministration: quantityResult.prn.dosePerAdministration,
+          administrationsPerDay: quantityResult.prn.administrationsPerDay,
+          maxDailyQuantity: quantityResult.prn.maxDailyQuantity,
+          cappedByMaxPerDay: quantityResult.prn.cappedByMaxPerDay,
+        },
+      });
+    }
+
+    if (injectableResult) {
+      const { injectable } = injectableResult;
+      explanations.push({
+        step: 'injectable_calculation',
+        description: injectable.calculation,
+        details: {
+          deviceType: injectable.deviceType,
+          devicesNeeded: injectable.devicesNeeded,
+          unitsPerMl: injectable.unitsPerMl,
+          volumeMl: injectable.volumeMl,
+          primingUnits: injectable.primingUnits,
+          totalUnits: injectable.totalUnits,
+          discardAfterDays: injectable.discardAfterDays,
+          daysCovered: injectable.daysCovered,
+        },
+      });
+    }
+
+    if (actuationResult) {
+      const { actuation } = actuationResult;
+      explanations.push({
+        step: 'actuation_calculation',
+        description: actuation.calculation,
+        details: {
+          deviceName: actuation.deviceName,
+          devicesNeeded: actuation.devicesNeeded,
+          actuationsPerDevice: actuation.actuationsPerDevice,
+          primingActuations: actuation.primingActuations,
+          totalActuations: actuation.totalActuations,
+          daysCovered: actuation.daysCovered,
+        },
+      });
+    }
+
+    if (topicalResult) {
+      const { topical } = topicalResult;
+      explanations.push({
+        step: 'topical_calculation',
+        description: topical.calculation,
+        details: {
+          sites: topical.sites,
+          fingertipUnitsPerApplication: topical.fingertipUnitsPerApplication,
+          applications: topical.applications,
+          totalFingertipUnits: topical.totalFingertipUnits,
+          gramsPerFtu: topical.gramsPerFtu,
+          totalGrams: topical.totalGrams,
+        },
+      });
+    }
+
+    if (isLongActing) {
+      const intervalHours = changeIntervalHours(sig);
+      explanations.push({
+        step: 'change_schedule',
+        description:
+          `${sig.dose} ${sig.unit} ${describeChangeInterval(intervalHours)} for ${request.daysSupply} days: ` +
+          `${quantityResult.administrationCount} changes = ${totalQuantity} ${sig.unit} to dispense`,
+        details: {
+          intervalHours: parseFloat(intervalHours.toFixed(2)),
+          changes: quantityResult.administrationCount,
+          unitsToDispense: totalQuantity,
+        },
+      });
+    }
+
+    if (phasedResult) {
+      phasedResult.phases.forEach(phase => {
+        explanations.push({
+          step: 'quantity_calculation_phase',
+          description: `Phase ${phase.phase} (${phase.durationDays} days): ${phase.calculation}`,
+          details: {
+            phase: phase.phase,
+            durationDays: phase.durationDays,
+            quantity: phase.quantity,
+          },
+        });
+      });
+    }
+
     // ==========================================
-    // STEP 5: Select optimal package (MVP: Single package only)
+    // STEP 5: Select optimal package (single package, or combination in multi-pack mode)
     // ==========================================
     
-    // Convert NDCPackages to PackageCandidate format
-    const packageCandidates: PackageCandidate[] = sortedPackages.map(pkg => ({
-      ndc: pkg.ndc,
-      packageSize: {
-        quantity: pkg.packageSize.quantity,
-        unit: pkg.packageSize.unit,
-      },
-      dosageForm: pkg.dosageForm,
-      marketingStatus: typeof pkg.marketingStatus === 'object' 
-        ? pkg.marketingStatus.status 
-        : 'unknown',
-      isActive: typeof pkg.marketingStatus === 'object' 
-        ? pkg.marketingStatus.isActive 
-        : false,
-      labelerName: pkg.labeler,
-    }));
-    
-    // Use smart package selection algorithm
-    const selection = chooseBestPackage(packageCandidates, totalQuantity);
-    
-    // Add any selection warnings
-    warnings.push(...selection.warnings);
-    
-    const overfillPercentage = selection.overfillPercentage;
-    const underfillPercentage = selection.underfillPercentage;
-    
-    logger.info('Selected package', {
-      ndc: selection.selected.ndc,
-      packageSize: selection.selected.packageSize.quantity,
-      overfillPercentage,
-      underfillPercentage,
-    });
+    // Convert NDCPackages to PackageCandidate format (preferred labelers first, so they win ties)
+    let packageCandidates: PackageCandidate[] = sortByLabelerPreference(
+      sortedPackages.map(toPackageCandidate),
+      labelerPreferences
+    );
+
+    // On-hand stock (signed-in users): in-stock NDCs win ties ahead of preferred labelers
+    const inventory = user ? await loadInventory(user, packageCandidates) : undefined;
+    if (inventory) {
+      packageCandidates = sortByStockStatus(packageCandidates, inventory);
+    }
+
+    const stockFor = (pkg: PackageCandidate, packagesNeeded: number) => {
+      if (!inventory) return {};
+      const stock = inventory.get(pkg.ndc);
+      return {
+        stockStatus: getStockStatus(stock, pkg.packageSize.quantity, packagesNeeded),
+        onHandQuantity: stock?.onHandQuantity,
+        openedRemaining: stock?.openedRemaining,
+      };
+    };
+
+    // Unit prices from the uploaded price file (cost-optimised mode)
+    const prices = request.optimizeCost ? await loadUnitPrices(packageCandidates) : undefined;
+    if (request.optimizeCost && !prices) {
+      warnings.push('No unit prices on file for these NDCs; packages were not selected by cost.');
+    }
+
+    const costFor = (pkg: PackageCandidate, units: number) => {
+      const unitPrice = prices?.get(pkg.ndc);
+      if (unitPrice === undefined) return {};
+      const cost = parseFloat((unitPrice * units).toFixed(2));
+      return { unitPrice, cost, formattedCost: formatCurrency(cost) };
+    };
+
+    // Label (10-digit) and billing (11-digit) NDC forms; the label form comes from the
+    // FDA listing, since an 11-digit NDC does not always tell its labeler configuration
+    const labelNdcs = new Map(activePackages.map(pkg => [pkg.ndc, pkg.displayNdc]));
+    const ndcFormsFor = (ndc: string) => {
+      const parsed = tryParseNDC(ndc);
+      if (!parsed) return {};
+      return { ndc10: labelNdcs.get(ndc) ?? formatNDC10(parsed), billingNdc: formatNDC11(parsed, false) };
+    };
+
+    // Scheduled marketing end dates of NDCs that are discontinuing soon
+    const marketingStatuses = new Map(activePackages.map(pkg => [pkg.ndc, pkg.marketingStatus]));
+    const discontinuationFor = (ndc: string) => {
+      const status = marketingStatuses.get(ndc);
+      if (status?.status !== 'discontinuing_soon') return {};
+      return { marketingEndDate: status.endDate, daysUntilDiscontinued: status.daysRemaining };
+    };
     
-    explanations.push({
-      step: 'package_selection',
-      description: selection.explanation,
-      details: {
+    let overfillPercentage: number;
+    let underfillPercentage: number;
+    let recommendedPackages: PackageRecommendation[];
+    let fills: FillSummary[] | undefined;
+    let costOptions: CostOption[] | undefined;
+    let primaryCombination: PackageCombination | undefined;
+
+    // Drops are dispensed as bottle combinations covering the days supply (28-day discard)
+    const bottleCandidates = !phases && isDropUnit(sig.unit)
+      ? packageCandidates.filter(pkg => pkg.packageSize.unit === 'ML')
+      : [];
+
+    if (bottleCandidates.length > 0) {
+      const selection = chooseDropBottles(bottleCandidates, totalQuantity, request.daysSupply, {
+        maxBottles: BUSINESS_RULES.MAX_PACKAGES_PER_PRESCRIPTION,
+      });
+      const { combination } = selection;
+
+      warnings.push(...selection.warnings);
+      if (request.fillPlan) {
+        warnings.push(
+          `Fill plan not applied: opened drop bottles are discarded after ${selection.discardAfterDays} days, ` +
+          `so bottles cover the days supply.`
+        );
+      }
+
+      overfillPercentage = combination.overfillPercentage;
+      underfillPercentage = combination.underfillPercentage;
+
+      logger.info('Selected drop bottles', {
+        combination: combination.description,
+        daysCovered: selection.daysCovered,
+        limitedByDiscard: selection.limitedByDiscard,
+      });
+
+      explanations.push({
+        step: 'package_selection',
+        description: selection.explanation,
+        details: {
+          combination: combination.description,
+          packageCount: combination.packageCount,
+          requiredQuantity: totalQuantity,
+          totalDispensed: combination.totalQuantity,
+          dailyMl: parseFloat(selection.dailyMl.toFixed(3)),
+          daysCovered: selection.daysCovered,
+          discardAfterDays: selection.discardAfterDays,
+          limitedByDiscard: selection.limitedByDiscard,
+        },
+      });
+
+      recommendedPackages = combination.items.map(item => ({
+        ndc: item.package.ndc,
+        packageSize: item.package.packageSize.quantity,
+        unit: item.package.packageSize.unit,
+        containers: item.package.packageSize.containers,
+        dosageForm: item.package.dosageForm,
+        marketingStatus: item.package.marketingStatus,
+        isActive: item.package.isActive,
+        quantityNeeded: item.package.packageSize.quantity * item.count,
+        fillPrecision: combination.fillPrecision,
+        packageCount: item.count,
+        ...stockFor(item.package, item.count),
+        ...costFor(item.package, item.package.packageSize.quantity * item.count),
+      }));
+    } else if (request.fillPlan) {
+      // Fill plan: packages per fill, optimised across fills (surplus carries to the next fill)
+      const drugStrength = { strength, dosageForm, dropsPerMl: request.dropsPerMl };
+      const quantityForDays = (days: number): number => (
+        phases
+          ? computePhasedQuantityForDays(phases, drugStrength, days)
+          : injectableDevice
+            ? computeInjectableQuantity(sig, injectableDevice, days)
+            : actuationResult
+              ? computeActuationQuantity(
+                  sig,
+                  actuationResult.actuation.actuationsPerDevice,
+                  days,
+                  {},
+                  actuationResult.actuation.deviceName
+                )
+              : isTopical
+                ? computeTopicalQuantity(sig, days, request.topical)
+                : computeTotalQuantity(sig, drugStrength, days)
+      ).totalQuantity;
+
+      const schedule = scheduleFills(request.fillPlan);
+      const requirements = computeFillRequirements(schedule.fills, quantityForDays);
+      const selection = planFills(packageCandidates, requirements, {
+        maxPackages: BUSINESS_RULES.MAX_PACKAGES_PER_PRESCRIPTION,
+      });
+
+      warnings.push(...schedule.warnings, ...selection.warnings);
+
+      overfillPercentage = selection.overfillPercentage;
+      underfillPercentage = selection.underfillPercentage;
+
+      logger.info('Planned fills', {
+        fillCount: selection.fills.length,
+        totalRequired: selection.totalRequired,
+        totalDispensed: selection.totalDispensed,
+        independentDispensed: selection.independentDispensed,
+      });
+
+      explanations.push({
+        step: 'fill_plan',
+        description: selection.explanation,
+        details: {
+          totalDays: request.fillPlan.totalDays,
+          fillIntervalDays: request.fillPlan.fillIntervalDays,
+          refills: request.fillPlan.refills,
+          totalRequired: selection.totalRequired,
+          totalDispensed: selection.totalDispensed,
+          independentDispensed: selection.independentDispensed,
+          packageCount: selection.packageCount,
+        },
+      });
+
+      fills = selection.fills.map(fill => ({
+        fillIndex: fill.fillIndex,
+        startDay: fill.startDay,
+        days: fill.days,
+        requiredQuantity: fill.requiredQuantity,
+        carriedIn: fill.carriedIn,
+        dispensedQuantity: fill.dispensedQuantity,
+        description: fill.combination?.description,
+      }));
+
+      // One recommendation per NDC per fill: packages in packageCount, billing units in quantityNeeded
+      recommendedPackages = selection.fills.flatMap(fill =>
+        (fill.combination?.items ?? []).map(item => ({
+          ndc: item.package.ndc,
+          packageSize: item.package.packageSize.quantity,
+          unit: item.package.packageSize.unit,
+          containers: item.package.packageSize.containers,
+          dosageForm: item.package.dosageForm,
+          marketingStatus: item.package.marketingStatus,
+          isActive: item.package.isActive,
+          quantityNeeded: item.package.packageSize.quantity * item.count,
+          fillPrecision: fill.combination!.fillPrecision,
+          packageCount: item.count,
+          fillIndex: fill.fillIndex,
+          ...stockFor(item.package, item.count),
+          ...costFor(item.package, item.package.packageSize.quantity * item.count),
+        }))
+      );
+    } else if (prices) {
+      // Cost-optimised mode: weighted acquisition cost, waste cost and package count
+      const weights: CostWeights = {
+        acquisition: request.costWeights?.acquisition ?? BUSINESS_RULES.COST_WEIGHT_ACQUISITION,
+        waste: request.costWeights?.waste ?? BUSINESS_RULES.COST_WEIGHT_WASTE,
+        perPackage: request.costWeights?.perPackage ?? BUSINESS_RULES.COST_PER_PACKAGE,
+      };
+      const selection = chooseLowestCostCombination(packageCandidates, totalQuantity, prices, weights, {
+        maxPackages: BUSINESS_RULES.MAX_PACKAGES_PER_PRESCRIPTION,
+      });
+      const { combination } = selection.best;
+      primaryCombination = combination;
+
+      warnings.push(...selection.warnings);
+
+      overfillPercentage = selection.overfillPercentage;
+      underfillPercentage = selection.underfillPercentage;
+
+      logger.info('Selected package combination by cost', {
+        combination: combination.description,
+        acquisitionCost: selection.best.acquisitionCost,
+        score: selection.best.score,
+        pricedNdcCount: prices.size,
+      });
+
+      explanations.push({
+        step: 'package_selection',
+        description: `${selection.explanation}. Acquisition cost ${formatCurrency(selection.best.acquisitionCost)}`,
+        details: {
+          combination: combination.description,
+          packageCount: combination.packageCount,
+          requiredQuantity: totalQuantity,
+          totalDispensed: combination.totalQuantity,
+          acquisitionCost: selection.best.acquisitionCost,
+          wasteCost: selection.best.wasteCost,
+          score: selection.best.score,
+          weights,
+        },
+      });
+
+      costOptions = selection.options.map(option => ({
+        description: option.combination.description,
+        totalQuantity: option.combination.totalQuantity,
+        packageCount: option.packageCount,
+        acquisitionCost: option.acquisitionCost,
+        wasteCost: option.wasteCost,
+        score: option.score,
+        formattedAcquisitionCost: formatCurrency(option.acquisitionCost),
+        formattedWasteCost: formatCurrency(option.wasteCost),
+        selected: option === selection.best,
+      }));
+
+      // One recommendation per NDC: packages in packageCount, billing units in quantityNeeded
+      recommendedPackages = combination.items.map(item => ({
+        ndc: item.package.ndc,
+        packageSize: item.package.packageSize.quantity,
+        unit: item.package.packageSize.unit,
+        containers: item.package.packageSize.containers,
+        dosageForm: item.package.dosageForm,
+        marketingStatus: item.package.marketingStatus,
+        isActive: item.package.isActive,
+        quantityNeeded: item.package.packageSize.quantity * item.count,
+        fillPrecision: combination.fillPrecision,
+        packageCount: item.count,
+        ...stockFor(item.package, item.count),
+        ...costFor(item.package, item.package.packageSize.quantity * item.count),
+      }));
+    } else if (request.multiPack) {
+      // Multi-pack mode: combine packages (e.g., 1×100 + 3×30) to minimize overfill
+      const selection = chooseBestPackageCombination(packageCandidates, totalQuantity, {
+        maxPackages: BUSINESS_RULES.MAX_PACKAGES_PER_PRESCRIPTION,
+      });
+      const { combination } = selection;
+      primaryCombination = combination;
+
+      warnings.push(...selection.warnings);
+
+      overfillPercentage = selection.overfillPercentage;
+      underfillPercentage = selection.underfillPercentage;
+
+      logger.info('Selected package combination', {
+        combination: combination.description,
+        packageCount: combination.packageCount,
+        distinctNdcCount: combination.distinctNdcCount,
+        overfillPercentage,
+        underfillPercentage,
+      });
+
+      explanations.push({
+        step: 'package_selection',
+        description: selection.explanation,
+        details: {
+          combination: combination.description,
+          packageCount: combination.packageCount,
+          distinctNdcCount: combination.distinctNdcCount,
+          requiredQuantity: totalQuantity,
+          totalDispensed: combination.totalQuantity,
+          overfill: overfillPercentage,
+          underfill: underfillPercentage,
+          alternatives: selection.alternatives.map(alt => alt.description),
+        },
+      });
+
+      // One recommendation per NDC: packages in packageCount, billing units in quantityNeeded
+      recommendedPackages = combination.items.map(item => ({
+        ndc: item.package.ndc,
+        packageSize: item.package.packageSize.quantity,
+        unit: item.package.packageSize.unit,
+        containers: item.package.packageSize.containers,
+        dosageForm: item.package.dosageForm,
+        marketingStatus: item.package.marketingStatus,
+        isActive: item.package.isActive,
+        quantityNeeded: item.package.packageSize.quantity * item.count,
+        fillPrecision: combination.fillPrecision,
+        packageCount: item.count,
+        ...stockFor(item.package, item.count),
+        ...costFor(item.package, item.package.packageSize.quantity * item.count),
+      }));
+    } else {
+      // Use smart package selection algorithm
+      const selection = chooseBestPackage(packageCandidates, totalQuantity, { labelerPreferences, inventory });
+      
+      // Add any selection warnings
+      warnings.push(...selection.warnings);
+      
+      overfillPercentage = selection.overfillPercentage;
+      underfillPercentage = selection.underfillPercentage;
+      
+      logger.info('Selected package', {
         ndc: selection.selected.ndc,
         packageSize: selection.selected.packageSize.quantity,
-        requiredQuantity: totalQuantity,
-        overfill: overfillPercentage,
-        underfill: underfillPercentage,
-      },
+        overfillPercentage,
+        underfillPercentage,
+      });
+      
+      explanations.push({
+        step: 'package_selection',
+        description: selection.explanation,
+        details: {
+          ndc: selection.selected.ndc,
+          packageSize: selection.selected.packageSize.quantity,
+          labeler: selection.selected.labelerName,
+          requiredQuantity: totalQuantity,
+          overfill: overfillPercentage,
+          underfill: underfillPercentage,
+          mustDispenseWhole: selection.selected.mustDispenseWhole,
+          wholePackageReason: selection.selected.wholePackageReason,
+          packageCount: selection.packageCount,
+          dispenseQuantity: selection.dispenseQuantity,
+          fromOpenedStock: selection.fromOpenedStock,
+        },
+      });
+
+      // Calculate precise fill metrics (unbreakable packages: against the whole-package quantity)
+      const fillMetrics = calculateFillPrecision(
+        selection.dispenseQuantity ?? selection.selected.packageSize.quantity,
+        totalQuantity
+      );
+      
+      // Format recommendation
+      recommendedPackages = [{
+        ndc: selection.selected.ndc,
+        packageSize: selection.selected.packageSize.quantity,
+        unit: selection.selected.packageSize.unit,
+        containers: selection.selected.packageSize.containers,
+        dosageForm: selection.selected.dosageForm,
+        marketingStatus: selection.selected.marketingStatus,
+        isActive: selection.selected.isActive,
+        quantityNeeded: selection.dispenseQuantity ?? selection.selected.packageSize.quantity,
+        fillPrecision: fillMetrics.fillPrecision,
+        mustDispenseWhole: selection.selected.mustDispenseWhole,
+        ...(!selection.fromOpenedStock && { packageCount: selection.packageCount ?? 1 }),
+        ...stockFor(selection.selected, selection.packageCount ?? 1),
+        ...costFor(selection.selected, selection.dispenseQuantity ?? selection.selected.packageSize.quantity),
+        ...(selection.fromOpenedStock && { stockStatus: 'in_stock' as const, fromOpenedStock: true }),
+      }];
+
+      // Counting from an opened bottle is not a package option; no alternatives then
+      if (!selection.fromOpenedStock) {
+        primaryCombination = buildPackageCombination(
+          [{ package: selection.selected, count: selection.packageCount ?? 1 }],
+          totalQuantity
+        );
+      }
+    }
+
+    recommendedPackages = recommendedPackages.map(pkg => ({
+      ...pkg,
+      ...ndcFormsFor(pkg.ndc),
+      ...discontinuationFor(pkg.ndc),
+    }));
+
+    // Warn when a recommended NDC goes off the market before the supply (or fill plan) runs out
+    const supplyWindowDays = request.fillPlan?.totalDays ?? request.daysSupply;
+    new Set(recommendedPackages.map(pkg => pkg.ndc)).forEach(ndc => {
+      const { marketingEndDate, daysUntilDiscontinued } = discontinuationFor(ndc);
+      if (daysUntilDiscontinued !== undefined && daysUntilDiscontinued <= supplyWindowDays) {
+        warnings.push(
+          `NDC ${ndc} is scheduled to be discontinued on ${marketingEndDate} (in ${daysUntilDiscontinued} days), ` +
+          `within the ${supplyWindowDays}-day supply. Consider an alternative NDC for continued therapy.`
+        );
+      }
     });
 
-    // Calculate precise fill metrics
-    const fillMetrics = calculateFillPrecision(
-      selection.selected.packageSize.quantity,
-      totalQuantity
-    );
-    
-    // Format recommendation
-    const recommendedPackages: PackageRecommendation[] = [{
-      ndc: selection.selected.ndc,
-      packageSize: selection.selected.packageSize.quantity,
-      unit: selection.selected.packageSize.unit,
-      dosageForm: selection.selected.dosageForm,
-      marketingStatus: selection.selected.marketingStatus,
-      isActive: selection.selected.isActive,
-      quantityNeeded: selection.selected.packageSize.quantity,
-      fillPrecision: fillMetrics.fillPrecision,
-    }];
+    // Next-best options alongside the recommendation (exact count, least waste, fewest packages);
+    // a second combination search, so single mode runs it only on request, over a capped set of sizes
+    let packageOptions: PackageOption[] | undefined;
+    const wantsPackageOptions = request.includePackageOptions || request.multiPack || Boolean(prices);
+    if (primaryCombination && wantsPackageOptions) {
+      const optionCandidates = limitPackageSizes(
+        packageCandidates,
+        totalQuantity,
+        BUSINESS_RULES.MAX_OPTION_PACKAGE_SIZES,
+        primaryCombination.items.map(item => item.package)
+      );
+      packageOptions = rankPackageOptions(optionCandidates, totalQuantity, {
+        maxPackages: BUSINESS_RULES.MAX_PACKAGES_PER_PRESCRIPTION,
+        primary: primaryCombination,
+      }).map(option => ({
+        description: option.combination.description,
+        primary: option.primary,
+        kinds: option.kinds,
+        totalQuantity: option.combination.totalQuantity,
+        packageCount: option.combination.packageCount,
+        overfillPercentage: parseFloat(option.combination.overfillPercentage.toFixed(2)),
+        underfillPercentage: parseFloat(option.combination.underfillPercentage.toFixed(2)),
+        score: option.score.total,
+        scoreComponents: {
+          overfill: option.score.overfill,
+          underfill: option.score.underfill,
+          packageCount: option.score.packageCount,
+        },
+        packages: option.primary
+          ? recommendedPackages
+          : option.combination.items.map(item => ({
+              ndc: item.package.ndc,
+              ...ndcFormsFor(item.package.ndc),
+              ...discontinuationFor(item.package.ndc),
+              packageSize: item.package.packageSize.quantity,
+              unit: item.package.packageSize.unit,
+              containers: item.package.packageSize.containers,
+              dosageForm: item.package.dosageForm,
+              marketingStatus: item.package.marketingStatus,
+              isActive: item.package.isActive,
+              quantityNeeded: item.package.packageSize.quantity * item.count,
+              fillPrecision: option.combination.fillPrecision,
+              mustDispenseWhole: item.package.mustDispenseWhole,
+              packageCount: item.count,
+              ...stockFor(item.package, item.count),
+              ...costFor(item.package, item.package.packageSize.quantity * item.count),
+            })),
+      }));
+    }
 
     // ==========================================
     // STEP 6: AI Enhancement (Optional - Annotation Only)
@@ -362,7 +1231,9 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
             strength,
           },
           prescription: {
-            sig: `${request.sig.dose} ${request.sig.unit} ${request.sig.frequency} times daily`,
+            sig: phases
+              ? phases.map(p => `${p.dose} ${p.unit} ${p.frequency} times daily for ${p.durationDays} days`).join(', then ')
+              : `${sig.dose} ${sig.unit} ${sig.frequency} times daily${sig.asNeeded ? ' as needed' : ''}`,
             daysSupply: request.daysSupply,
             quantityNeeded: totalQuantity,
           },
@@ -465,6 +1336,9 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
     // ==========================================
     const executionTime = Date.now() - startTime;
     metadata.executionTime = executionTime;
+    metadata.dataSource = fetched.source;
+    metadata.snapshotVersion = fetched.snapshotVersion;
+    metadata.asOf = asOf.toISOString().slice(0, 10);
     
     logger.info('Calculation completed successfully', {
       rxcui,
@@ -483,7 +1357,29 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
           strength,
         },
         totalQuantity,
+        administrationCount: quantityResult.administrationCount,
+        injectable: injectableResult && {
+          deviceType: injectableResult.injectable.deviceType,
+          devicesNeeded: injectableResult.injectable.devicesNeeded,
+          unitsPerMl: injectableResult.injectable.unitsPerMl,
+          volumeMl: injectableResult.injectable.volumeMl,
+          totalUnits: injectableResult.injectable.totalUnits,
+          primingUnits: injectableResult.injectable.primingUnits,
+          discardAfterDays: injectableResult.injectable.discardAfterDays,
+          daysCovered: injectableResult.injectable.daysCovered,
+        },
+        actuation: actuationResult && {
+          deviceName: actuationResult.actuation.deviceName,
+          devicesNeeded: actuationResult.actuation.devicesNeeded,
+          actuationsPerDevice: actuationResult.actuation.actuationsPerDevice,
+          primingActuations: actuationResult.actuation.primingActuations,
+          totalActuations: actuationResult.actuation.totalActuations,
+          daysCovered: actuationResult.actuation.daysCovered,
+        },
+        fills,
+        costOptions,
         recommendedPackages,
+        packageOptions,
         overfillPercentage: parseFloat(overfillPercentage.toFixed(2)),
         underfillPercentage: parseFloat(underfillPercentage.toFixed(2)),
         warnings,
@@ -499,7 +1395,7 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
     const executionTime = Date.now() - startTime;
     
     logger.error('Calculation failed', error as Error, {
-      request,
+      request: redactObjectPHI(request),
       executionTime,
     });
 
@@ -515,3 +1411,89 @@ export async function calculateHandler(req: Request, res: Response): Promise<voi
     res.status(500).json(response);
   }
 }
+
+/**
+ * Effective labeler lists for a signed-in user (user lists first, then organisation)
+ * Fails soft: calculations run without preferences if they cannot be loaded
+ */
+async function loadLabelerPreferences(
+  user: NonNullable<AuthenticatedRequest['user']>
+): Promise<Required<LabelerPreferences> | undefined> {
+  try {
+    const db = admin.firestore();
+    const [userLists, organizationLists] = await Promise.all([
+      getLabelerPreferences(db, 'user', user.uid),
+      user.orgId ? getLabelerPreferences(db, 'organization', user.orgId) : null,
+    ]);
+    return mergeLabelerPreferences(userLists, organizationLists);
+  } catch (error) {
+    logger.warn('Failed to load labeler preferences, continuing without them', {
+      error: error as Error,
+      userId: user.uid,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Stock levels for the candidate NDCs at the user's pharmacy
+ * Fails soft: undefined when nothing is tracked or inventory cannot be loaded
+ */
+async function loadInventory(
+  user: NonNullable<AuthenticatedRequest['user']>,
+  packages: PackageCandidate[]
+): Promise<InventoryLookup | undefined> {
+  try {
+    const records = await inventoryStoreFor(user).getMany(packages.map(pkg => pkg.ndc));
+    return records.size > 0 ? records : undefined;
+  } catch (error) {
+    logger.warn('Failed to load inventory, continuing without stock levels', {
+      error: error as Error,
+      userId: user.uid,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Unit prices for the candidate NDCs from the uploaded price file
+ * Fails soft: undefined when no candidate is priced or prices cannot be loaded
+ */
+async function loadUnitPrices(packages: PackageCandidate[]): Promise<UnitPriceLookup | undefined> {
+  try {
+    const records = await unitPriceStore().getMany(packages.map(pkg => pkg.ndc));
+    if (records.size === 0) return undefined;
+    return new Map(Array.from(records, ([ndc, record]) => [ndc, record.unitPrice]));
+  } catch (error) {
+    logger.warn('Failed to load unit prices, continuing without cost optimisation', {
+      error: error as Error,
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Convert an FDA package to the domain PackageCandidate format
+ */
+function toPackageCandidate(pkg: NDCPackage): PackageCandidate {
+  const wholePackage = classifyWholePackage(pkg.dosageForm, pkg.packageSize.description);
+
+  return {
+    ndc: pkg.ndc,
+    packageSize: {
+      quantity: pkg.packageSize.quantity,
+      unit: pkg.packageSize.unit,
+      containers: pkg.packageSize.containers,
+    },
+    dosageForm: pkg.dosageForm,
+    marketingStatus: typeof pkg.marketingStatus === 'object' 
+      ? pkg.marketingStatus.status 
+      : 'unknown',
+    isActive: typeof pkg.marketingStatus === 'object' 
+      ? pkg.marketingStatus.isActive 
+      : false,
+    labelerName: pkg.labeler,
+    mustDispenseWhole: wholePackage.mustDispenseWhole,
+    wholePackageReason: wholePackage.reason,
+  };
+}
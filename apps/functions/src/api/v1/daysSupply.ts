@@ -0,0 +1,233 @@
+/**
+ * Days Supply Endpoint
+ * Reverse calculation: days supply for the quantity actually dispensed,
+ * as reported on claims (e.g. after rounding up to a full inhaler or carton)
+ */
+
+import { Request, Response } from 'express';
+import {
+  DaysSupplyRequest,
+  DaysSupplyResponse,
+  Explanation,
+} from '@api-contracts';
+import { fdaClient, parsePackageSize } from '@clients-openfda';
+import { createLogger, NotFoundError } from '@core-guardrails';
+import {
+  computeDaysSupply,
+  isActuationUnit,
+  isDropUnit,
+  normalizeUnit,
+  parseActuationPackage,
+  parseSIG,
+  parseUnitsPerMl,
+  resolveInjectableDevice,
+  type DaysSupplyOptions,
+  type SIGInput,
+} from '@domain-ndc';
+
+const logger = createLogger({ service: 'DaysSupplyEndpoint' });
+
+/**
+ * POST /api/v1/days-supply
+ * Compute days supply from NDC (or package size), quantity dispensed and SIG
+ */
+export async function daysSupplyHandler(req: Request, res: Response): Promise<void> {
+  const startTime = Date.now();
+  const request = req.body as DaysSupplyRequest;
+
+  const explanations: Explanation[] = [];
+  const warnings: string[] = [];
+
+  try {
+    // ==========================================
+    // STEP 1: Resolve SIG (structured or free-text)
+    // ==========================================
+    let sig: SIGInput;
+
+    if (request.sig) {
+      sig = request.sig;
+    } else if (request.sigText) {
+      const parsedSig = parseSIG(request.sigText);
+      sig = parsedSig.sig;
+
+      explanations.push({
+        step: 'sig_parsing',
+        description: `Parsed SIG as ${sig.dose} ${sig.unit} × ${parseFloat(sig.frequency.toFixed(4))}/day`,
+        details: {
+          confidence: parsedSig.confidence,
+          unparsed: parsedSig.unparsed,
+        },
+      });
+
+      if (parsedSig.confidence < 0.8) {
+        warnings.push(
+          `SIG parsing confidence is ${(parsedSig.confidence * 100).toFixed(0)}%. ` +
+          `Please verify directions: ${sig.dose} ${sig.unit}, ${parseFloat(sig.frequency.toFixed(4))} time(s) per day`
+        );
+      }
+    } else {
+      throw new Error('Either sig or sigText must be provided');
+    }
+
+    // ==========================================
+    // STEP 2: Resolve package (NDC lookup, description or explicit size)
+    // ==========================================
+    let packageInfo: { ndc?: string; quantity: number; unit: string; description?: string } | undefined;
+    let levels: Array<{ quantity: number; unit: string; container: string }> | undefined;
+    let strength = request.strength;
+    let dosageForm: string | undefined;
+
+    if (request.ndc) {
+      const details = await fdaClient.getNDCDetails(request.ndc);
+      if (!details) {
+        throw new NotFoundError(`NDC ${request.ndc} not found in FDA NDC Directory`, 'NDC_NOT_FOUND', {
+          ndc: request.ndc,
+        });
+      }
+
+      packageInfo = {
+        ndc: details.ndc,
+        quantity: details.packageSize.quantity,
+        unit: details.packageSize.unit,
+        description: details.packageSize.description,
+      };
+      levels = details.packageSize.levels;
+      strength = strength ?? details.activeIngredients[0]?.strength;
+      dosageForm = details.dosageForm;
+    } else if (request.packageDescription) {
+      const parsed = parsePackageSize(request.packageDescription);
+      if (parsed.parsed === false) {
+        throw new Error(`Unable to parse package description: "${request.packageDescription}"`);
+      }
+
+      packageInfo = {
+        quantity: parsed.quantity,
+        unit: parsed.unit,
+        description: parsed.description,
+      };
+      levels = parsed.levels;
+    } else if (request.packageSize) {
+      packageInfo = { ...request.packageSize };
+    }
+
+    if (packageInfo) {
+      explanations.push({
+        step: 'package_resolution',
+        description: `Package contains ${packageInfo.quantity} ${packageInfo.unit}`,
+        details: {
+          ndc: packageInfo.ndc,
+          description: packageInfo.description,
+          strength,
+          dosageForm,
+        },
+      });
+    }
+
+    // ==========================================
+    // STEP 3: Quantity dispensed
+    // ==========================================
+    const quantityDispensed = request.quantityDispensed
+      ?? (request.packageCount ?? 1) * packageInfo!.quantity;
+
+    if (packageInfo && request.quantityDispensed && request.packageCount) {
+      const packageQuantity = request.packageCount * packageInfo.quantity;
+      if (packageQuantity !== request.quantityDispensed) {
+        warnings.push(
+          `Quantity dispensed (${request.quantityDispensed}) differs from ` +
+          `${request.packageCount} × ${packageInfo.quantity} ${packageInfo.unit} (${packageQuantity}); ` +
+          `using quantity dispensed.`
+        );
+      }
+    }
+
+    // Pens/vials (units dosed, mL billed) and inhalers (priming) convert through
+    // the device, as in the forward calculation
+    const deviceOptions: DaysSupplyOptions = {};
+    if (normalizeUnit(sig.unit) === 'UNIT') {
+      const unitsPerMl = parseUnitsPerMl(strength || '');
+      deviceOptions.injectableDevice = resolveInjectableDevice(levels, strength) ?? undefined;
+
+      if (!deviceOptions.injectableDevice && unitsPerMl && packageInfo?.unit.toUpperCase() === 'ML') {
+        deviceOptions.injectableDevice = { type: 'vial', unitsPerMl, volumeMl: packageInfo.quantity };
+        warnings.push('Could not determine pen or vial size from packaging; each package is treated as one vial.');
+      }
+    } else if (isActuationUnit(sig.unit)) {
+      deviceOptions.actuationsPerDevice = parseActuationPackage(levels, packageInfo?.description)
+        ?.actuationsPerDevice;
+    } else if (isDropUnit(sig.unit) && packageInfo?.unit.toUpperCase() === 'ML') {
+      // Each bottle is discarded after opening; the cap applies per bottle
+      deviceOptions.dropBottleMl = packageInfo.quantity;
+    }
+
+    // ==========================================
+    // STEP 4: Days supply (forward calculation in reverse)
+    // ==========================================
+    const result = computeDaysSupply(sig, quantityDispensed, {
+      strength,
+      dosageForm,
+      dropsPerMl: request.dropsPerMl,
+    }, deviceOptions);
+    warnings.push(...result.warnings);
+
+    explanations.push({
+      step: 'days_supply_calculation',
+      description: result.calculation,
+      details: {
+        method: result.method,
+        dose: sig.dose,
+        frequency: sig.frequency,
+        schedule: sig.schedule,
+        administrationCount: result.administrationCount,
+        injectableDevice: deviceOptions.injectableDevice,
+        actuationsPerDevice: deviceOptions.actuationsPerDevice,
+        dropBottleMl: deviceOptions.dropBottleMl,
+        result: result.daysSupply,
+      },
+    });
+
+    const executionTime = Date.now() - startTime;
+    logger.info('Days supply calculated', {
+      ndc: packageInfo?.ndc,
+      quantityDispensed,
+      daysSupply: result.daysSupply,
+      executionTime,
+    });
+
+    const response: DaysSupplyResponse = {
+      success: true,
+      data: {
+        daysSupply: result.daysSupply,
+        quantityDispensed,
+        unit: packageInfo?.unit,
+        quantityUsed: result.quantityUsed,
+        remainingQuantity: result.remainingQuantity,
+        dailyQuantity: result.dailyQuantity,
+        administrationCount: result.administrationCount,
+        package: packageInfo,
+        exceedsLimit: result.exceedsLimit,
+        warnings,
+        explanations,
+      },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+
+    logger.error('Days supply calculation failed', error as Error, {
+      ndc: request.ndc,
+      executionTime,
+    });
+
+    const response: DaysSupplyResponse = {
+      success: false,
+      error: {
+        code: (error as any).code || 'CALCULATION_ERROR',
+        message: (error as Error).message || 'Failed to calculate days supply',
+        details: { executionTime },
+      },
+    };
+
+    res.status((error as any).statusCode || 500).json(response);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Inventory Endpoints
+ * On-hand stock per pharmacy (organisation, or the user without one):
+ * CRUD per NDC and CSV import. Used by /v1/calculate to prefer in-stock NDCs.
+ */
+
+import { Response } from 'express';
+import * as admin from 'firebase-admin';
+import {
+  InventoryImportRequest,
+  InventoryItem,
+  InventoryQuantities,
+  InventoryResponse,
+} from '@api-contracts';
+import { AppError, createLogger, NotFoundError, ValidationError } from '@core-guardrails';
+import {
+  FirestoreInventoryStore,
+  normalizeNDCKey,
+  parseInventoryCSV,
+  type IInventoryStore,
+  type InventoryRecord,
+} from '@data-cache';
+import { AuthenticatedRequest } from './middlewares/auth';
+
+const logger = createLogger({ service: 'InventoryEndpoint' });
+
+/**
+ * Inventory store for the caller's pharmacy
+ */
+export function inventoryStoreFor(user: NonNullable<AuthenticatedRequest['user']>): IInventoryStore {
+  return new FirestoreInventoryStore(admin.firestore(), user.orgId ?? user.uid);
+}
+
+/**
+ * GET /api/v1/inventory
+ * List all records
+ */
+export async function listInventoryHandler(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const items = await storeFor(req).list();
+    sendData(res, { items: items.map(toItem) });
+  } catch (error) {
+    logger.error('Failed to list inventory', error as Error, { userId: req.user?.uid });
+    sendError(res, error, 'Failed to retrieve inventory');
+  }
+}
+
+/**
+ * GET /api/v1/inventory/:ndc
+ * Get the record for one NDC
+ */
+export async function getInventoryItemHandler(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { ndc } = req.params;
+
+  try {
+    const record = await storeFor(req).get(validated(() => normalizeNDCKey(ndc)));
+    if (!record) {
+      throw new NotFoundError(`NDC ${ndc} is not in inventory`, 'INVENTORY_ITEM_NOT_FOUND', { ndc });
+    }
+    sendData(res, { item: toItem(record) });
+  } catch (error) {
+    logger.error('Failed to get inventory item', error as Error, { userId: req.user?.uid, ndc });
+    sendError(res, error, 'Failed to retrieve inventory item');
+  }
+}
+
+/**
+ * PUT /api/v1/inventory/:ndc
+ * Create or replace the record for one NDC
+ */
+export async function updateInventoryItemHandler(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { ndc } = req.params;
+  const quantities = req.body as InventoryQuantities;
+
+  try {
+    const record = await storeFor(req).upsert({
+      ndc: validated(() => normalizeNDCKey(ndc)),
+      ...quantities,
+    });
+    logger.info('Inventory item updated', { userId: req.user?.uid, ndc: record.ndc });
+    sendData(res, { item: toItem(record) });
+  } catch (error) {
+    logger.error('Failed to update inventory item', error as Error, { userId: req.user?.uid, ndc });
+    sendError(res, error, 'Failed to update inventory item');
+  }
+}
+
+/**
+ * DELETE /api/v1/inventory/:ndc
+ * Stop tracking an NDC
+ */
+export async function deleteInventoryItemHandler(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { ndc } = req.params;
+
+  try {
+    const deleted = await storeFor(req).delete(validated(() => normalizeNDCKey(ndc)));
+    if (!deleted) {
+      throw new NotFoundError(`NDC ${ndc} is not in inventory`, 'INVENTORY_ITEM_NOT_FOUND', { ndc });
+    }
+    logger.info('Inventory item deleted', { userId: req.user?.uid, ndc });
+    sendData(res, {});
+  } catch (error) {
+    logger.error('Failed to delete inventory item', error as Error, { userId: req.user?.uid, ndc });
+    sendError(res, error, 'Failed to delete inventory item');
+  }
+}
+
+/**
+ * POST /api/v1/inventory/import
+ * Import a CSV export (NDC, on-hand quantity, opened-bottle remaining);
+ * imported NDCs are replaced, others are left as they are
+ */
+export async function importInventoryHandler(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const request = req.body as InventoryImportRequest;
+
+  try {
+    const { records, errors } = validated(() => parseInventoryCSV(request.csv));
+    const imported = await storeFor(req).upsertMany(records);
+
+    logger.info('Inventory imported', {
+      userId: req.user?.uid,
+      imported,
+      skippedRows: errors.length,
+    });
+
+    sendData(res, { imported, errors });
+  } catch (error) {
+    logger.error('Failed to import inventory', error as Error, { userId: req.user?.uid });
+    sendError(res, error, 'Failed to import inventory');
+  }
+}
+
+function storeFor(req: AuthenticatedRequest): IInventoryStore {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401, 'AUTH_REQUIRED');
+  }
+  return inventoryStoreFor(req.user);
+}
+
+/**
+ * Report NDC and CSV format errors as 400s
+ */
+function validated<T>(parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    throw new ValidationError((error as Error).message);
+  }
+}
+
+function toItem(record: InventoryRecord): InventoryItem {
+  return {
+    ndc: record.ndc,
+    onHandQuantity: record.onHandQuantity,
+    openedRemaining: record.openedRemaining,
+    updatedAt: record.updatedAt?.toISOString(),
+  };
+}
+
+function sendData(res: Response, data: NonNullable<InventoryResponse['data']>): void {
+  const response: InventoryResponse = { success: true, data };
+  res.status(200).json(response);
+}
+
+function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  const response: InventoryResponse = {
+    success: false,
+    error: {
+      code: (error as any).code || 'INVENTORY_ERROR',
+      message: error instanceof AppError ? error.message : fallbackMessage,
+    },
+  };
+
+  res.status((error as any).statusCode || 500).json(response);
+}
@@ -0,0 +1,128 @@
+/**
+ * Labeler Preferences Endpoints
+ * Per-user and per-organisation labeler (manufacturer) preference and block lists,
+ * applied when selecting packages in /v1/calculate
+ */
+
+import { Response } from 'express';
+import * as admin from 'firebase-admin';
+import {
+  LabelerPreferencesRequest,
+  LabelerPreferencesResponse,
+} from '@api-contracts';
+import {
+  AppError,
+  createLogger,
+  getLabelerPreferences,
+  saveLabelerPreferences,
+  type StoredLabelerPreferences,
+} from '@core-guardrails';
+import { mergeLabelerPreferences } from '@domain-ndc';
+import { AuthenticatedRequest, UserRole } from './middlewares/auth';
+
+const logger = createLogger({ service: 'LabelerPreferencesEndpoint' });
+
+/**
+ * GET /api/v1/labeler-preferences
+ * Caller's lists, their organisation's lists and the effective combination
+ */
+export async function getLabelerPreferencesHandler(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    const { user, organization } = await loadLists(req);
+    res.status(200).json(buildResponse(user, organization));
+  } catch (error) {
+    logger.error('Failed to get labeler preferences', error as Error, {
+      userId: req.user?.uid,
+    });
+    sendError(res, error, 'Failed to retrieve labeler preferences');
+  }
+}
+
+/**
+ * PUT /api/v1/labeler-preferences
+ * Replace the caller's lists, or their organisation's lists (admin only)
+ */
+export async function updateLabelerPreferencesHandler(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const request = req.body as LabelerPreferencesRequest;
+
+  try {
+    const user = req.user;
+    if (!user) {
+      throw new AppError('Authentication required', 401, 'AUTH_REQUIRED');
+    }
+
+    const lists = { preferred: request.preferred, blocked: request.blocked };
+
+    if (request.scope === 'organization') {
+      if (!user.orgId) {
+        throw new AppError('User does not belong to an organisation', 400, 'ORGANIZATION_NOT_ASSIGNED');
+      }
+      if (user.role !== UserRole.ADMIN) {
+        throw new AppError(
+          'Only administrators can change organisation labeler preferences',
+          403,
+          'INSUFFICIENT_PERMISSIONS'
+        );
+      }
+      await saveLabelerPreferences(admin.firestore(), 'organization', user.orgId, lists, user.uid);
+    } else {
+      await saveLabelerPreferences(admin.firestore(), 'user', user.uid, lists, user.uid);
+    }
+
+    const stored = await loadLists(req);
+    res.status(200).json(buildResponse(stored.user, stored.organization));
+  } catch (error) {
+    logger.error('Failed to update labeler preferences', error as Error, {
+      userId: req.user?.uid,
+      scope: request.scope,
+    });
+    sendError(res, error, 'Failed to update labeler preferences');
+  }
+}
+
+async function loadLists(req: AuthenticatedRequest): Promise<{
+  user: StoredLabelerPreferences | null;
+  organization: StoredLabelerPreferences | null;
+}> {
+  const db = admin.firestore();
+  const [user, organization] = await Promise.all([
+    req.user ? getLabelerPreferences(db, 'user', req.user.uid) : null,
+    req.user?.orgId ? getLabelerPreferences(db, 'organization', req.user.orgId) : null,
+  ]);
+  return { user, organization };
+}
+
+function buildResponse(
+  user: StoredLabelerPreferences | null,
+  organization: StoredLabelerPreferences | null
+): LabelerPreferencesResponse {
+  const lists = (stored: StoredLabelerPreferences | null) =>
+    stored ? { preferred: stored.preferred, blocked: stored.blocked } : undefined;
+
+  return {
+    success: true,
+    data: {
+      user: lists(user),
+      organization: lists(organization),
+      effective: mergeLabelerPreferences(user, organization),
+    },
+  };
+}
+
+function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  const response: LabelerPreferencesResponse = {
+    success: false,
+    error: {
+      code: (error as any).code || 'LABELER_PREFERENCES_ERROR',
+      message: error instanceof AppError ? error.message : fallbackMessage,
+    },
+  };
+
+  res.status((error as any).statusCode || 500).json(response);
+}
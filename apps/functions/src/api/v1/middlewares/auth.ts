@@ -26,6 +26,8 @@ export interface AuthenticatedRequest extends Request {
     uid: string;
     email?: string;
     role?: UserRole;
+    /** Organisation (pharmacy) the user belongs to */
+    orgId?: string;
     emailVerified?: boolean;
   };
 }
@@ -37,7 +39,7 @@ export interface AuthenticatedRequest extends Request {
  * 1. Extracts Bearer token from Authorization header
  * 2. Verifies token with Firebase Admin SDK
  * 3. Attaches user info to request object
- * 4. Loads user role from Firestore
+ * 4. Loads user role and organisation from Firestore
  * 
  * @param req Express request
  * @param res Express response
@@ -80,6 +82,7 @@ export async function verifyToken(
       uid: decodedToken.uid,
       email: decodedToken.email,
       role: role,
+      orgId: userData?.orgId as string | undefined,
       emailVerified: decodedToken.email_verified,
     };
 
@@ -269,6 +272,7 @@ export async function optionalAuth(
       uid: decodedToken.uid,
       email: decodedToken.email,
       role: userData?.role as UserRole | undefined,
+      orgId: userData?.orgId as string | undefined,
       emailVerified: decodedToken.email_verified,
     };
 
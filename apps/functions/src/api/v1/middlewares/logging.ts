@@ -11,7 +11,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { createLogger, generateCorrelationId, LogContext } from '@core-guardrails';
+import { createLogger, generateCorrelationId, redactObjectPHI, LogContext } from '@core-guardrails';
 import { AuthenticatedRequest } from './auth';
 
 const logger = createLogger({ service: 'request-logger' });
@@ -56,7 +56,8 @@ function getGCPTraceContext(req: Request): { traceId?: string; spanId?: string }
 
 /**
  * Redact sensitive data from request body for logging
- * This is a simple implementation - extend as needed
+ * Credentials by field name, then PHI (e.g., the calculate request's patient block).
+ * Import CSVs (prices, inventory) are logged by length only.
  */
 function redactRequestBody(body: any): any {
   if (!body || typeof body !== 'object') {
@@ -84,10 +85,15 @@ function redactRequestBody(body: any): any {
     }
   }
   
+  // Import files run to several MB; skip writing them to the log and scanning them for PHI
+  if (typeof redacted.csv === 'string') {
+    redacted.csv = `[CSV: ${redacted.csv.length} characters]`;
+  }
+  
   // Note: Drug names are NOT PHI by themselves (they're public knowledge)
   // Only patient-specific data is PHI
   
-  return redacted;
+  return redactObjectPHI(redacted);
 }
 
 /**
@@ -0,0 +1,146 @@
+/**
+ * NDC Data Source Selection
+ * Fetches NDC packages from live openFDA, the offline NDC Directory snapshot,
+ * or both, per NDC_DATA_SOURCE. Used by /v1/calculate.
+ */
+
+import {
+  fdaClient,
+  readNDCSnapshot,
+  diffNDCPackages,
+  hasDifferences,
+  type NDCPackage,
+  type NDCSearchOptions,
+  type NDCSnapshot,
+  type NDCSourceDiff,
+} from '@clients-openfda';
+import { createLogger } from '@core-guardrails';
+import { NDC_DATA_SOURCE, NDC_SNAPSHOT_PATH, type NDCDataSourceMode } from '@core-config';
+
+const logger = createLogger({ service: 'NDCDataSource' });
+
+export interface NDCFetchResult {
+  packages: NDCPackage[];
+  /** Where the packages came from */
+  source: 'openfda' | 'snapshot';
+  /** Snapshot version, when the snapshot was used or compared */
+  snapshotVersion?: string;
+  warnings: string[];
+  /** Set when openFDA matched more product listings than the result ceiling allows */
+  truncation?: { totalListings: number; retrievedListings: number };
+  /** Differences between openFDA and the snapshot (diff mode) */
+  diff?: NDCSourceDiff;
+}
+
+/**
+ * Fetch from openFDA, noting truncation at the result ceiling
+ */
+async function fetchLive(rxcui: string, options: NDCSearchOptions): Promise<NDCFetchResult> {
+  const { packages, totalListings, retrievedListings } = await fdaClient.searchNDCsByRxCUI(rxcui, options);
+  return {
+    packages,
+    source: 'openfda',
+    warnings: [],
+    truncation: retrievedListings < totalListings && !options.limit && !options.skip
+      ? { totalListings, retrievedListings }
+      : undefined,
+  };
+}
+
+let snapshotLoad: Promise<NDCSnapshot> | undefined;
+
+/**
+ * The NDC Directory snapshot, loaded once per instance
+ */
+export function loadNDCSnapshot(): Promise<NDCSnapshot> {
+  if (!NDC_SNAPSHOT_PATH) {
+    return Promise.reject(new Error('NDC snapshot is not configured (set NDC_SNAPSHOT_PATH)'));
+  }
+
+  snapshotLoad ??= readNDCSnapshot(NDC_SNAPSHOT_PATH).catch((error) => {
+    snapshotLoad = undefined;
+    throw error;
+  });
+  return snapshotLoad;
+}
+
+/**
+ * Fetch NDC packages for an RxCUI from the configured data source
+ *
+ * @param rxcui RxNorm Concept Unique Identifier
+ * @param options Search options
+ * @param mode Data source mode (default: NDC_DATA_SOURCE)
+ */
+export async function fetchPackagesByRxCUI(
+  rxcui: string,
+  options: NDCSearchOptions = {},
+  mode: NDCDataSourceMode = NDC_DATA_SOURCE
+): Promise<NDCFetchResult> {
+  switch (mode) {
+    case 'snapshot': {
+      const snapshot = await loadNDCSnapshot();
+      return {
+        packages: await snapshot.getNDCsByRxCUI(rxcui, options),
+        source: 'snapshot',
+        snapshotVersion: snapshot.version,
+        warnings: [],
+      };
+    }
+
+    case 'fallback': {
+      let liveError: Error | undefined;
+      try {
+        const live = await fetchLive(rxcui, options);
+        if (live.packages.length > 0) {
+          return live;
+        }
+      } catch (error) {
+        liveError = error as Error;
+        logger.warn('openFDA lookup failed, falling back to NDC snapshot', { error: liveError, rxcui });
+      }
+
+      let snapshot: NDCSnapshot;
+      try {
+        snapshot = await loadNDCSnapshot();
+      } catch (error) {
+        logger.error('NDC snapshot unavailable for fallback', error as Error, { rxcui });
+        if (liveError) throw liveError;
+        return { packages: [], source: 'openfda', warnings: [] };
+      }
+
+      return {
+        packages: await snapshot.getNDCsByRxCUI(rxcui, options),
+        source: 'snapshot',
+        snapshotVersion: snapshot.version,
+        warnings: [
+          `${liveError ? 'openFDA is unavailable' : 'openFDA returned no packages'}; ` +
+          `packages are from the NDC Directory snapshot of ${snapshot.version} and may be out of date.`,
+        ],
+      };
+    }
+
+    case 'diff': {
+      const live = await fetchLive(rxcui, options);
+      try {
+        const snapshot = await loadNDCSnapshot();
+        const diff = diffNDCPackages(live.packages, await snapshot.getNDCsByRxCUI(rxcui, options));
+        if (hasDifferences(diff)) {
+          logger.info('openFDA and NDC snapshot differ', {
+            rxcui,
+            snapshotVersion: snapshot.version,
+            onlyLive: diff.onlyLive,
+            onlySnapshot: diff.onlySnapshot,
+            changed: diff.changed,
+          });
+        }
+        return { ...live, snapshotVersion: snapshot.version, diff };
+      } catch (error) {
+        logger.warn('NDC snapshot diff skipped', { error: error as Error, rxcui });
+        return live;
+      }
+    }
+
+    default:
+      return fetchLive(rxcui, options);
+  }
+}
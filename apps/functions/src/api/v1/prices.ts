@@ -0,0 +1,114 @@
+/**
+ * Unit Price Endpoints
+ * Per-NDC acquisition cost from an uploaded price file (NADAC-style CSV).
+ * Used by /v1/calculate to select packages by cost.
+ */
+
+import { Response } from 'express';
+import * as admin from 'firebase-admin';
+import { UnitPrice, UnitPriceImportRequest, UnitPriceResponse } from '@api-contracts';
+import { AppError, createLogger, formatCurrency, NotFoundError, ValidationError } from '@core-guardrails';
+import {
+  FirestoreUnitPriceStore,
+  normalizeNDCKey,
+  parseUnitPriceCSV,
+  type IUnitPriceStore,
+  type UnitPriceRecord,
+} from '@data-cache';
+import { AuthenticatedRequest } from './middlewares/auth';
+
+const logger = createLogger({ service: 'PricesEndpoint' });
+
+/** Decimals shown for unit prices (NADAC publishes five) */
+export const UNIT_PRICE_DECIMALS = 5;
+
+/**
+ * Unit price store (one price file shared by all users)
+ */
+export function unitPriceStore(): IUnitPriceStore {
+  return new FirestoreUnitPriceStore(admin.firestore());
+}
+
+/**
+ * GET /api/v1/prices/:ndc
+ * Get the unit price for one NDC
+ */
+export async function getUnitPriceHandler(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const { ndc } = req.params;
+
+  try {
+    const record = await unitPriceStore().get(validated(() => normalizeNDCKey(ndc)));
+    if (!record) {
+      throw new NotFoundError(`No unit price for NDC ${ndc}`, 'UNIT_PRICE_NOT_FOUND', { ndc });
+    }
+    sendData(res, { price: toPrice(record) });
+  } catch (error) {
+    logger.error('Failed to get unit price', error as Error, { userId: req.user?.uid, ndc });
+    sendError(res, error, 'Failed to retrieve unit price');
+  }
+}
+
+/**
+ * POST /api/v1/prices/import
+ * Import a price file (NDC, per-unit price, effective date); imported NDCs
+ * are replaced, others are left as they are
+ */
+export async function importUnitPricesHandler(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const request = req.body as UnitPriceImportRequest;
+
+  try {
+    const asOf = request.asOf ? new Date(`${request.asOf}T00:00:00Z`) : new Date();
+    const { records, errors } = validated(() => parseUnitPriceCSV(request.csv, asOf));
+    const imported = await unitPriceStore().upsertMany(records);
+
+    logger.info('Unit prices imported', {
+      userId: req.user?.uid,
+      imported,
+      skippedRows: errors.length,
+    });
+
+    sendData(res, { imported, errors });
+  } catch (error) {
+    logger.error('Failed to import unit prices', error as Error, { userId: req.user?.uid });
+    sendError(res, error, 'Failed to import unit prices');
+  }
+}
+
+/**
+ * Report NDC and CSV format errors as 400s
+ */
+function validated<T>(parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    throw new ValidationError((error as Error).message);
+  }
+}
+
+function toPrice(record: UnitPriceRecord): UnitPrice {
+  return {
+    ndc: record.ndc,
+    unitPrice: record.unitPrice,
+    formattedUnitPrice: formatCurrency(record.unitPrice, UNIT_PRICE_DECIMALS),
+    effectiveDate: record.effectiveDate,
+    pricingUnit: record.pricingUnit,
+    updatedAt: record.updatedAt?.toISOString(),
+  };
+}
+
+function sendData(res: Response, data: NonNullable<UnitPriceResponse['data']>): void {
+  const response: UnitPriceResponse = { success: true, data };
+  res.status(200).json(response);
+}
+
+function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  const response: UnitPriceResponse = {
+    success: false,
+    error: {
+      code: (error as any).code || 'UNIT_PRICE_ERROR',
+      message: error instanceof AppError ? error.message : fallbackMessage,
+    },
+  };
+
+  res.status((error as any).statusCode || 500).json(response);
+}
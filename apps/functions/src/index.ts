@@ -9,10 +9,31 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 
-import { CalculateRequestSchema, AlternativesRequestSchema } from '@api-contracts';
+import {
+  CalculateRequestSchema,
+  AlternativesRequestSchema,
+  DaysSupplyRequestSchema,
+  LabelerPreferencesRequestSchema,
+  InventoryQuantitiesSchema,
+  InventoryImportRequestSchema,
+  UnitPriceImportRequestSchema,
+} from '@api-contracts';
 import { healthCheck } from './api/v1/health';
 import { calculateHandler } from './api/v1/calculate';
+import { daysSupplyHandler } from './api/v1/daysSupply';
 import { alternativesHandler } from './api/v1/alternatives';
+import {
+  getLabelerPreferencesHandler,
+  updateLabelerPreferencesHandler,
+} from './api/v1/labelerPreferences';
+import {
+  listInventoryHandler,
+  getInventoryItemHandler,
+  updateInventoryItemHandler,
+  deleteInventoryItemHandler,
+  importInventoryHandler,
+} from './api/v1/inventory';
+import { getUnitPriceHandler, importUnitPricesHandler } from './api/v1/prices';
 import {
   getSystemAnalytics,
   getUserAnalytics,
@@ -67,6 +88,8 @@ const corsOptions = {
 // Global middlewares
 app.use(helmet());
 app.use(cors(corsOptions));
+app.use('/v1/inventory/import', express.json({ limit: '2mb' })); // CSV exports exceed the default 100kb
+app.use('/v1/prices/import', express.json({ limit: '25mb' })); // Full NADAC files run to several MB
 app.use(express.json());
 app.use(loggingMiddleware); // Request/response logging with correlation IDs
 app.use(redactionMiddleware);
@@ -85,6 +108,15 @@ app.post(
   asyncHandler(calculateHandler)
 );
 
+// Days supply (reverse calculation) for claims reporting
+app.post(
+  '/v1/days-supply',
+  asyncHandler(optionalAuth),
+  asyncHandler(rateLimitMiddleware),
+  validateRequest(DaysSupplyRequestSchema),
+  asyncHandler(daysSupplyHandler)
+);
+
 // Alternatives endpoint (requires authentication)
 app.post(
   '/v1/alternatives',
@@ -94,6 +126,75 @@ app.post(
   asyncHandler(alternativesHandler)
 );
 
+// Labeler preference and block lists (requires authentication; organisation lists admin only)
+app.get(
+  '/v1/labeler-preferences',
+  asyncHandler(verifyToken),
+  asyncHandler(getLabelerPreferencesHandler)
+);
+
+app.put(
+  '/v1/labeler-preferences',
+  asyncHandler(verifyToken),
+  asyncHandler(rateLimitMiddleware),
+  validateRequest(LabelerPreferencesRequestSchema),
+  asyncHandler(updateLabelerPreferencesHandler)
+);
+
+// On-hand inventory (requires authentication; changes require a pharmacy role)
+const inventoryRoles = [UserRole.ADMIN, UserRole.PHARMACIST, UserRole.PHARMACY_TECHNICIAN];
+
+app.get(
+  '/v1/inventory',
+  asyncHandler(verifyToken),
+  asyncHandler(listInventoryHandler)
+);
+
+app.post(
+  '/v1/inventory/import',
+  asyncHandler(verifyToken),
+  checkRole(inventoryRoles),
+  asyncHandler(rateLimitMiddleware),
+  validateRequest(InventoryImportRequestSchema),
+  asyncHandler(importInventoryHandler)
+);
+
+app.get(
+  '/v1/inventory/:ndc',
+  asyncHandler(verifyToken),
+  asyncHandler(getInventoryItemHandler)
+);
+
+app.put(
+  '/v1/inventory/:ndc',
+  asyncHandler(verifyToken),
+  checkRole(inventoryRoles),
+  validateRequest(InventoryQuantitiesSchema),
+  asyncHandler(updateInventoryItemHandler)
+);
+
+app.delete(
+  '/v1/inventory/:ndc',
+  asyncHandler(verifyToken),
+  checkRole(inventoryRoles),
+  asyncHandler(deleteInventoryItemHandler)
+);
+
+// Unit prices (requires authentication; price file upload admin only)
+app.get(
+  '/v1/prices/:ndc',
+  asyncHandler(verifyToken),
+  asyncHandler(getUnitPriceHandler)
+);
+
+app.post(
+  '/v1/prices/import',
+  asyncHandler(verifyToken),
+  checkRole([UserRole.ADMIN]),
+  validateRequest(UnitPriceImportRequestSchema),
+  asyncHandler(importUnitPricesHandler)
+);
+
 // Analytics endpoints (require authentication)
 // System analytics (admin only)
 app.get(
@@ -13,11 +13,20 @@ vi.mock('@clients-rxnorm', () => ({
   nameToRxCui: vi.fn(),
 }));
 
-vi.mock('@clients-openfda', () => ({
-  fdaClient: {
-    getNDCsByRxCUI: vi.fn(),
-  },
-}));
+vi.mock('@clients-openfda', async (importOriginal) => {
+  const getNDCsByRxCUI = vi.fn();
+  return {
+    ...(await importOriginal<typeof import('@clients-openfda')>()),
+    fdaClient: {
+      getNDCsByRxCUI,
+      // Paginated search, answered from the listings stubbed on getNDCsByRxCUI
+      searchNDCsByRxCUI: vi.fn(async (...args: unknown[]) => {
+        const packages = (await getNDCsByRxCUI(...args)) ?? [];
+        return { packages, totalListings: packages.length, retrievedListings: packages.length };
+      }),
+    },
+  };
+});
 
 import { nameToRxCui } from '@clients-rxnorm';
 import { fdaClient } from '@clients-openfda';
@@ -0,0 +1,63 @@
+/**
+ * Tests for the request logging middleware
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { Response } from 'express';
+import { loggingMiddleware } from '../src/api/v1/middlewares/logging';
+import type { AuthenticatedRequest } from '../src/api/v1/middlewares/auth';
+
+const createRequest = (path: string, body: unknown): AuthenticatedRequest =>
+  ({ method: 'POST', path, headers: {}, query: {}, body }) as unknown as AuthenticatedRequest;
+
+const createResponse = (): Response =>
+  ({ setHeader: vi.fn(), json: vi.fn(), on: vi.fn() }) as unknown as Response;
+
+describe('loggingMiddleware', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not log patient measurements from a calculate request', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const request = createRequest('/v1/calculate', {
+      drug: { name: 'amoxicillin' },
+      sig: { dose: 1, frequency: 3, unit: 'mL' },
+      daysSupply: 10,
+      patient: { weightKg: 12.7, heightCm: 88.3, ageYears: 2.5 },
+      weightBasedDose: { amount: 15, basis: 'kg', per: 'dose', unit: 'mg' },
+    });
+
+    loggingMiddleware(request, createResponse(), vi.fn());
+
+    const logged = logSpy.mock.calls.map(call => String(call[0])).join('\n');
+    expect(logged).toContain('Incoming request');
+    expect(logged).toContain('amoxicillin');
+    expect(logged).not.toContain('12.7');
+    expect(logged).not.toContain('88.3');
+    expect(logged).not.toContain('2.5');
+  });
+
+  it('should log an imported price file by length only', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const csv = 'NDC,NADAC_Per_Unit,Pricing_Unit\n00071015623,0.0312,EA\n';
+
+    loggingMiddleware(createRequest('/v1/prices/import', { csv, asOf: '2026-06-01' }), createResponse(), vi.fn());
+
+    const logged = logSpy.mock.calls.map(call => String(call[0])).join('\n');
+    expect(logged).toContain(`[CSV: ${csv.length} characters]`);
+    expect(logged).toContain('2026-06-01');
+    expect(logged).not.toContain('00071015623');
+  });
+
+  it('should log an imported inventory file by length only', () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const csv = 'ndc,on_hand,opened_remaining\n00071-0156-23,180,45\n';
+
+    loggingMiddleware(createRequest('/v1/inventory/import', { csv }), createResponse(), vi.fn());
+
+    const logged = logSpy.mock.calls.map(call => String(call[0])).join('\n');
+    expect(logged).toContain(`[CSV: ${csv.length} characters]`);
+    expect(logged).not.toContain('00071-0156-23');
+  });
+});
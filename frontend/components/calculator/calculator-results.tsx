@@ -5,20 +5,44 @@
  * Displays calculation results with drug info, recommendations, warnings, and explanations
  */
 
-import { CalculateResponse } from '@/types/api';
+import { useEffect, useState } from 'react';
+import { CalculateResponse, PackageOptionKind, StockStatus } from '@/types/api';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { CheckCircle2, XCircle, AlertTriangle, Info, ChevronDown } from 'lucide-react';
 import { APIError } from '@/lib/api-client';
 
+const STOCK_BADGES: Record<StockStatus, { label: string; className: string }> = {
+  in_stock: { label: 'In Stock', className: 'bg-green-50 text-green-700 border-green-200' },
+  insufficient: { label: 'Low Stock', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  opened_only: { label: 'Opened Bottle Only', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  out_of_stock: { label: 'Out of Stock', className: 'bg-red-50 text-red-700 border-red-200' },
+  unknown: { label: 'Not Tracked', className: 'bg-gray-50 text-gray-700 border-gray-200' },
+};
+
+const OPTION_KIND_LABELS: Record<PackageOptionKind, string> = {
+  exact_count: 'Exact Count',
+  least_waste: 'Least Waste',
+  fewest_packages: 'Fewest Packages',
+};
+
 interface CalculatorResultsProps {
   result: CalculateResponse | null;
   error: APIError | Error | null;
 }
 
 export function CalculatorResults({ result, error }: CalculatorResultsProps) {
+  // Index into packageOptions; 0 is the recommended (primary) option
+  const [selectedOption, setSelectedOption] = useState(0);
+
+  useEffect(() => {
+    setSelectedOption(0);
+  }, [result]);
+
   // Error view
   if (error) {
     const isAPIError = error instanceof APIError;
@@ -56,6 +80,14 @@ export function CalculatorResults({ result, error }: CalculatorResultsProps) {
   }
 
   const { data } = result;
+  const option = data.packageOptions?.[selectedOption];
+  const packages = option?.packages ?? data.recommendedPackages;
+  const overfillPercentage = option?.overfillPercentage ?? data.overfillPercentage;
+  const underfillPercentage = option?.underfillPercentage ?? data.underfillPercentage;
+  // "1 × 100 + 2 × 30" for a combination of NDCs (fill plans list each fill's packages instead)
+  const combinationSummary = packages.length > 1 && packages.every(pkg => pkg.fillIndex === undefined)
+    ? packages.map(pkg => `${pkg.packageCount ?? 1} × ${pkg.packageSize}`).join(' + ')
+    : undefined;
 
   // Helper to get badge color based on percentage
   const getPercentageBadge = (percentage: number, type: 'overfill' | 'underfill') => {
@@ -125,6 +157,21 @@ export function CalculatorResults({ result, error }: CalculatorResultsProps) {
         </CardHeader>
         <CardContent>
           <p className="text-3xl font-bold text-blue-600">{data.totalQuantity}</p>
+          {data.injectable && (
+            <p className="mt-2 text-sm text-gray-700">
+              {data.injectable.devicesNeeded} × {data.injectable.volumeMl} mL U-{data.injectable.unitsPerMl}{' '}
+              {data.injectable.deviceType}{data.injectable.devicesNeeded === 1 ? '' : 's'}, covering{' '}
+              {data.injectable.daysCovered} days ({data.injectable.primingUnits} priming units,{' '}
+              discard {data.injectable.discardAfterDays} days after opening)
+            </p>
+          )}
+          {data.actuation && (
+            <p className="mt-2 text-sm text-gray-700">
+              {data.actuation.devicesNeeded} × {data.actuation.actuationsPerDevice}-actuation{' '}
+              {data.actuation.deviceName.toLowerCase()}, covering {data.actuation.daysCovered} days{' '}
+              ({data.actuation.primingActuations} priming actuations per device)
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -135,34 +182,91 @@ export function CalculatorResults({ result, error }: CalculatorResultsProps) {
           <CardDescription>Optimal packages to fulfill the prescription</CardDescription>
         </CardHeader>
         <CardContent>
+          {data.packageOptions && data.packageOptions.length > 1 && (
+            <RadioGroup
+              value={String(selectedOption)}
+              onValueChange={value => setSelectedOption(Number(value))}
+              className="mb-4 gap-2"
+            >
+              {data.packageOptions.map((packageOption, index) => (
+                <div key={packageOption.description} className="flex items-center gap-3 text-sm">
+                  <RadioGroupItem value={String(index)} id={`package-option-${index}`} />
+                  <Label htmlFor={`package-option-${index}`} className="flex flex-wrap items-center gap-2 font-normal">
+                    <span className="font-mono font-medium text-gray-900">{packageOption.description}</span>
+                    <span className="text-gray-500">
+                      = {packageOption.totalQuantity}
+                      {packageOption.overfillPercentage > 0 && `, +${packageOption.overfillPercentage.toFixed(1)}%`}
+                      {packageOption.underfillPercentage > 0 && `, -${packageOption.underfillPercentage.toFixed(1)}%`}
+                      , score {packageOption.score}
+                    </span>
+                    {packageOption.primary && (
+                      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">Recommended</Badge>
+                    )}
+                    {packageOption.kinds.map(kind => (
+                      <Badge key={kind} variant="outline">{OPTION_KIND_LABELS[kind]}</Badge>
+                    ))}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+
+          {combinationSummary && (
+            <p className="mb-4 text-sm text-gray-700">
+              Dispense <span className="font-mono font-medium text-gray-900">{combinationSummary}</span>{' '}
+              {packages[0].unit}
+            </p>
+          )}
+
           <div className="space-y-4">
-            {data.recommendedPackages.map((pkg, index) => (
+            {packages.map((pkg, index) => (
               <div
-                key={pkg.ndc}
+                key={`${pkg.fillIndex ?? ''}-${pkg.ndc}`}
                 className="border border-gray-200 rounded-lg p-4 space-y-3"
               >
                 <div className="flex items-start justify-between">
                   <div>
+                    {pkg.fillIndex !== undefined && (
+                      <p className="text-xs font-medium text-blue-700">
+                        {pkg.fillIndex === 0 ? 'Initial fill' : `Refill ${pkg.fillIndex}`}
+                      </p>
+                    )}
                     <p className="text-sm font-medium text-gray-500">NDC</p>
-                    <p className="text-lg font-mono font-semibold text-gray-900">{pkg.ndc}</p>
+                    <p className="text-lg font-mono font-semibold text-gray-900">{pkg.ndc10 ?? pkg.ndc}</p>
+                    {pkg.billingNdc && (
+                      <p className="text-xs font-mono text-gray-500">Billing: {pkg.billingNdc}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {pkg.stockStatus && (
+                      <Badge variant="outline" className={STOCK_BADGES[pkg.stockStatus].className}>
+                        {STOCK_BADGES[pkg.stockStatus].label}
+                      </Badge>
+                    )}
+                    {pkg.isActive ? (
+                      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                        <CheckCircle2 className="w-3 h-3 mr-1" />
+                        Active
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                        <XCircle className="w-3 h-3 mr-1" />
+                        Inactive
+                      </Badge>
+                    )}
                   </div>
-                  {pkg.isActive ? (
-                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-                      <CheckCircle2 className="w-3 h-3 mr-1" />
-                      Active
-                    </Badge>
-                  ) : (
-                    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
-                      <XCircle className="w-3 h-3 mr-1" />
-                      Inactive
-                    </Badge>
-                  )}
                 </div>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                   <div>
                     <p className="text-gray-500">Package Size</p>
                     <p className="font-medium text-gray-900">{pkg.packageSize}</p>
                   </div>
+                  {pkg.packageCount !== undefined && !pkg.mustDispenseWhole && (
+                    <div>
+                      <p className="text-gray-500">Packages</p>
+                      <p className="font-medium text-gray-900">{pkg.packageCount}</p>
+                    </div>
+                  )}
                   <div>
                     <p className="text-gray-500">Unit</p>
                     <p className="font-medium text-gray-900">{pkg.unit}</p>
@@ -175,17 +279,72 @@ export function CalculatorResults({ result, error }: CalculatorResultsProps) {
                     <div>
                       <p className="text-gray-500">Status</p>
                       <p className="font-medium text-gray-900">{pkg.marketingStatus}</p>
+                      {pkg.marketingEndDate && (
+                        <p className="text-xs text-amber-700">
+                          Ends {pkg.marketingEndDate} ({pkg.daysUntilDiscontinued} days)
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {pkg.formattedCost && (
+                    <div>
+                      <p className="text-gray-500">Cost</p>
+                      <p className="font-medium text-gray-900">{pkg.formattedCost}</p>
                     </div>
                   )}
                 </div>
+                {pkg.mustDispenseWhole && (
+                  <p className="text-sm text-gray-700">
+                    Dispense {pkg.packageCount ?? 1} whole package{(pkg.packageCount ?? 1) === 1 ? '' : 's'}{' '}
+                    ({(pkg.packageCount ?? 1) * pkg.packageSize} {pkg.unit}); this package cannot be split
+                  </p>
+                )}
+                {pkg.fromOpenedStock && (
+                  <p className="text-sm text-gray-700">
+                    Count {pkg.quantityNeeded} {pkg.unit} from the opened stock bottle
+                    ({pkg.openedRemaining} {pkg.unit} remaining)
+                  </p>
+                )}
+                {pkg.onHandQuantity !== undefined && !pkg.fromOpenedStock && (
+                  <p className="text-sm text-gray-500">
+                    On hand: {pkg.onHandQuantity} {pkg.unit}
+                    {pkg.openedRemaining ? ` + ${pkg.openedRemaining} ${pkg.unit} in an opened bottle` : ''}
+                  </p>
+                )}
               </div>
             ))}
           </div>
 
+          {data.fills && data.fills.some(fill => fill.dispensedQuantity === 0) && (
+            <p className="mt-4 text-sm text-gray-700">
+              {data.fills
+                .filter(fill => fill.dispensedQuantity === 0)
+                .map(fill => (fill.fillIndex === 0 ? 'Initial fill' : `Refill ${fill.fillIndex}`))
+                .join(', ')}{' '}
+              covered by medication on hand from earlier fills
+            </p>
+          )}
+
+          {data.costOptions && data.costOptions.length > 1 && (
+            <div className="mt-4 space-y-1 text-sm">
+              <p className="font-medium text-gray-700">Cost comparison</p>
+              {data.costOptions.map(option => (
+                <p
+                  key={option.description}
+                  className={option.selected ? 'font-medium text-gray-900' : 'text-gray-500'}
+                >
+                  {option.description} = {option.totalQuantity}: {option.formattedAcquisitionCost}
+                  {option.wasteCost > 0 ? ` (${option.formattedWasteCost} overfill)` : ''}
+                  {option.selected ? ' (selected)' : ''}
+                </p>
+              ))}
+            </div>
+          )}
+
           {/* Overfill/Underfill */}
           <div className="mt-4 flex flex-wrap gap-2">
-            {data.overfillPercentage > 0 && getPercentageBadge(data.overfillPercentage, 'overfill')}
-            {data.underfillPercentage > 0 && getPercentageBadge(data.underfillPercentage, 'underfill')}
+            {overfillPercentage > 0 && getPercentageBadge(overfillPercentage, 'overfill')}
+            {underfillPercentage > 0 && getPercentageBadge(underfillPercentage, 'underfill')}
           </div>
         </CardContent>
       </Card>
@@ -72,15 +72,19 @@ export function EnhancedCalculator({ initialData }: EnhancedCalculatorProps = {}
     }
     
     let unit = 'tablet';
-    if (lower.includes('capsule')) unit = 'capsule';
+    // Sprays and puffs first: they route to the actuation (inhaler/nasal spray) calculator
+    if (lower.includes('spray')) unit = 'spray';
+    else if (lower.includes('puff') || lower.includes('inhalation') || lower.includes('actuation')) unit = 'puff';
+    else if (lower.includes('capsule')) unit = 'capsule';
     else if (lower.includes('ml')) unit = 'mL';
     else if (lower.includes('tablet')) unit = 'tablet';
-    else if (lower.includes('spray')) unit = 'spray';
     else if (lower.includes('patch')) unit = 'patch';
     else if (lower.includes('drop')) unit = 'drop';
-    else if (lower.includes('puff')) unit = 'puff';
     
-    return { dose, frequency, unit };
+    // "2 sprays in each nostril" / "1 drop OU": dose is per site
+    const sites = /\b(?:ou|au|(?:each|both) (?:eyes?|ears?|nostrils?))\b/.test(lower) ? 2 : undefined;
+    
+    return { dose, frequency, unit, ...(sites && { sites }) };
   };
 
   const handleCalculate = async (e: React.FormEvent) => {
@@ -96,7 +100,8 @@ export function EnhancedCalculator({ initialData }: EnhancedCalculatorProps = {}
         drug: { name: drugInput, rxcui: selectedRxcui },
         sig: parsedSig,
         daysSupply: parseInt(daysSupply),
-        // TODO: Pass multiPackEnabled to backend when implemented
+        multiPack: multiPackEnabled,
+        includePackageOptions: true,
       };
 
       const response = await calculateNDC(apiData, null);
@@ -6,9 +6,16 @@
  */
 
 import { X } from 'lucide-react';
-import { ExcludedNDC } from '@/types/api';
+import { ExcludedNDC, IneligibilityReasonCode } from '@/types/api';
 import { Button } from '@/components/ui/button';
 
+const REASON_LABELS: Record<IneligibilityReasonCode, string> = {
+  not_marketed: 'not marketed',
+  sample_package: 'sample package',
+  unfinished_bulk: 'bulk/unfinished',
+  listing_expired: 'listing expired',
+};
+
 interface ExcludedNDCsModalProps {
   excluded: ExcludedNDC[];
   onClose: () => void;
@@ -54,11 +61,18 @@ export function ExcludedNDCsModal({ excluded, onClose }: ExcludedNDCsModalProps)
                       {item.reason}
                     </p>
                   </div>
-                  {item.marketingStatus && (
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                      {item.marketingStatus}
-                    </span>
-                  )}
+                  <div className="flex flex-col items-end gap-1">
+                    {item.reasonCode && item.reasonCode !== 'not_marketed' && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                        {REASON_LABELS[item.reasonCode]}
+                      </span>
+                    )}
+                    {item.marketingStatus && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        {item.marketingStatus}
+                      </span>
+                    )}
+                  </div>
                 </div>
               </div>
             ))}
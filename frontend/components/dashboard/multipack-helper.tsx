@@ -3,7 +3,6 @@
 /**
  * Multi-Pack Helper Card
  * Toggle for enabling multi-pack calculations
- * TODO: Wire to backend multi-pack calculation logic
  */
 
 import { Package, Info } from 'lucide-react';
@@ -62,18 +61,6 @@ export function MultiPackHelper({
           </div>
         </div>
       )}
-
-      {/* Implementation status notice */}
-      <div className="mt-3 pt-3 border-t border-gray-100">
-        <p className="text-xs text-gray-500">
-          <span className="font-medium">Status:</span> Backend integration in progress. Full feature launching Q1 2026.
-        </p>
-      </div>
-
-      {/* TODO: Wire to backend - Implementation plan complete (see MULTIPACK-FEATURE-PLAN.md) */}
-      {/* Phase 1: Backend algorithm (3 days) - packages/domain-ndc/src/multiPackCalculator.ts */}
-      {/* Phase 2: Frontend integration (2 days) - Wire multiPackEnabled flag to API */}
-      {/* Target: Q1 2026 */}
     </div>
   );
 }
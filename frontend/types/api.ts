@@ -12,19 +12,67 @@ export interface CalculateRequest {
     dose: number;
     frequency: number;
     unit: string;
+    sites?: number;
   };
   daysSupply: number;
+  multiPack?: boolean;
+  fillPlan?: {
+    totalDays: number;
+    fillIntervalDays: number;
+    refills: number;
+  };
+  optimizeCost?: boolean;
+  includePackageOptions?: boolean;
+  costWeights?: {
+    acquisition?: number;
+    waste?: number;
+    perPackage?: number;
+  };
+  topical?: {
+    sites?: string[];
+    fingertipUnits?: number;
+  };
+  patient?: {
+    weightKg?: number;
+    heightCm?: number;
+    ageYears?: number;
+  };
+  weightBasedDose?: {
+    amount: number;
+    basis: 'kg' | 'm2';
+    per?: 'dose' | 'day';
+    unit?: string;
+    roundTo?: number;
+    maxDose?: number;
+  };
+  asOf?: string;
 }
 
+export type StockStatus = 'in_stock' | 'insufficient' | 'opened_only' | 'out_of_stock' | 'unknown';
+
 export interface PackageRecommendation {
   ndc: string;
+  ndc10?: string;
+  billingNdc?: string;
   packageSize: number;
   unit: string;
   dosageForm: string;
   marketingStatus?: string;
   isActive: boolean;
+  marketingEndDate?: string;
+  daysUntilDiscontinued?: number;
   quantityNeeded?: number;
   fillPrecision?: 'exact' | 'overfill' | 'underfill';
+  mustDispenseWhole?: boolean;
+  packageCount?: number;
+  fillIndex?: number;
+  stockStatus?: StockStatus;
+  onHandQuantity?: number;
+  openedRemaining?: number;
+  fromOpenedStock?: boolean;
+  unitPrice?: number;
+  cost?: number;
+  formattedCost?: string;
   reasoning?: string;
   confidenceScore?: number;
   source?: 'ai' | 'algorithm';
@@ -36,12 +84,80 @@ export interface Explanation {
   details?: Record<string, unknown>;
 }
 
+export type IneligibilityReasonCode =
+  | 'not_marketed'
+  | 'sample_package'
+  | 'unfinished_bulk'
+  | 'listing_expired';
+
 export interface ExcludedNDC {
   ndc: string;
   reason: string;
+  reasonCode?: IneligibilityReasonCode;
   marketingStatus?: string;
 }
 
+export interface InjectableSummary {
+  deviceType: 'pen' | 'vial';
+  devicesNeeded: number;
+  unitsPerMl: number;
+  volumeMl: number;
+  totalUnits: number;
+  primingUnits: number;
+  discardAfterDays: number;
+  daysCovered: number;
+}
+
+export interface ActuationSummary {
+  deviceName: string;
+  devicesNeeded: number;
+  actuationsPerDevice: number;
+  primingActuations: number;
+  totalActuations: number;
+  daysCovered: number;
+}
+
+export interface FillSummary {
+  fillIndex: number;
+  startDay: number;
+  days: number;
+  requiredQuantity: number;
+  carriedIn: number;
+  dispensedQuantity: number;
+  description?: string;
+}
+
+export type PackageOptionKind = 'exact_count' | 'least_waste' | 'fewest_packages';
+
+export interface PackageOption {
+  description: string;
+  primary: boolean;
+  kinds: PackageOptionKind[];
+  totalQuantity: number;
+  packageCount: number;
+  overfillPercentage: number;
+  underfillPercentage: number;
+  score: number;
+  scoreComponents: {
+    overfill: number;
+    underfill: number;
+    packageCount: number;
+  };
+  packages: PackageRecommendation[];
+}
+
+export interface CostOption {
+  description: string;
+  totalQuantity: number;
+  packageCount: number;
+  acquisitionCost: number;
+  wasteCost: number;
+  score: number;
+  formattedAcquisitionCost: string;
+  formattedWasteCost: string;
+  selected: boolean;
+}
+
 export interface AIInsights {
   factors: string[];
   considerations: string[];
@@ -57,6 +173,9 @@ export interface Metadata {
   algorithmicFallback?: boolean;
   executionTime: number;
   aiCost?: number;
+  dataSource?: 'openfda' | 'snapshot';
+  snapshotVersion?: string;
+  asOf?: string;
 }
 
 export interface AlternativeDrug {
@@ -89,7 +208,13 @@ export interface CalculateResponse {
       strength?: string;
     };
     totalQuantity: number;
+    administrationCount?: number;
+    injectable?: InjectableSummary;
+    actuation?: ActuationSummary;
+    fills?: FillSummary[];
+    costOptions?: CostOption[];
     recommendedPackages: PackageRecommendation[];
+    packageOptions?: PackageOption[];
     overfillPercentage: number;
     underfillPercentage: number;
     warnings: string[];
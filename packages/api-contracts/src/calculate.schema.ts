@@ -5,9 +5,108 @@
 
 import { z } from "zod";
 
+/**
+ * Non-daily dosing schedule
+ */
+export const DosingScheduleSchema = z.discriminatedUnion('type', [
+  /**
+   * Every N days (QOD = 2, weekly = 7, monthly = 30)
+   */
+  z.object({
+    type: z.literal('interval'),
+    everyDays: z.number().int().min(1).max(365),
+  }),
+
+  /**
+   * Every N hours for long-acting forms (72 h patch, twice weekly = 84 h)
+   */
+  z.object({
+    type: z.literal('intervalHours'),
+    everyHours: z.number().int().min(1).max(8760),
+  }),
+
+  /**
+   * Specific days of the week
+   */
+  z.object({
+    type: z.literal('weekdays'),
+    days: z.array(z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'])).min(1),
+
+    /**
+     * Weekday of the first day of supply (worst case assumed if omitted)
+     */
+    startDay: z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']).optional(),
+  }),
+
+  /**
+   * N days on, M days off (e.g., 21 on / 7 off)
+   */
+  z.object({
+    type: z.literal('cycle'),
+    daysOn: z.number().int().min(1),
+    daysOff: z.number().int().min(0),
+  }),
+]);
+
+export type DosingSchedule = z.infer<typeof DosingScheduleSchema>;
+
+/**
+ * Structured SIG (prescription directions)
+ */
+export const SIGSchema = z.object({
+  /**
+   * Dose per administration (e.g., 2 for "2 tablets")
+   */
+  dose: z.number().positive(),
+  
+  /**
+   * Frequency per day (e.g., 2 for "twice daily")
+   */
+  frequency: z.number().positive(),
+  
+  /**
+   * Unit (e.g., "tablet", "capsule")
+   */
+  unit: z.string().min(1),
+
+  /**
+   * Taken as needed (PRN); quantity is based on maximum allowed use
+   */
+  asNeeded: z.boolean().optional(),
+
+  /**
+   * Dose range (e.g., 1-2 tablets); PRN quantity uses maxDose
+   */
+  minDose: z.number().positive().optional(),
+  maxDose: z.number().positive().optional(),
+
+  /**
+   * Minimum hours between doses (e.g., 4 for "q4-6h")
+   */
+  intervalHours: z.number().positive().max(168).optional(),
+
+  /**
+   * Maximum quantity per day in SIG units (e.g., 8 for "max 8/day")
+   */
+  maxPerDay: z.number().positive().optional(),
+
+  /**
+   * Non-daily schedule; frequency is then administrations per dosing day
+   * (e.g., weekly methotrexate, 21 days on / 7 off)
+   */
+  schedule: DosingScheduleSchema.optional(),
+
+  /**
+   * Sites dosed per administration (e.g., 2 for both eyes or each nostril); dose is per site
+   */
+  sites: z.number().int().min(1).max(10).optional(),
+});
+
+export type SIG = z.infer<typeof SIGSchema>;
+
 /**
  * Calculate Request Schema
- * MVP: Structured input only (defer free-text SIG parsing)
+ * Accepts either a structured SIG or free-text SIG directions
  */
 export const CalculateRequestSchema = z.object({
   /**
@@ -30,30 +129,203 @@ export const CalculateRequestSchema = z.object({
   
   /**
    * Structured SIG (prescription directions)
-   * MVP: Structured input only
+   * Takes precedence over phases and sigText when provided
    */
-  sig: z.object({
-    /**
-     * Dose per administration (e.g., 2 for "2 tablets")
-     */
+  sig: SIGSchema.optional(),
+
+  /**
+   * Multi-phase schedule for tapers and titrations
+   * (e.g., 1 tab daily x7d, then 2 tabs daily x7d)
+   * Used instead of sig; phase durations should add up to daysSupply
+   */
+  phases: z.array(z.object({
     dose: z.number().positive(),
-    
-    /**
-     * Frequency per day (e.g., 2 for "twice daily")
-     */
     frequency: z.number().positive(),
-    
+    unit: z.string().min(1),
+
     /**
-     * Unit (e.g., "tablet", "capsule")
+     * Phase duration in days
      */
-    unit: z.string().min(1),
-  }),
+    durationDays: z.number().int().min(1).max(365),
+  })).min(1).max(20).optional(),
+
+  /**
+   * Free-text SIG (e.g., "Take 1-2 tablets by mouth BID for 10 days")
+   * Parsed server-side when neither sig nor phases is given
+   */
+  sigText: z.string().min(1).max(500).optional(),
   
   /**
    * Days' supply (1-365)
    */
   daysSupply: z.number().int().min(1).max(365),
-});
+
+  /**
+   * Allow combining multiple packages (e.g., 1×100 + 3×30)
+   * Default: false (single package only)
+   */
+  multiPack: z.boolean().optional(),
+
+  /**
+   * Split a long authorised supply into fills (e.g., 90 days as 30-day fill + 2 refills)
+   * Packages are selected per fill, minimising waste across all fills
+   */
+  fillPlan: z.object({
+    /**
+     * Total authorised days across all fills
+     */
+    totalDays: z.number().int().min(1).max(365),
+
+    /**
+     * Days covered by each fill
+     */
+    fillIntervalDays: z.number().int().min(1).max(365),
+
+    /**
+     * Refills after the initial fill
+     */
+    refills: z.number().int().min(0).max(11),
+  }).optional(),
+
+  /**
+   * Select packages by cost using uploaded unit prices (e.g., NADAC)
+   * Combines packages like multiPack; falls back to the default selection
+   * when no candidate NDC is priced
+   */
+  optimizeCost: z.boolean().optional(),
+
+  /**
+   * Return ranked package options alongside the recommendation
+   * Always returned in multiPack and optimizeCost modes
+   */
+  includePackageOptions: z.boolean().optional(),
+
+  /**
+   * Cost score weighting (optimizeCost only); omitted weights use the configured defaults
+   */
+  costWeights: z.object({
+    /**
+     * Weight on total acquisition cost
+     */
+    acquisition: z.number().min(0).max(100).optional(),
+
+    /**
+     * Weight on the cost of overfill units
+     */
+    waste: z.number().min(0).max(100).optional(),
+
+    /**
+     * Cost charged per package dispensed, USD
+     */
+    perPackage: z.number().min(0).max(1000).optional(),
+  }).optional(),
+
+  /**
+   * Topical application (creams, ointments): sites or fingertip units per application
+   * Grams are estimated at 0.5 g per fingertip unit (FTU)
+   */
+  topical: z.object({
+    /**
+     * Application sites; repeat a site for both sides (e.g., ["arm", "arm"])
+     */
+    sites: z.array(z.enum([
+      'face_neck',
+      'trunk_front',
+      'trunk_back',
+      'arm',
+      'hand',
+      'leg',
+      'foot',
+      'genitals',
+    ])).min(1).max(20).optional(),
+
+    /**
+     * Fingertip units per application (overrides sites)
+     */
+    fingertipUnits: z.number().positive().max(100).optional(),
+  }).optional(),
+
+  /**
+   * Drops per mL for drop SIGs, overridable per product
+   * Default: 20
+   */
+  dropsPerMl: z.number().positive().max(100).optional(),
+
+  /**
+   * Patient measurements for weight- or BSA-based orders
+   * PHI: used within the request only, never persisted or logged
+   */
+  patient: z.object({
+    /**
+     * Weight in kilograms
+     */
+    weightKg: z.number().positive().max(500).optional(),
+
+    /**
+     * Height in centimetres (required for mg/m² orders)
+     */
+    heightCm: z.number().positive().max(300).optional(),
+
+    /**
+     * Age in years
+     */
+    ageYears: z.number().min(0).max(130).optional(),
+  }).optional(),
+
+  /**
+   * Order written per kg or per m² (e.g., 15 mg/kg/dose, 45 mg/kg/day divided)
+   * Converted to an absolute SIG dose using the patient block
+   */
+  weightBasedDose: z.object({
+    /**
+     * Amount per kg or per m² (e.g., 15 for 15 mg/kg)
+     */
+    amount: z.number().positive(),
+
+    /**
+     * Body size basis
+     */
+    basis: z.enum(['kg', 'm2']),
+
+    /**
+     * Per dose, or per day divided by SIG frequency
+     * Default: dose
+     */
+    per: z.enum(['dose', 'day']).optional(),
+
+    /**
+     * Dose unit
+     * Default: mg
+     */
+    unit: z.string().min(1).optional(),
+
+    /**
+     * Rounding increment for the dose (e.g., 5 for nearest 5 mg)
+     */
+    roundTo: z.number().positive().optional(),
+
+    /**
+     * Maximum absolute dose per administration
+     */
+    maxDose: z.number().positive().optional(),
+  }).optional(),
+
+  /**
+   * Date (YYYY-MM-DD) marketing status and listing expiration are evaluated for,
+   * e.g., to audit a past dispensing decision
+   * Default: today
+   */
+  asOf: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'asOf must be a valid date' })
+    .optional(),
+}).refine(
+  (data) => data.sig || data.phases || data.sigText,
+  { message: "One of sig, phases or sigText must be provided" }
+).refine(
+  (data) => !data.weightBasedDose || data.patient?.weightKg,
+  { message: "patient.weightKg is required for weightBasedDose" }
+);
 
 export type CalculateRequest = z.infer<typeof CalculateRequestSchema>;
 
@@ -66,6 +338,16 @@ export const PackageRecommendationSchema = z.object({
    */
   ndc: z.string(),
   
+  /**
+   * 10-digit NDC as printed on the label, in the labeler's configuration (e.g., "0071-0156-23")
+   */
+  ndc10: z.string().optional(),
+  
+  /**
+   * 11-digit NDC for billing, without hyphens (e.g., "00071015623")
+   */
+  billingNdc: z.string().optional(),
+  
   /**
    * Package size (quantity per package)
    */
@@ -76,6 +358,11 @@ export const PackageRecommendationSchema = z.object({
    */
   unit: z.string(),
   
+  /**
+   * Container chain, outermost first (e.g., ["CARTON", "BLISTER PACK"])
+   */
+  containers: z.array(z.string()).optional(),
+  
   /**
    * Dosage form
    */
@@ -90,9 +377,20 @@ export const PackageRecommendationSchema = z.object({
    * Whether this NDC is active
    */
   isActive: z.boolean(),
+
+  /**
+   * Scheduled marketing end date (YYYY-MM-DD), when the NDC is discontinuing soon
+   */
+  marketingEndDate: z.string().optional(),
+
+  /**
+   * Days from the as-of date until the scheduled marketing end date
+   */
+  daysUntilDiscontinued: z.number().int().optional(),
   
   /**
-   * Quantity needed from this package
+   * Billing units to dispense from this NDC
+   * (whole packages: packageSize × packageCount; the number of packages is in packageCount)
    */
   quantityNeeded: z.number().optional(),
   
@@ -100,6 +398,56 @@ export const PackageRecommendationSchema = z.object({
    * Fill precision (exact, overfill, underfill)
    */
   fillPrecision: z.enum(['exact', 'overfill', 'underfill']).optional(),
+
+  /**
+   * Package cannot be split (inhaler, pen, dropper bottle, blister carton, contraceptive pack, kit)
+   */
+  mustDispenseWhole: z.boolean().optional(),
+
+  /**
+   * Whole packages of this NDC to dispense
+   */
+  packageCount: z.number().int().optional(),
+
+  /**
+   * Fill this package belongs to in fill plan mode (0 = initial fill, 1..n = refills)
+   */
+  fillIndex: z.number().int().min(0).optional(),
+
+  /**
+   * On-hand stock for this NDC (signed-in users with inventory)
+   */
+  stockStatus: z.enum(['in_stock', 'insufficient', 'opened_only', 'out_of_stock', 'unknown']).optional(),
+
+  /**
+   * Sealed stock on hand in billing units
+   */
+  onHandQuantity: z.number().optional(),
+
+  /**
+   * Units left in the opened stock bottle
+   */
+  openedRemaining: z.number().optional(),
+
+  /**
+   * Counted from an opened stock bottle (quantityNeeded units) instead of sealed packages
+   */
+  fromOpenedStock: z.boolean().optional(),
+
+  /**
+   * Acquisition cost per billing unit from the uploaded price file, USD
+   */
+  unitPrice: z.number().optional(),
+
+  /**
+   * Acquisition cost of the packages dispensed from this NDC, USD
+   */
+  cost: z.number().optional(),
+
+  /**
+   * Cost formatted for display (e.g., "$10.53")
+   */
+  formattedCost: z.string().optional(),
   
   /**
    * AI reasoning for this recommendation (if AI was used)
@@ -119,6 +467,59 @@ export const PackageRecommendationSchema = z.object({
 
 export type PackageRecommendation = z.infer<typeof PackageRecommendationSchema>;
 
+/**
+ * Ranked package option (recommended packages and next-best choices)
+ */
+export const PackageOptionSchema = z.object({
+  /**
+   * Packages dispensed (e.g., "1×100 + 1×30")
+   */
+  description: z.string(),
+
+  /**
+   * Recommended option (its packages are recommendedPackages)
+   */
+  primary: z.boolean(),
+
+  /**
+   * Criteria this option is the best choice for
+   */
+  kinds: z.array(z.enum(['exact_count', 'least_waste', 'fewest_packages'])),
+
+  /**
+   * Quantity dispensed
+   */
+  totalQuantity: z.number(),
+
+  /**
+   * Packages dispensed
+   */
+  packageCount: z.number().int(),
+
+  /**
+   * Overfill and underfill percentages
+   */
+  overfillPercentage: z.number(),
+  underfillPercentage: z.number(),
+
+  /**
+   * Score (lower is better) and its components
+   */
+  score: z.number(),
+  scoreComponents: z.object({
+    overfill: z.number(),
+    underfill: z.number(),
+    packageCount: z.number(),
+  }),
+
+  /**
+   * Packages for this option
+   */
+  packages: z.array(PackageRecommendationSchema),
+});
+
+export type PackageOption = z.infer<typeof PackageOptionSchema>;
+
 /**
  * Explanation entry
  */
@@ -155,6 +556,11 @@ export const ExcludedNDCSchema = z.object({
    */
   reason: z.string(),
   
+  /**
+   * Reason code when the package may not be dispensed at all
+   */
+  reasonCode: z.enum(['not_marketed', 'sample_package', 'unfinished_bulk', 'listing_expired']).optional(),
+  
   /**
    * Marketing status
    */
@@ -163,6 +569,180 @@ export const ExcludedNDCSchema = z.object({
 
 export type ExcludedNDC = z.infer<typeof ExcludedNDCSchema>;
 
+/**
+ * Pens or vials to dispense for unit-dosed injectables (insulin)
+ */
+export const InjectableSummarySchema = z.object({
+  /**
+   * Device type
+   */
+  deviceType: z.enum(['pen', 'vial']),
+  
+  /**
+   * Number of pens or vials to dispense
+   */
+  devicesNeeded: z.number(),
+  
+  /**
+   * Concentration in units/mL (e.g., 100 for U-100)
+   */
+  unitsPerMl: z.number(),
+  
+  /**
+   * Volume of one pen or vial in mL
+   */
+  volumeMl: z.number(),
+  
+  /**
+   * Total units needed including priming
+   */
+  totalUnits: z.number(),
+  
+  /**
+   * Total priming units within the days supply
+   */
+  primingUnits: z.number(),
+  
+  /**
+   * Days a pen or vial may be used after opening
+   */
+  discardAfterDays: z.number(),
+  
+  /**
+   * Days supply the dispensed pens or vials actually cover
+   */
+  daysCovered: z.number(),
+});
+
+export type InjectableSummary = z.infer<typeof InjectableSummarySchema>;
+
+/**
+ * Devices to dispense for puff or spray SIGs (inhalers, nasal sprays)
+ */
+export const ActuationSummarySchema = z.object({
+  /**
+   * Device container (e.g., "INHALER", "BOTTLE, SPRAY")
+   */
+  deviceName: z.string(),
+  
+  /**
+   * Number of devices to dispense
+   */
+  devicesNeeded: z.number(),
+  
+  /**
+   * Labeled actuations per device
+   */
+  actuationsPerDevice: z.number(),
+  
+  /**
+   * Priming actuations per device
+   */
+  primingActuations: z.number(),
+  
+  /**
+   * Dose actuations needed within the days supply
+   */
+  totalActuations: z.number(),
+  
+  /**
+   * Days supply the dispensed devices actually cover
+   */
+  daysCovered: z.number(),
+});
+
+export type ActuationSummary = z.infer<typeof ActuationSummarySchema>;
+
+/**
+ * One fill in fill plan mode
+ */
+export const FillSummarySchema = z.object({
+  /**
+   * 0 = initial fill, 1..n = refills
+   */
+  fillIndex: z.number().int(),
+  
+  /**
+   * First day covered (0-based from the initial fill)
+   */
+  startDay: z.number(),
+  
+  /**
+   * Days covered by this fill
+   */
+  days: z.number(),
+  
+  /**
+   * Quantity required for this fill's days
+   */
+  requiredQuantity: z.number(),
+  
+  /**
+   * Surplus on hand from earlier fills
+   */
+  carriedIn: z.number(),
+  
+  /**
+   * Quantity dispensed at this fill (0 when surplus covers it)
+   */
+  dispensedQuantity: z.number(),
+  
+  /**
+   * Packages dispensed (e.g., "1×100 + 1×30")
+   */
+  description: z.string().optional(),
+});
+
+export type FillSummary = z.infer<typeof FillSummarySchema>;
+
+/**
+ * Package option costed in cost-optimised mode
+ */
+export const CostOptionSchema = z.object({
+  /**
+   * Packages dispensed (e.g., "1×100 + 1×30")
+   */
+  description: z.string(),
+  
+  /**
+   * Quantity dispensed
+   */
+  totalQuantity: z.number(),
+  
+  /**
+   * Packages dispensed
+   */
+  packageCount: z.number().int(),
+  
+  /**
+   * Total acquisition cost, USD
+   */
+  acquisitionCost: z.number(),
+  
+  /**
+   * Cost of overfill units, USD
+   */
+  wasteCost: z.number(),
+  
+  /**
+   * Weighted cost score (lower is better)
+   */
+  score: z.number(),
+  
+  /**
+   * Acquisition and waste cost formatted for display (e.g., "$10.53")
+   */
+  formattedAcquisitionCost: z.string(),
+  formattedWasteCost: z.string(),
+  
+  /**
+   * Whether this option was recommended
+   */
+  selected: z.boolean(),
+});
+
+export type CostOption = z.infer<typeof CostOptionSchema>;
+
 /**
  * AI Insights Schema (optional)
  * Provides AI-generated recommendations and reasoning
@@ -217,6 +797,21 @@ export const MetadataSchema = z.object({
    * Estimated AI cost (if AI was used)
    */
   aiCost: z.number().optional(),
+  
+  /**
+   * Where NDC packages came from (live openFDA or the offline NDC Directory snapshot)
+   */
+  dataSource: z.enum(['openfda', 'snapshot']).optional(),
+  
+  /**
+   * NDC Directory snapshot version, when the snapshot was used or compared with openFDA
+   */
+  snapshotVersion: z.string().optional(),
+
+  /**
+   * Date marketing status and listing expiration were evaluated for (YYYY-MM-DD)
+   */
+  asOf: z.string().optional(),
 });
 
 export type Metadata = z.infer<typeof MetadataSchema>;
@@ -248,11 +843,42 @@ export const CalculateResponseSchema = z.object({
      * Total quantity calculated
      */
     totalQuantity: z.number(),
+
+    /**
+     * Number of administrations within the days supply
+     */
+    administrationCount: z.number().optional(),
+
+    /**
+     * Pens or vials to dispense (unit-dosed injectables only)
+     */
+    injectable: InjectableSummarySchema.optional(),
+
+    /**
+     * Inhalers or spray bottles to dispense (puff/spray SIGs only)
+     */
+    actuation: ActuationSummarySchema.optional(),
+
+    /**
+     * Per-fill breakdown (fill plan mode only)
+     */
+    fills: z.array(FillSummarySchema).optional(),
+
+    /**
+     * Costed package options, best first (cost-optimised mode only)
+     */
+    costOptions: z.array(CostOptionSchema).optional(),
     
     /**
      * Recommended packages
      */
     recommendedPackages: z.array(PackageRecommendationSchema),
+
+    /**
+     * Ranked options, the recommended one first and marked primary
+     * (multi-pack and cost-optimised modes, or single mode with includePackageOptions)
+     */
+    packageOptions: z.array(PackageOptionSchema).optional(),
     
     /**
      * Overfill percentage
@@ -0,0 +1,160 @@
+/**
+ * Days Supply API Contract
+ * Zod schemas for the reverse calculation: days supply from quantity dispensed
+ */
+
+import { z } from "zod";
+import { SIGSchema, ExplanationSchema } from "./calculate.schema";
+
+/**
+ * Days Supply Request Schema
+ * Package is identified by NDC, FDA package description or explicit size
+ */
+export const DaysSupplyRequestSchema = z.object({
+  /**
+   * Package NDC; size, strength and dosage form are looked up in the FDA NDC Directory
+   */
+  ndc: z.string().optional(),
+
+  /**
+   * FDA package description (e.g., "1 INHALER in 1 CARTON > 200 PUFF in 1 INHALER")
+   */
+  packageDescription: z.string().min(1).max(500).optional(),
+
+  /**
+   * Explicit package size in billing units
+   */
+  packageSize: z.object({
+    quantity: z.number().positive(),
+    unit: z.string().min(1),
+  }).optional(),
+
+  /**
+   * Quantity dispensed in billing units (e.g., 200 puffs, 150 mL)
+   */
+  quantityDispensed: z.number().positive().optional(),
+
+  /**
+   * Whole packages dispensed (alternative to quantityDispensed)
+   */
+  packageCount: z.number().int().min(1).max(100).optional(),
+
+  /**
+   * Structured SIG
+   * Takes precedence over sigText when provided
+   */
+  sig: SIGSchema.optional(),
+
+  /**
+   * Free-text SIG (e.g., "Inhale 2 puffs BID")
+   */
+  sigText: z.string().min(1).max(500).optional(),
+
+  /**
+   * Product strength for mass-based SIGs (e.g., "250 MG/5ML"); taken from the NDC when omitted
+   */
+  strength: z.string().optional(),
+
+  /**
+   * Drops per mL for drop SIGs
+   * Default: 20
+   */
+  dropsPerMl: z.number().positive().max(100).optional(),
+}).refine(
+  (data) => data.sig || data.sigText,
+  { message: "Either sig or sigText must be provided" }
+).refine(
+  (data) => data.quantityDispensed || data.packageCount,
+  { message: "Either quantityDispensed or packageCount must be provided" }
+).refine(
+  (data) => !data.packageCount || data.ndc || data.packageDescription || data.packageSize,
+  { message: "packageCount requires ndc, packageDescription or packageSize" }
+);
+
+export type DaysSupplyRequest = z.infer<typeof DaysSupplyRequestSchema>;
+
+/**
+ * Days Supply Response Schema
+ */
+export const DaysSupplyResponseSchema = z.object({
+  /**
+   * Success indicator
+   */
+  success: z.boolean(),
+
+  /**
+   * Calculation data (if successful)
+   */
+  data: z.object({
+    /**
+     * Whole days the dispensed quantity covers
+     */
+    daysSupply: z.number(),
+
+    /**
+     * Quantity dispensed in billing units
+     */
+    quantityDispensed: z.number(),
+
+    /**
+     * Billing unit (e.g., "PUFF", "ML")
+     */
+    unit: z.string().optional(),
+
+    /**
+     * Quantity the SIG uses over the days supply
+     */
+    quantityUsed: z.number(),
+
+    /**
+     * Quantity left over (not enough for another day)
+     */
+    remainingQuantity: z.number(),
+
+    /**
+     * Average quantity used per day
+     */
+    dailyQuantity: z.number(),
+
+    /**
+     * Administrations within the days supply
+     */
+    administrationCount: z.number().optional(),
+
+    /**
+     * Package used for the calculation
+     */
+    package: z.object({
+      ndc: z.string().optional(),
+      quantity: z.number(),
+      unit: z.string(),
+      description: z.string().optional(),
+    }).optional(),
+
+    /**
+     * Highest payer-typical days supply limit exceeded (34, 90 or 102)
+     */
+    exceedsLimit: z.number().optional(),
+
+    /**
+     * Warnings (payer limits, unit mismatches)
+     */
+    warnings: z.array(z.string()),
+
+    /**
+     * Step-by-step breakdown
+     */
+    explanations: z.array(ExplanationSchema),
+  }).optional(),
+
+  /**
+   * Error information (if failed)
+   */
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }).optional(),
+});
+
+export type DaysSupplyResponse = z.infer<typeof DaysSupplyResponseSchema>;
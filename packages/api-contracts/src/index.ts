@@ -6,4 +6,8 @@
 export * from "./types";
 export * from "./calculate.schema";
 export * from "./alternatives.schema";
+export * from "./daysSupply.schema";
 
+export * from "./labelerPreferences.schema";
+export * from "./inventory.schema";
+export * from "./prices.schema";
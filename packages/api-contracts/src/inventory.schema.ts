@@ -0,0 +1,103 @@
+/**
+ * Inventory API Contract
+ * Zod schemas for on-hand inventory records and CSV import
+ */
+
+import { z } from "zod";
+
+/**
+ * Stock quantities for one NDC
+ */
+export const InventoryQuantitiesSchema = z.object({
+  /**
+   * Sealed stock on hand in billing units (e.g., 300 for three 100-tablet bottles)
+   */
+  onHandQuantity: z.number().min(0),
+
+  /**
+   * Units left in the opened stock bottle
+   * Default: 0
+   */
+  openedRemaining: z.number().min(0).default(0),
+});
+
+export type InventoryQuantities = z.infer<typeof InventoryQuantitiesSchema>;
+
+/**
+ * Inventory record
+ */
+export const InventoryItemSchema = InventoryQuantitiesSchema.extend({
+  /**
+   * NDC in 11-digit 5-4-2 format (e.g., "00071-0156-23")
+   */
+  ndc: z.string(),
+
+  /**
+   * Last update (ISO 8601)
+   */
+  updatedAt: z.string().optional(),
+});
+
+export type InventoryItem = z.infer<typeof InventoryItemSchema>;
+
+/**
+ * Inventory CSV Import Request Schema
+ */
+export const InventoryImportRequestSchema = z.object({
+  /**
+   * CSV contents with a header row: NDC, on-hand quantity and
+   * (optionally) opened-bottle remaining columns
+   */
+  csv: z.string().min(1).max(2_000_000),
+});
+
+export type InventoryImportRequest = z.infer<typeof InventoryImportRequestSchema>;
+
+/**
+ * Inventory Response Schema
+ */
+export const InventoryResponseSchema = z.object({
+  /**
+   * Success indicator
+   */
+  success: z.boolean(),
+
+  /**
+   * Inventory data (if successful)
+   */
+  data: z.object({
+    /**
+     * Records (list)
+     */
+    items: z.array(InventoryItemSchema).optional(),
+
+    /**
+     * Record (get, update)
+     */
+    item: InventoryItemSchema.optional(),
+
+    /**
+     * Records written (import)
+     */
+    imported: z.number().int().optional(),
+
+    /**
+     * Rows skipped during import
+     */
+    errors: z.array(z.object({
+      line: z.number().int(),
+      message: z.string(),
+    })).optional(),
+  }).optional(),
+
+  /**
+   * Error information (if failed)
+   */
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }).optional(),
+});
+
+export type InventoryResponse = z.infer<typeof InventoryResponseSchema>;
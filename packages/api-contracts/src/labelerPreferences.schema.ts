@@ -0,0 +1,80 @@
+/**
+ * Labeler Preferences API Contract
+ * Zod schemas for per-user and per-organisation labeler preference and block lists
+ */
+
+import { z } from "zod";
+
+/**
+ * Preference and block lists
+ */
+export const LabelerPreferenceListsSchema = z.object({
+  /**
+   * Preferred labelers, most preferred first (e.g., ["Aurobindo Pharma Limited"])
+   * Break ties between equally good packages
+   */
+  preferred: z.array(z.string().min(1).max(200)).max(50),
+
+  /**
+   * Labelers not stocked; their packages are never selected
+   */
+  blocked: z.array(z.string().min(1).max(200)).max(200),
+});
+
+export type LabelerPreferenceLists = z.infer<typeof LabelerPreferenceListsSchema>;
+
+/**
+ * Update Labeler Preferences Request Schema
+ * Replaces the lists for the caller or the caller's organisation
+ */
+export const LabelerPreferencesRequestSchema = LabelerPreferenceListsSchema.extend({
+  /**
+   * Whose lists to replace
+   * Organisation lists require the admin role
+   * Default: "user"
+   */
+  scope: z.enum(["user", "organization"]).default("user"),
+});
+
+export type LabelerPreferencesRequest = z.infer<typeof LabelerPreferencesRequestSchema>;
+
+/**
+ * Labeler Preferences Response Schema
+ */
+export const LabelerPreferencesResponseSchema = z.object({
+  /**
+   * Success indicator
+   */
+  success: z.boolean(),
+
+  /**
+   * Stored and effective lists (if successful)
+   */
+  data: z.object({
+    /**
+     * Caller's own lists
+     */
+    user: LabelerPreferenceListsSchema.optional(),
+
+    /**
+     * Caller's organisation lists
+     */
+    organization: LabelerPreferenceListsSchema.optional(),
+
+    /**
+     * Lists applied to calculations: user preferences first, blocks from both
+     */
+    effective: LabelerPreferenceListsSchema,
+  }).optional(),
+
+  /**
+   * Error information (if failed)
+   */
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }).optional(),
+});
+
+export type LabelerPreferencesResponse = z.infer<typeof LabelerPreferencesResponseSchema>;
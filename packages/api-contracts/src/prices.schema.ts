@@ -0,0 +1,107 @@
+/**
+ * Unit Price API Contract
+ * Zod schemas for per-NDC unit prices and price file upload
+ */
+
+import { z } from "zod";
+
+/**
+ * Unit price for one NDC
+ */
+export const UnitPriceSchema = z.object({
+  /**
+   * NDC in 11-digit 5-4-2 format (e.g., "00071-0156-23")
+   */
+  ndc: z.string(),
+
+  /**
+   * Acquisition cost per billing unit, USD
+   */
+  unitPrice: z.number(),
+
+  /**
+   * Unit price formatted for display (e.g., "$0.02105")
+   */
+  formattedUnitPrice: z.string(),
+
+  /**
+   * Date the price took effect (YYYY-MM-DD)
+   */
+  effectiveDate: z.string(),
+
+  /**
+   * Pricing unit as published (EA, ML or GM)
+   */
+  pricingUnit: z.string().optional(),
+
+  /**
+   * Last update (ISO 8601)
+   */
+  updatedAt: z.string().optional(),
+});
+
+export type UnitPrice = z.infer<typeof UnitPriceSchema>;
+
+/**
+ * Price File Import Request Schema
+ */
+export const UnitPriceImportRequestSchema = z.object({
+  /**
+   * CSV contents with a header row: NDC, per-unit price and effective date
+   * columns (NADAC column names are accepted), optionally pricing unit
+   */
+  csv: z.string().min(1).max(20_000_000),
+
+  /**
+   * Date the prices should apply on (YYYY-MM-DD); the latest price effective
+   * on or before it is kept per NDC
+   * Default: today
+   */
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export type UnitPriceImportRequest = z.infer<typeof UnitPriceImportRequestSchema>;
+
+/**
+ * Unit Price Response Schema
+ */
+export const UnitPriceResponseSchema = z.object({
+  /**
+   * Success indicator
+   */
+  success: z.boolean(),
+
+  /**
+   * Price data (if successful)
+   */
+  data: z.object({
+    /**
+     * Price (get)
+     */
+    price: UnitPriceSchema.optional(),
+
+    /**
+     * Prices written (import)
+     */
+    imported: z.number().int().optional(),
+
+    /**
+     * Rows skipped during import
+     */
+    errors: z.array(z.object({
+      line: z.number().int(),
+      message: z.string(),
+    })).optional(),
+  }).optional(),
+
+  /**
+   * Error information (if failed)
+   */
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }).optional(),
+});
+
+export type UnitPriceResponse = z.infer<typeof UnitPriceResponseSchema>;
@@ -3,9 +3,28 @@
  * Removes or obfuscates protected health information before sending to OpenAI
  */
 
+/**
+ * Patient measurement fields (weight- and BSA-based dosing)
+ * Never sent to AI, even when nested under an allowed field
+ */
+const PATIENT_MEASUREMENT_FIELDS = new Set([
+  'patient',
+  'weightKg',
+  'heightCm',
+  'ageYears',
+  'bodySurfaceArea',
+  'weightBasedDose',
+]);
+
+/**
+ * Patient measurements written into free text (e.g. "wt 12 kg")
+ */
+const PATIENT_MEASUREMENT_PATTERN =
+  /\b(weight|wt|height|ht|age|bsa):?\s*\d+(\.\d+)?\s*(kg|lbs?|cm|in|m2|m²|y(ea)?rs?|y\/o|months?|mo)?(?!\w)/gi;
+
 /**
  * Sanitize data before sending to AI
- * Removes patient identifiers, prescriber info, and timestamps
+ * Removes patient identifiers, patient measurements, prescriber info, and timestamps
  * 
  * @param data - Request data to sanitize
  * @returns Sanitized data safe for AI processing
@@ -35,8 +54,14 @@ export function sanitizeForAI<T extends Record<string, any>>(data: T): Partial<T
   
   // Recursively copy allowed fields only
   for (const [key, value] of Object.entries(data)) {
+    if (PATIENT_MEASUREMENT_FIELDS.has(key)) {
+      continue;
+    }
+
     if (allowedFields.has(key)) {
-      if (value && typeof value === 'object' && !Array.isArray(value)) {
+      if (typeof value === 'string') {
+        sanitized[key] = value.replace(PATIENT_MEASUREMENT_PATTERN, '[REDACTED]');
+      } else if (value && typeof value === 'object' && !Array.isArray(value)) {
         sanitized[key] = sanitizeForAI(value);
       } else if (Array.isArray(value)) {
         sanitized[key] = value.map(item => 
@@ -64,6 +89,10 @@ export function detectPHI(data: any): string[] {
   // List of field names that might contain PHI
   const phiFields = [
     'patient',
+    'weightkg',
+    'heightcm',
+    'ageyears',
+    'bodysurfacearea',
     'prescriber',
     'provider',
     'physician',
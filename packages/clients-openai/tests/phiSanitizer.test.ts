@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeForAI, detectPHI } from '../src/internal/phiSanitizer';
+
+describe('PHI Sanitizer', () => {
+  describe('sanitizeForAI', () => {
+    it('should keep allowed drug fields', () => {
+      const sanitized = sanitizeForAI({ drug: 'Amoxicillin', daysSupply: 10, patientName: 'Jane Doe' });
+
+      expect(sanitized).toEqual({ drug: 'Amoxicillin', daysSupply: 10 });
+    });
+
+    it('should drop patient measurements nested under allowed fields', () => {
+      const sanitized = sanitizeForAI({
+        prescription: {
+          sig: '150 mg three times daily',
+          patient: { weightKg: 10, heightCm: 75, ageYears: 1 },
+          weightBasedDose: { amount: 15, basis: 'kg' },
+        },
+      });
+
+      expect(sanitized).toEqual({ prescription: { sig: '150 mg three times daily' } });
+    });
+
+    it('should redact measurements written into free-text fields', () => {
+      const sanitized = sanitizeForAI({ sig: '15 mg/kg po tid, wt 12.5 kg, age 3 yrs' });
+
+      expect(sanitized.sig).toBe('15 mg/kg po tid, [REDACTED], [REDACTED]');
+    });
+  });
+
+  describe('detectPHI', () => {
+    it('should flag patient measurement fields', () => {
+      const warnings = detectPHI({ request: { weightKg: 10, ageYears: 2 } });
+
+      expect(warnings).toContain('Potential PHI detected in field: request.weightKg');
+      expect(warnings).toContain('Potential PHI detected in field: request.ageYears');
+    });
+  });
+});
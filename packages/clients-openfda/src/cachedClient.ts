@@ -8,6 +8,7 @@
 
 import { FDAClient, fdaClient as defaultFdaClient } from './index';
 import { createLogger } from '@core-guardrails';
+import type { NDCDataSource } from './dataSource';
 import type { NDCPackage, NDCDetails, NDCValidationResult, FDAServiceConfig } from './internal/fdaTypes';
 
 // Cache service interface (to avoid circular dependency)
@@ -75,7 +76,7 @@ function createNDCValidationKey(ndc: string): string {
  * Cached FDA Client
  * Wraps FDAClient with cache-aside pattern
  */
-export class CachedFDAClient {
+export class CachedFDAClient implements NDCDataSource {
   private client: FDAClient;
 
   constructor(config?: FDAServiceConfig) {
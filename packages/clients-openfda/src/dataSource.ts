@@ -0,0 +1,51 @@
+/**
+ * NDC Data Source
+ * Common interface for NDC package lookups, implemented by the live openFDA
+ * clients and the offline NDC Directory snapshot
+ */
+
+import type { NDCPackage, NDCDetails } from './internal/fdaTypes';
+
+/**
+ * Search options shared by all data sources
+ */
+export interface NDCSearchOptions {
+  limit?: number;
+  skip?: number;
+  activeOnly?: boolean;
+  dosageForm?: string;
+}
+
+/**
+ * Packages for a search, with the number of product listings that matched
+ */
+export interface NDCSearchResult {
+  packages: NDCPackage[];
+  /** Product listings matching the search */
+  totalListings: number;
+  /** Product listings retrieved; fewer than totalListings when the result ceiling was hit */
+  retrievedListings: number;
+}
+
+export interface NDCDataSource {
+  /**
+   * Get NDC packages by RxCUI
+   * @param rxcui RxNorm Concept Unique Identifier
+   * @param options Search options
+   */
+  getNDCsByRxCUI(rxcui: string, options?: NDCSearchOptions): Promise<NDCPackage[]>;
+
+  /**
+   * Get NDC details by package NDC
+   * @param packageNdc Package NDC (11-digit format)
+   * @returns NDC details or null if not found
+   */
+  getNDCDetails(packageNdc: string): Promise<NDCDetails | null>;
+
+  /**
+   * Search NDC packages by generic name
+   * @param genericName Generic drug name
+   * @param options Search options
+   */
+  searchByGenericName(genericName: string, options?: NDCSearchOptions): Promise<NDCPackage[]>;
+}
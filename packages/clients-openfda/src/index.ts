@@ -12,6 +12,7 @@ import {
   sortByPackageSize,
 } from './internal/fdaMapper';
 import { validateNDCFormat, validateNDCWithStatus } from '@domain-ndc';
+import type { NDCDataSource, NDCSearchResult } from './dataSource';
 import type { 
   NDCPackage, 
   NDCDetails, 
@@ -23,7 +24,7 @@ import type {
  * FDA Client
  * Public façade for FDA NDC Directory API
  */
-export class FDAClient {
+export class FDAClient implements NDCDataSource {
   private service: FDAService;
 
   constructor(config?: FDAServiceConfig) {
@@ -62,6 +63,7 @@ export class FDAClient {
   /**
    * Get NDC packages by RxCUI
    * Returns all NDC packages associated with a given RxCUI
+   * (every page of product listings up to the result ceiling unless limit or skip is given)
    * 
    * @param rxcui RxNorm Concept Unique Identifier
    * @param options Search options (limit, skip, activeOnly, dosageForm)
@@ -84,13 +86,41 @@ export class FDAClient {
       dosageForm?: string;
     } = {}
   ): Promise<NDCPackage[]> {
+    return (await this.searchNDCsByRxCUI(rxcui, options)).packages;
+  }
+
+  /**
+   * Get NDC packages by RxCUI with listing counts
+   * Same as getNDCsByRxCUI, but reports whether the result ceiling cut the search short
+   * 
+   * @param rxcui RxNorm Concept Unique Identifier
+   * @param options Search options (limit, skip, activeOnly, dosageForm)
+   * @returns Packages and the number of product listings matched and retrieved
+   * 
+   * @example
+   * ```typescript
+   * const { packages, totalListings, retrievedListings } = await fdaClient.searchNDCsByRxCUI('104377');
+   * if (retrievedListings < totalListings) {
+   *   console.log(`Only ${retrievedListings} of ${totalListings} listings retrieved`);
+   * }
+   * ```
+   */
+  async searchNDCsByRxCUI(
+    rxcui: string,
+    options: {
+      limit?: number;
+      skip?: number;
+      activeOnly?: boolean;
+      dosageForm?: string;
+    } = {}
+  ): Promise<NDCSearchResult> {
     const response = await this.service.searchByRxCUI(rxcui, {
       limit: options.limit,
       skip: options.skip,
     });
 
     if (!response.results || response.results.length === 0) {
-      return [];
+      return { packages: [], totalListings: 0, retrievedListings: 0 };
     }
 
     // Map all FDA results to NDC packages
@@ -109,7 +139,11 @@ export class FDAClient {
       packages = filterByDosageForm(packages, options.dosageForm);
     }
 
-    return sortByPackageSize(packages);
+    return {
+      packages: sortByPackageSize(packages),
+      totalListings: response.meta?.results?.total ?? response.results.length,
+      retrievedListings: response.results.length,
+    };
   }
 
   /**
@@ -378,6 +412,7 @@ export type {
   NDCValidationResult,
   FDAServiceConfig,
   PackageSize,
+  PackageLevel,
   ActiveIngredient,
   MarketingStatus,
 } from './internal/fdaTypes';
@@ -387,8 +422,35 @@ export {
   filterByDosageForm,
   filterActivePackages,
   sortByPackageSize,
+  parsePackageSize,
+  evaluateMarketingStatus,
+  withMarketingStatusAsOf,
 } from './internal/fdaMapper';
 
+// Export package eligibility (samples, bulk/unfinished, expired listings)
+export {
+  evaluatePackageEligibility,
+  INELIGIBILITY_LABELS,
+  type PackageEligibility,
+  type IneligibilityReason,
+  type IneligibilityReasonCode,
+} from './internal/eligibility';
+
+// Export data source interface and the offline NDC Directory snapshot
+export type { NDCDataSource, NDCSearchOptions, NDCSearchResult } from './dataSource';
+export { NDCSnapshot, readNDCSnapshot, writeNDCSnapshot } from './snapshot';
+export {
+  buildSnapshotFromDirectoryText,
+  buildSnapshotFromOpenFDADump,
+  type NDCSnapshotData,
+} from './internal/directoryParser';
+export {
+  diffNDCPackages,
+  hasDifferences,
+  type NDCSourceDiff,
+  type NDCPackageChange,
+} from './internal/sourceDiff';
+
 // Export cached client (requires Firestore initialization)
 export {
   CachedFDAClient,
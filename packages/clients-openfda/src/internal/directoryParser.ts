@@ -0,0 +1,184 @@
+/**
+ * NDC Directory Bulk File Parser
+ * Reads the FDA NDC Directory downloads (product.txt/package.txt, or the
+ * openFDA drug-ndc JSON dump) into openFDA-shaped results for the snapshot
+ */
+
+import type { FDANDCResult, FDAPackaging, FDASearchResponse } from './fdaTypes';
+
+/**
+ * NDC Directory snapshot as stored on disk
+ */
+export interface NDCSnapshotData {
+  /** Snapshot version (NDC Directory publication date, e.g., "2025-06-02") */
+  version: string;
+
+  /** Bulk download the snapshot was built from */
+  source: 'ndc_directory_text' | 'openfda_json';
+
+  /** When the snapshot was built (ISO 8601) */
+  createdAt: string;
+
+  /** Products with their packages, in openFDA result format */
+  results: FDANDCResult[];
+}
+
+/** Multi-valued fields in the text files are separated by "; " */
+const LIST_SEPARATOR = /;\s*/;
+
+/**
+ * Read a tab-delimited NDC Directory file into rows keyed by upper-case column name
+ */
+function readTabDelimited(text: string, label: string): Array<Record<string, string>> {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error(`${label} is empty`);
+  }
+
+  const header = lines[0].split('\t').map(column => column.trim().toUpperCase());
+  return lines.slice(1).map(line => {
+    const values = line.split('\t');
+    return Object.fromEntries(header.map((column, index) => [column, (values[index] ?? '').trim()]));
+  });
+}
+
+function requireColumns(rows: Array<Record<string, string>>, columns: string[], label: string): void {
+  const missing = rows.length > 0 ? columns.filter(column => !(column in rows[0])) : [];
+  if (missing.length > 0) {
+    throw new Error(`${label} is missing column(s): ${missing.join(', ')}`);
+  }
+}
+
+function splitList(value: string): string[] {
+  return value ? value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean) : [];
+}
+
+/** Rows flagged for exclusion (anything other than "N" or blank) are left out of the snapshot */
+function isExcluded(row: Record<string, string>): boolean {
+  const flag = row.NDC_EXCLUDE_FLAG;
+  return !!flag && flag.toUpperCase() !== 'N';
+}
+
+/**
+ * Parse the NDC Directory text files into openFDA-shaped results
+ *
+ * The text files carry no RxCUIs, so a snapshot built from them answers
+ * NDC and generic-name lookups but not RxCUI lookups.
+ *
+ * @param productText Contents of product.txt
+ * @param packageText Contents of package.txt
+ * @returns One result per product that has at least one package
+ */
+export function parseNDCDirectoryText(productText: string, packageText: string): FDANDCResult[] {
+  const products = readTabDelimited(productText, 'product.txt');
+  const packages = readTabDelimited(packageText, 'package.txt');
+  requireColumns(products, ['PRODUCTID', 'PRODUCTNDC', 'NONPROPRIETARYNAME', 'DOSAGEFORMNAME', 'LABELERNAME'], 'product.txt');
+  requireColumns(packages, ['PRODUCTID', 'NDCPACKAGECODE', 'PACKAGEDESCRIPTION'], 'package.txt');
+
+  const packagingByProduct = new Map<string, FDAPackaging[]>();
+  for (const row of packages) {
+    if (isExcluded(row)) continue;
+    const packaging: FDAPackaging = {
+      package_ndc: row.NDCPACKAGECODE,
+      description: row.PACKAGEDESCRIPTION,
+      marketing_start_date: row.STARTMARKETINGDATE || undefined,
+      marketing_end_date: row.ENDMARKETINGDATE || undefined,
+      sample: row.SAMPLE_PACKAGE ? row.SAMPLE_PACKAGE.toUpperCase() === 'Y' : undefined,
+    };
+    const list = packagingByProduct.get(row.PRODUCTID) ?? [];
+    list.push(packaging);
+    packagingByProduct.set(row.PRODUCTID, list);
+  }
+
+  const results: FDANDCResult[] = [];
+  for (const row of products) {
+    const packaging = packagingByProduct.get(row.PRODUCTID);
+    if (!packaging || isExcluded(row)) continue;
+
+    const substances = splitList(row.SUBSTANCENAME);
+    const strengths = splitList(row.ACTIVE_NUMERATOR_STRENGTH);
+    const units = splitList(row.ACTIVE_INGRED_UNIT);
+    const brandName = [row.PROPRIETARYNAME, row.PROPRIETARYNAMESUFFIX].filter(Boolean).join(' ');
+
+    results.push({
+      product_ndc: row.PRODUCTNDC,
+      generic_name: row.NONPROPRIETARYNAME,
+      brand_name: brandName || undefined,
+      brand_name_base: row.PROPRIETARYNAME || undefined,
+      dosage_form: row.DOSAGEFORMNAME,
+      route: splitList(row.ROUTENAME),
+      product_type: row.PRODUCTTYPENAME,
+      marketing_category: row.MARKETINGCATEGORYNAME || undefined,
+      active_ingredients: substances.map((name, index) => ({
+        name,
+        strength: [strengths[index], units[index]].filter(Boolean).join(' '),
+      })),
+      packaging,
+      labeler_name: row.LABELERNAME,
+      openfda: row.APPLICATIONNUMBER ? { application_number: [row.APPLICATIONNUMBER] } : undefined,
+      finished: true,
+      listing_expiration_date: row.LISTING_RECORD_CERTIFIED_THROUGH || undefined,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Parse the openFDA drug-ndc JSON download
+ * @param jsonText Contents of drug-ndc-0001-of-0001.json
+ * @returns Results and the dump's last-updated date
+ */
+export function parseOpenFDADump(jsonText: string): { results: FDANDCResult[]; lastUpdated?: string } {
+  let dump: Partial<FDASearchResponse>;
+  try {
+    dump = JSON.parse(jsonText);
+  } catch (error) {
+    throw new Error(`openFDA dump is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(dump.results)) {
+    throw new Error('openFDA dump has no results array');
+  }
+
+  return {
+    results: dump.results.filter(result => Array.isArray(result.packaging) && result.packaging.length > 0),
+    lastUpdated: dump.meta?.last_updated,
+  };
+}
+
+/**
+ * Build a snapshot from the NDC Directory text files
+ * @param version Snapshot version (publication date of the download)
+ */
+export function buildSnapshotFromDirectoryText(
+  productText: string,
+  packageText: string,
+  version: string
+): NDCSnapshotData {
+  return {
+    version,
+    source: 'ndc_directory_text',
+    createdAt: new Date().toISOString(),
+    results: parseNDCDirectoryText(productText, packageText),
+  };
+}
+
+/**
+ * Build a snapshot from the openFDA JSON download
+ * @param version Snapshot version (default: the dump's last-updated date)
+ */
+export function buildSnapshotFromOpenFDADump(jsonText: string, version?: string): NDCSnapshotData {
+  const { results, lastUpdated } = parseOpenFDADump(jsonText);
+  const snapshotVersion = version ?? lastUpdated;
+  if (!snapshotVersion) {
+    throw new Error('openFDA dump has no meta.last_updated; pass a snapshot version');
+  }
+
+  return {
+    version: snapshotVersion,
+    source: 'openfda_json',
+    createdAt: new Date().toISOString(),
+    results,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Package Eligibility
+ * Whether an NDC package may be dispensed: currently marketed, not a physician
+ * sample, a finished product, and listed under a current listing certification
+ */
+
+import type { NDCPackage } from './fdaTypes';
+
+export type IneligibilityReasonCode =
+  | 'not_marketed'
+  | 'sample_package'
+  | 'unfinished_bulk'
+  | 'listing_expired';
+
+export interface IneligibilityReason {
+  code: IneligibilityReasonCode;
+  message: string;
+}
+
+export interface PackageEligibility {
+  dispensable: boolean;
+  /** Every reason the package may not be dispensed (empty when dispensable) */
+  reasons: IneligibilityReason[];
+}
+
+/**
+ * Short labels for reason codes (e.g., for badges)
+ */
+export const INELIGIBILITY_LABELS: Record<IneligibilityReasonCode, string> = {
+  not_marketed: 'not marketed',
+  sample_package: 'sample package',
+  unfinished_bulk: 'bulk/unfinished',
+  listing_expired: 'listing expired',
+};
+
+/**
+ * Classify a package as dispensable or not
+ *
+ * @param pkg NDC package
+ * @param asOf Date the listing must be current on (default: today)
+ * @returns Dispensable flag and the reasons it is not
+ */
+export function evaluatePackageEligibility(pkg: NDCPackage, asOf: Date = new Date()): PackageEligibility {
+  const reasons: IneligibilityReason[] = [];
+
+  if (pkg.marketingStatus?.status === 'not_yet_marketed') {
+    reasons.push({
+      code: 'not_marketed',
+      message: `Not yet marketed (starts ${pkg.marketingStatus.startDate})`,
+    });
+  } else if (!pkg.marketingStatus?.isActive) {
+    reasons.push({
+      code: 'not_marketed',
+      message: `Inactive or discontinued (status: ${pkg.marketingStatus?.status ?? 'unknown'})`,
+    });
+  }
+
+  if (pkg.sample) {
+    reasons.push({ code: 'sample_package', message: 'Sample package (not for dispensing)' });
+  }
+
+  if (pkg.finished === false) {
+    reasons.push({ code: 'unfinished_bulk', message: 'Bulk/unfinished product (not for dispensing)' });
+  }
+
+  if (pkg.listingExpirationDate && pkg.listingExpirationDate < asOf.toISOString().slice(0, 10)) {
+    reasons.push({
+      code: 'listing_expired',
+      message: `Listing expired ${pkg.listingExpirationDate}`,
+    });
+  }
+
+  return { dispensable: reasons.length === 0, reasons };
+}
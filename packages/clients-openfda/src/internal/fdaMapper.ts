@@ -3,12 +3,15 @@
  * Transforms FDA API responses to internal domain models
  */
 
+import { BUSINESS_RULES } from '@core-config';
 import { logger } from '@core-guardrails';
+import { formatNDC10, formatNDC11, parseNDC } from '@utils';
 import type {
   FDANDCResult,
   FDAPackaging,
   NDCPackage,
   PackageSize,
+  PackageLevel,
   ActiveIngredient,
   MarketingStatus,
   NDCDetails,
@@ -27,6 +30,7 @@ export function mapFDAResultToNDCPackage(fdaResult: FDANDCResult): NDCPackage[]
     try {
       const ndcPackage: NDCPackage = {
         ndc: normalizeNDC(packaging.package_ndc),
+        displayNdc: formatNDC10(parseNDC(packaging.package_ndc)),
         productNdc: fdaResult.product_ndc,
         genericName: fdaResult.generic_name,
         brandName: fdaResult.brand_name || fdaResult.brand_name_base,
@@ -38,6 +42,8 @@ export function mapFDAResultToNDCPackage(fdaResult: FDANDCResult): NDCPackage[]
         labeler: fdaResult.labeler_name,
         rxcui: extractRxCUI(fdaResult.openfda),
         listingExpirationDate: parseFDADate(fdaResult.listing_expiration_date),
+        sample: packaging.sample,
+        finished: fdaResult.finished,
       };
 
       packages.push(ndcPackage);
@@ -75,6 +81,7 @@ export function mapFDAResultToNDCDetails(fdaResult: FDANDCResult): NDCDetails |
 
     const details: NDCDetails = {
       ndc: normalizeNDC(primaryPackaging.package_ndc),
+      displayNdc: formatNDC10(parseNDC(primaryPackaging.package_ndc)),
       productNdc: fdaResult.product_ndc,
       genericName: fdaResult.generic_name,
       brandName: fdaResult.brand_name || fdaResult.brand_name_base,
@@ -86,6 +93,8 @@ export function mapFDAResultToNDCDetails(fdaResult: FDANDCResult): NDCDetails |
       labeler: fdaResult.labeler_name,
       rxcui: extractRxCUI(fdaResult.openfda),
       listingExpirationDate: parseFDADate(fdaResult.listing_expiration_date),
+      sample: primaryPackaging.sample,
+      finished: fdaResult.finished,
       productType: fdaResult.product_type,
       marketingCategory: fdaResult.marketing_category,
       applicationNumber: fdaResult.openfda?.application_number?.[0],
@@ -101,13 +110,27 @@ export function mapFDAResultToNDCDetails(fdaResult: FDANDCResult): NDCDetails |
   }
 }
 
+/**
+ * Quantity in a package description, including a leading decimal (".5 mL")
+ */
+const QUANTITY = '\\d*\\.?\\d+';
+
+/**
+ * Single packaging level: "10 TABLET, FILM COATED in 1 BLISTER PACK"
+ */
+const PACKAGE_LEVEL_PATTERN = new RegExp(`^(${QUANTITY})\\s+(.+?)\\s+IN\\s+(${QUANTITY})\\s+(.+)$`);
+
 /**
  * Parse package size from FDA description
+ * Walks every ">" level and multiplies through to the innermost billing unit.
  * Examples:
  * - "100 TABLET in 1 BOTTLE" → {quantity: 100, unit: "TABLET"}
  * - "30 mL in 1 BOTTLE" → {quantity: 30, unit: "ML"}
  * - "1 KIT" → {quantity: 1, unit: "KIT"}
  * - "2.5 mL in 1 VIAL" → {quantity: 2.5, unit: "ML"}
+ * - "1 SYRINGE in 1 CARTON > .5 mL in 1 SYRINGE" → {quantity: 0.5, unit: "ML", containers: ["CARTON", "SYRINGE"]}
+ * - "3 BLISTER PACK in 1 CARTON > 10 TABLET in 1 BLISTER PACK"
+ *   → {quantity: 30, unit: "TABLET", containers: ["CARTON", "BLISTER PACK"]}
  * 
  * @param description Package description from FDA
  * @returns Parsed package size
@@ -116,20 +139,13 @@ export function parsePackageSize(description: string): PackageSize {
   // Normalize description: uppercase and trim
   const normalized = description.toUpperCase().trim();
 
-  // Pattern 1: "100 TABLET in 1 BOTTLE" or "30 mL in 1 BOTTLE"
-  const pattern1 = /^(\d+(?:\.\d+)?)\s+([A-Z]+)\s+in\s+\d+/i;
-  const match1 = normalized.match(pattern1);
-  
-  if (match1) {
-    return {
-      quantity: parseFloat(match1[1]),
-      unit: normalizeUnit(match1[2]),
-      description,
-    };
+  const hierarchy = parsePackageHierarchy(normalized);
+  if (hierarchy) {
+    return { ...hierarchy, description };
   }
 
   // Pattern 2: "1 KIT" or "100 TABLET"
-  const pattern2 = /^(\d+(?:\.\d+)?)\s+([A-Z]+)$/i;
+  const pattern2 = new RegExp(`^(${QUANTITY})\\s+([A-Z]+)$`, 'i');
   const match2 = normalized.match(pattern2);
   
   if (match2) {
@@ -137,11 +153,14 @@ export function parsePackageSize(description: string): PackageSize {
       quantity: parseFloat(match2[1]),
       unit: normalizeUnit(match2[2]),
       description,
+      containers: [],
+      levels: [],
+      parsed: true,
     };
   }
 
   // Pattern 3: Extract first number and last word as fallback
-  const numberMatch = normalized.match(/(\d+(?:\.\d+)?)/);
+  const numberMatch = normalized.match(new RegExp(`(${QUANTITY})`));
   const unitMatch = normalized.match(/\b([A-Z]+)\b(?!.*\b[A-Z]+\b)/i);
   
   if (numberMatch && unitMatch) {
@@ -149,6 +168,8 @@ export function parsePackageSize(description: string): PackageSize {
       quantity: parseFloat(numberMatch[1]),
       unit: normalizeUnit(unitMatch[1]),
       description,
+      // A multi-level description the hierarchy could not parse has no reliable size
+      ...(isMultiLevelDescription(normalized) ? { parsed: false } : {}),
     };
   }
 
@@ -158,6 +179,69 @@ export function parsePackageSize(description: string): PackageSize {
     quantity: 1,
     unit: 'UNKNOWN',
     description,
+    parsed: false,
+  };
+}
+
+/**
+ * Whether a description has packaging levels ("X in Y", "A > B")
+ * @param normalized Uppercased description
+ */
+function isMultiLevelDescription(normalized: string): boolean {
+  return normalized.includes(' IN ') || normalized.includes('>');
+}
+
+/**
+ * Parse a nested packaging description into levels
+ * "3 BLISTER PACK in 1 CARTON > 10 TABLET in 1 BLISTER PACK"
+ * 
+ * @param normalized Uppercased description
+ * @returns Total quantity, innermost unit and container chain, or null if any level is unparseable
+ */
+function parsePackageHierarchy(
+  normalized: string
+): Omit<PackageSize, 'description'> | null {
+  // Kits list their components after "*"; the kit itself is what is dispensed
+  const [primary] = normalized.split('*');
+
+  const segments = primary
+    .split('>')
+    // Drop embedded package NDCs, e.g. "(0093-0058-03)"
+    .map((segment) => segment.replace(/\([^)]*\)/g, '').trim())
+    .filter((segment) => segment.length > 0);
+
+  if (segments.length === 0) {
+    return null;
+  }
+
+  const levels: PackageLevel[] = [];
+  for (const segment of segments) {
+    const match = segment.match(PACKAGE_LEVEL_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const containerCount = parseFloat(match[3]);
+    if (containerCount <= 0) {
+      return null;
+    }
+
+    levels.push({
+      quantity: parseFloat(match[1]) / containerCount,
+      // "TABLET, FILM COATED" → "TABLET"; container units ("BLISTER PACK") keep their name
+      unit: normalizeUnit(match[2].split(',')[0]),
+      container: match[4].trim(),
+    });
+  }
+
+  const quantity = levels.reduce((total, level) => total * level.quantity, 1);
+
+  return {
+    quantity: Math.round(quantity * 1000) / 1000,
+    unit: levels[levels.length - 1].unit,
+    containers: levels.map((level) => level.container),
+    levels,
+    parsed: true,
   };
 }
 
@@ -215,18 +299,12 @@ export function normalizeUnit(unit: string): string {
 
 /**
  * Normalize NDC to 11-digit format with dashes (XXXXX-XXXX-XX)
+ * Pads the segment the labeler configuration leaves short (e.g. 5-3-2 "50090-123-05" → "50090-0123-05")
  * @param ndc Raw NDC string
  * @returns Normalized NDC
  */
 export function normalizeNDC(ndc: string): string {
-  // Remove all non-numeric characters
-  const digits = ndc.replace(/\D/g, '');
-
-  // Ensure 11 digits (pad with leading zeros if necessary)
-  const padded = digits.padStart(11, '0');
-
-  // Format as XXXXX-XXXX-XX
-  return `${padded.slice(0, 5)}-${padded.slice(5, 9)}-${padded.slice(9, 11)}`;
+  return formatNDC11(parseNDC(ndc));
 }
 
 /**
@@ -255,36 +333,76 @@ export function mapActiveIngredients(
 /**
  * Parse marketing status from FDA packaging
  * @param packaging FDA packaging information
+ * @param asOf Date the status is evaluated for (default: today)
  * @returns Marketing status
  */
-export function parseMarketingStatus(packaging: FDAPackaging): MarketingStatus {
-  const hasStartDate = !!packaging.marketing_start_date;
-  const hasEndDate = !!packaging.marketing_end_date;
-
-  const startDate = parseFDADate(packaging.marketing_start_date);
-  const endDate = parseFDADate(packaging.marketing_end_date);
-
-  // Determine status
-  let status: 'active' | 'discontinued' | 'expired' | 'unknown';
-  let isActive: boolean;
-
-  if (hasEndDate) {
-    status = 'discontinued';
-    isActive = false;
-  } else if (hasStartDate) {
-    status = 'active';
-    isActive = true;
-  } else {
-    status = 'unknown';
-    isActive = false;
+export function parseMarketingStatus(packaging: FDAPackaging, asOf: Date = new Date()): MarketingStatus {
+  return evaluateMarketingStatus(
+    parseFDADate(packaging.marketing_start_date),
+    parseFDADate(packaging.marketing_end_date),
+    asOf
+  );
+}
+
+/**
+ * Evaluate marketing status from marketing dates relative to a date
+ *
+ * A start date after asOf is not yet marketed; an end date before asOf is
+ * discontinued, and an end date within the warning window
+ * (BUSINESS_RULES.INACTIVE_NDC_WARNING_DAYS) is still marketed but
+ * discontinuing soon (with the days remaining). A later end date stays active.
+ *
+ * @param startDate Marketing start date (ISO 8601)
+ * @param endDate Marketing end date (ISO 8601)
+ * @param asOf Date the status is evaluated for (default: today)
+ * @returns Marketing status
+ */
+export function evaluateMarketingStatus(
+  startDate: string | undefined,
+  endDate: string | undefined,
+  asOf: Date = new Date()
+): MarketingStatus {
+  const asOfDate = asOf.toISOString().slice(0, 10);
+
+  if (startDate && startDate > asOfDate) {
+    return { isActive: false, startDate, endDate, status: 'not_yet_marketed' };
   }
 
-  return {
-    isActive,
-    startDate,
-    endDate,
-    status,
-  };
+  if (endDate) {
+    if (endDate < asOfDate) {
+      return { isActive: false, startDate, endDate, status: 'discontinued' };
+    }
+    const daysRemaining = daysBetween(asOfDate, endDate);
+    if (daysRemaining > BUSINESS_RULES.INACTIVE_NDC_WARNING_DAYS) {
+      return { isActive: true, startDate, endDate, status: 'active' };
+    }
+    return { isActive: true, startDate, endDate, status: 'discontinuing_soon', daysRemaining };
+  }
+
+  if (startDate) {
+    return { isActive: true, startDate, endDate, status: 'active' };
+  }
+
+  return { isActive: false, startDate, endDate, status: 'unknown' };
+}
+
+/**
+ * Re-evaluate a package's marketing status for another date
+ * (e.g., a back-dated audit, or a package cached before its end date passed)
+ * @param pkg NDC package
+ * @param asOf Date the status is evaluated for
+ * @returns Package with its marketing status as of that date
+ */
+export function withMarketingStatusAsOf<T extends NDCPackage>(pkg: T, asOf: Date): T {
+  const { startDate, endDate } = pkg.marketingStatus;
+  return { ...pkg, marketingStatus: evaluateMarketingStatus(startDate, endDate, asOf) };
+}
+
+/**
+ * Whole days from one ISO date to another
+ */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
 }
 
 /**
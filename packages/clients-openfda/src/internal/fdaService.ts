@@ -29,6 +29,9 @@ export class FDAService {
       timeout: config.timeout || API_CONFIG.DEFAULT_TIMEOUT_MS,
       maxRetries: config.maxRetries || API_CONFIG.MAX_RETRIES,
       retryDelay: config.retryDelay || API_CONFIG.RETRY_DELAY_MS,
+      pageSize: config.pageSize || API_CONFIG.FDA_PAGE_SIZE,
+      maxResults: config.maxResults || API_CONFIG.FDA_MAX_RESULTS,
+      pageConcurrency: config.pageConcurrency || API_CONFIG.FDA_PAGE_CONCURRENCY,
     };
 
     this.client = axios.create({
@@ -66,8 +69,10 @@ export class FDAService {
 
   /**
    * Search NDCs by RxCUI
+   * Without limit or skip, follows every page up to the result ceiling;
+   * meta.results.total above results.length means the ceiling was hit.
    * @param rxcui RxNorm Concept Unique Identifier
-   * @param options Search options (limit, skip)
+   * @param options Search options (limit, skip) for a single page
    * @returns FDA search response with NDC results
    */
   async searchByRxCUI(
@@ -77,16 +82,7 @@ export class FDAService {
     const startTime = Date.now();
     
     try {
-      const request: FDASearchRequest = {
-        search: `openfda.rxcui:${rxcui}`,
-        limit: options.limit || 100,
-        skip: options.skip || 0,
-      };
-
-      const response = await this.executeWithRetry<FDASearchResponse>(
-        '/drug/ndc.json',
-        request
-      );
+      const response = await this.search(`openfda.rxcui:${rxcui}`, options);
 
       const executionTime = Date.now() - startTime;
       this.logger.logExternalAPICall(
@@ -100,6 +96,7 @@ export class FDAService {
       this.logger.info(`Found ${response.results?.length || 0} NDCs for RxCUI ${rxcui}`, {
         rxcui,
         resultCount: response.results?.length || 0,
+        total: response.meta?.results?.total,
         executionTime,
       });
 
@@ -182,8 +179,9 @@ export class FDAService {
 
   /**
    * Search NDCs by generic name
+   * Without limit or skip, follows every page up to the result ceiling
    * @param genericName Generic drug name
-   * @param options Search options
+   * @param options Search options (limit, skip) for a single page
    * @returns FDA search response
    */
   async searchByGenericName(
@@ -193,16 +191,7 @@ export class FDAService {
     const startTime = Date.now();
     
     try {
-      const request: FDASearchRequest = {
-        search: `generic_name:"${genericName}"`,
-        limit: options.limit || 100,
-        skip: options.skip || 0,
-      };
-
-      const response = await this.executeWithRetry<FDASearchResponse>(
-        '/drug/ndc.json',
-        request
-      );
+      const response = await this.search(`generic_name:"${genericName}"`, options);
 
       const executionTime = Date.now() - startTime;
       this.logger.logExternalAPICall(
@@ -219,6 +208,75 @@ export class FDAService {
     }
   }
 
+  /**
+   * Run a search: one page when limit or skip is given, otherwise every page
+   * @param search openFDA search expression
+   * @param options Page (limit, skip)
+   */
+  private search(
+    search: string,
+    options: { limit?: number; skip?: number }
+  ): Promise<FDASearchResponse> {
+    if (options.limit || options.skip) {
+      return this.executeWithRetry<FDASearchResponse>('/drug/ndc.json', {
+        search,
+        limit: options.limit || 100,
+        skip: options.skip || 0,
+      });
+    }
+    return this.searchAllPages(search);
+  }
+
+  /**
+   * Fetch every page of a search, up to the result ceiling
+   * The first page gives meta.results.total; the remaining pages are fetched
+   * `pageConcurrency` at a time. The combined response keeps the full total.
+   * @param search openFDA search expression
+   * @returns All results, with meta.results.total as reported by openFDA
+   */
+  private async searchAllPages(search: string): Promise<FDASearchResponse> {
+    const { pageSize, maxResults, pageConcurrency } = this.config;
+
+    const first = await this.executeWithRetry<FDASearchResponse>('/drug/ndc.json', {
+      search,
+      limit: Math.min(pageSize, maxResults),
+    });
+    const results = [...(first.results || [])];
+    const total = first.meta?.results?.total ?? results.length;
+    const ceiling = Math.min(total, maxResults);
+
+    const skips: number[] = [];
+    for (let skip = pageSize; skip < ceiling; skip += pageSize) {
+      skips.push(skip);
+    }
+
+    for (let start = 0; start < skips.length; start += pageConcurrency) {
+      const pages = await Promise.all(
+        skips.slice(start, start + pageConcurrency).map((skip) =>
+          this.executeWithRetry<FDASearchResponse>('/drug/ndc.json', {
+            search,
+            limit: Math.min(pageSize, ceiling - skip),
+            skip,
+          })
+        )
+      );
+      pages.forEach((page) => results.push(...(page.results || [])));
+    }
+
+    if (total > results.length) {
+      this.logger.warn(`FDA search truncated at ${results.length} of ${total} results`, {
+        search,
+        maxResults,
+      });
+    }
+
+    return {
+      ...first,
+      meta: { ...first.meta, results: { skip: 0, limit: results.length, total } },
+      results,
+    };
+  }
+
   /**
    * Execute FDA API request with retry logic
    * @param endpoint API endpoint path
@@ -164,6 +164,9 @@ export interface NDCPackage {
   /** 11-digit NDC (normalized format: XXXXX-XXXX-XX) */
   ndc: string;
   
+  /** 10-digit NDC as printed on the label (e.g., "0071-0156-23") */
+  displayNdc?: string;
+  
   /** Product NDC (parent) */
   productNdc: string;
   
@@ -196,20 +199,50 @@ export interface NDCPackage {
   
   /** Listing expiration date (ISO 8601 format) */
   listingExpirationDate?: string;
+  
+  /** Physician sample package (not for dispensing) */
+  sample?: boolean;
+  
+  /** False for unfinished products (bulk ingredients); unset when FDA does not say */
+  finished?: boolean;
 }
 
 /**
  * Parsed Package Size
  */
 export interface PackageSize {
-  /** Quantity in package (e.g., 100 for "100 TABLET") */
+  /** Total dispensable quantity in the innermost billing unit (e.g., 30 for "3 BLISTER PACK in 1 CARTON > 10 TABLET in 1 BLISTER PACK") */
   quantity: number;
   
-  /** Unit of measure (e.g., "TABLET", "ML", "KIT") */
+  /** Innermost billing unit (e.g., "TABLET", "ML", "KIT") */
   unit: string;
   
   /** Original description from FDA */
   description: string;
+  
+  /** Container chain, outermost first (e.g., ["CARTON", "BLISTER PACK"]) */
+  containers?: string[];
+  
+  /** Parsed packaging levels, outermost first */
+  levels?: PackageLevel[];
+  
+  /** False when the description could not be parsed and quantity/unit are placeholders */
+  parsed?: boolean;
+}
+
+/**
+ * One level of a nested FDA packaging description
+ * (e.g., "10 TABLET in 1 BLISTER PACK")
+ */
+export interface PackageLevel {
+  /** Quantity of the contents per container */
+  quantity: number;
+  
+  /** Contents unit (e.g., "TABLET" or an inner container such as "BLISTER PACK") */
+  unit: string;
+  
+  /** Container (e.g., "BLISTER PACK", "CARTON", "VIAL, SINGLE-DOSE") */
+  container: string;
 }
 
 /**
@@ -230,11 +263,14 @@ export interface MarketingStatus {
   /** Marketing start date (ISO 8601 format) */
   startDate?: string;
   
-  /** Marketing end date (ISO 8601 format, if discontinued) */
+  /** Marketing end date (ISO 8601 format, if discontinued or scheduled to be) */
   endDate?: string;
   
-  /** Status description */
-  status: 'active' | 'discontinued' | 'expired' | 'unknown';
+  /** Status description, relative to the date the status was evaluated for */
+  status: 'active' | 'discontinuing_soon' | 'not_yet_marketed' | 'discontinued' | 'expired' | 'unknown';
+
+  /** Days until the scheduled end date (discontinuing_soon only) */
+  daysRemaining?: number;
 }
 
 /**
@@ -305,5 +341,14 @@ export interface FDAServiceConfig {
   
   /** Delay between retries in milliseconds (default: 1000) */
   retryDelay?: number;
+  
+  /** Results per page when following pagination (default: 100) */
+  pageSize?: number;
+  
+  /** Ceiling on results fetched across pages (default: 1000) */
+  maxResults?: number;
+  
+  /** Pages fetched in parallel (default: 3) */
+  pageConcurrency?: number;
 }
 
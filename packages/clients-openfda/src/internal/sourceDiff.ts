@@ -0,0 +1,64 @@
+/**
+ * Data Source Diff
+ * Compares NDC packages returned by live openFDA and the NDC Directory snapshot
+ */
+
+import type { NDCPackage } from './fdaTypes';
+
+export interface NDCPackageChange {
+  ndc: string;
+  /** Fields that differ (e.g., "marketingStatus", "packageSize") */
+  fields: string[];
+}
+
+export interface NDCSourceDiff {
+  /** NDCs returned live but missing from the snapshot */
+  onlyLive: string[];
+  /** NDCs in the snapshot that live openFDA no longer returns */
+  onlySnapshot: string[];
+  /** NDCs in both whose listing differs */
+  changed: NDCPackageChange[];
+}
+
+const COMPARED_FIELDS: Array<[string, (pkg: NDCPackage) => string | number | undefined]> = [
+  ['marketingStatus', pkg => pkg.marketingStatus.status],
+  ['marketingEndDate', pkg => pkg.marketingStatus.endDate],
+  ['packageSize', pkg => `${pkg.packageSize.quantity} ${pkg.packageSize.unit}`],
+  ['dosageForm', pkg => pkg.dosageForm],
+  ['labeler', pkg => pkg.labeler],
+];
+
+/**
+ * Diff live and snapshot packages by NDC
+ * @param live Packages from openFDA
+ * @param snapshot Packages from the snapshot for the same query
+ */
+export function diffNDCPackages(live: NDCPackage[], snapshot: NDCPackage[]): NDCSourceDiff {
+  const snapshotByNdc = new Map(snapshot.map(pkg => [pkg.ndc, pkg]));
+  const liveNdcs = new Set(live.map(pkg => pkg.ndc));
+  const changed: NDCPackageChange[] = [];
+
+  for (const pkg of live) {
+    const other = snapshotByNdc.get(pkg.ndc);
+    if (!other) continue;
+    const fields = COMPARED_FIELDS
+      .filter(([, value]) => value(pkg) !== value(other))
+      .map(([field]) => field);
+    if (fields.length > 0) {
+      changed.push({ ndc: pkg.ndc, fields });
+    }
+  }
+
+  return {
+    onlyLive: live.map(pkg => pkg.ndc).filter(ndc => !snapshotByNdc.has(ndc)),
+    onlySnapshot: snapshot.map(pkg => pkg.ndc).filter(ndc => !liveNdcs.has(ndc)),
+    changed,
+  };
+}
+
+/**
+ * Whether the diff found any difference
+ */
+export function hasDifferences(diff: NDCSourceDiff): boolean {
+  return diff.onlyLive.length > 0 || diff.onlySnapshot.length > 0 || diff.changed.length > 0;
+}
@@ -0,0 +1,144 @@
+/**
+ * NDC Directory Snapshot
+ * Offline, indexed copy of the FDA NDC Directory that answers the same lookups
+ * as the live openFDA client (see scripts/build-ndc-snapshot.ts to build one)
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { createLogger } from '@core-guardrails';
+import { validateNDCFormat } from '@domain-ndc';
+import {
+  mapFDAResultToNDCPackage,
+  mapFDAResultToNDCDetails,
+  filterByDosageForm,
+  filterActivePackages,
+  sortByPackageSize,
+  normalizeNDC,
+} from './internal/fdaMapper';
+import type { NDCSnapshotData } from './internal/directoryParser';
+import type { NDCDataSource, NDCSearchOptions } from './dataSource';
+import type { FDANDCResult, FDAPackaging, NDCPackage, NDCDetails } from './internal/fdaTypes';
+
+const logger = createLogger({ service: 'NDCSnapshot' });
+
+/**
+ * NDC Directory snapshot
+ * Indexes products by RxCUI, generic name and package NDC on construction
+ */
+export class NDCSnapshot implements NDCDataSource {
+  readonly version: string;
+  readonly source: NDCSnapshotData['source'];
+  readonly createdAt: string;
+
+  private byRxcui = new Map<string, FDANDCResult[]>();
+  private byGenericName = new Map<string, FDANDCResult[]>();
+  private byPackageNdc = new Map<string, { result: FDANDCResult; packaging: FDAPackaging }>();
+
+  constructor(data: NDCSnapshotData) {
+    this.version = data.version;
+    this.source = data.source;
+    this.createdAt = data.createdAt;
+
+    for (const result of data.results) {
+      for (const rxcui of result.openfda?.rxcui ?? []) {
+        addTo(this.byRxcui, rxcui, result);
+      }
+      if (result.generic_name) {
+        addTo(this.byGenericName, result.generic_name.toLowerCase(), result);
+      }
+      for (const packaging of result.packaging) {
+        try {
+          this.byPackageNdc.set(normalizeNDC(packaging.package_ndc), { result, packaging });
+        } catch {
+          logger.warn('Skipping snapshot package with invalid NDC', { packageNdc: packaging.package_ndc });
+        }
+      }
+    }
+  }
+
+  /** Number of package NDCs in the snapshot */
+  get packageCount(): number {
+    return this.byPackageNdc.size;
+  }
+
+  /** Whether RxCUI lookups are possible (the NDC Directory text files carry no RxCUIs) */
+  get hasRxCUIs(): boolean {
+    return this.byRxcui.size > 0;
+  }
+
+  async getNDCsByRxCUI(rxcui: string, options: NDCSearchOptions = {}): Promise<NDCPackage[]> {
+    return this.toPackages(this.byRxcui.get(rxcui) ?? [], options);
+  }
+
+  async searchByGenericName(genericName: string, options: NDCSearchOptions = {}): Promise<NDCPackage[]> {
+    return this.toPackages(this.byGenericName.get(genericName.trim().toLowerCase()) ?? [], options);
+  }
+
+  async getNDCDetails(packageNdc: string): Promise<NDCDetails | null> {
+    const validation = validateNDCFormat(packageNdc);
+    if (!validation.isValid || !validation.normalizedNdc) {
+      throw new Error(`Invalid NDC format: ${validation.errors.join(', ')}`);
+    }
+
+    const entry = this.byPackageNdc.get(validation.normalizedNdc);
+    return entry ? mapFDAResultToNDCDetails({ ...entry.result, packaging: [entry.packaging] }) : null;
+  }
+
+  private toPackages(results: FDANDCResult[], options: NDCSearchOptions): NDCPackage[] {
+    // Like the openFDA client, every listing is returned unless a page is asked for
+    const skip = options.skip || 0;
+    let packages = results
+      .slice(skip, options.limit ? skip + options.limit : undefined)
+      .flatMap(result => mapFDAResultToNDCPackage(result));
+
+    if (options.activeOnly) {
+      packages = filterActivePackages(packages);
+    }
+
+    if (options.dosageForm) {
+      packages = filterByDosageForm(packages, options.dosageForm);
+    }
+
+    return sortByPackageSize(packages);
+  }
+}
+
+function addTo(index: Map<string, FDANDCResult[]>, key: string, result: FDANDCResult): void {
+  const list = index.get(key);
+  if (list) {
+    list.push(result);
+  } else {
+    index.set(key, [result]);
+  }
+}
+
+/**
+ * Load a snapshot file written by writeNDCSnapshot
+ * @param path Snapshot file path
+ */
+export async function readNDCSnapshot(path: string): Promise<NDCSnapshot> {
+  const startTime = Date.now();
+  const data = JSON.parse(await readFile(path, 'utf8')) as NDCSnapshotData;
+
+  if (!data.version || !Array.isArray(data.results)) {
+    throw new Error(`${path} is not an NDC Directory snapshot`);
+  }
+
+  const snapshot = new NDCSnapshot(data);
+  logger.info('NDC snapshot loaded', {
+    path,
+    version: snapshot.version,
+    packageCount: snapshot.packageCount,
+    loadTime: Date.now() - startTime,
+  });
+  return snapshot;
+}
+
+/**
+ * Write a snapshot file
+ * @param path Snapshot file path
+ * @param data Snapshot built by buildSnapshotFromDirectoryText or buildSnapshotFromOpenFDADump
+ */
+export async function writeNDCSnapshot(path: string, data: NDCSnapshotData): Promise<void> {
+  await writeFile(path, JSON.stringify(data), 'utf8');
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePackageEligibility } from '../src/internal/eligibility';
+import type { NDCPackage } from '../src/internal/fdaTypes';
+
+const pkg = (overrides: Partial<NDCPackage> = {}): NDCPackage => ({
+  ndc: '00071-0156-23',
+  productNdc: '0071-0156',
+  genericName: 'atorvastatin calcium',
+  dosageForm: 'TABLET',
+  route: ['ORAL'],
+  packageSize: { quantity: 90, unit: 'TABLET', description: '90 TABLET in 1 BOTTLE' },
+  activeIngredients: [],
+  marketingStatus: { isActive: true, status: 'active', startDate: '1996-12-17' },
+  labeler: 'Parke-Davis',
+  listingExpirationDate: '2026-12-31',
+  ...overrides,
+});
+
+const asOf = new Date('2026-06-01T12:00:00Z');
+
+describe('eligibility - evaluatePackageEligibility', () => {
+  it('should pass a marketed, finished, non-sample package with a current listing', () => {
+    expect(evaluatePackageEligibility(pkg(), asOf)).toEqual({ dispensable: true, reasons: [] });
+  });
+
+  it('should reject sample packages', () => {
+    const result = evaluatePackageEligibility(pkg({ sample: true }), asOf);
+
+    expect(result.dispensable).toBe(false);
+    expect(result.reasons.map(reason => reason.code)).toEqual(['sample_package']);
+  });
+
+  it('should reject unfinished (bulk) products but not products that omit the flag', () => {
+    expect(evaluatePackageEligibility(pkg({ finished: false }), asOf).reasons[0].code).toBe('unfinished_bulk');
+    expect(evaluatePackageEligibility(pkg({ finished: undefined }), asOf).dispensable).toBe(true);
+  });
+
+  it('should reject listings that expired before the as-of date', () => {
+    const result = evaluatePackageEligibility(pkg({ listingExpirationDate: '2025-12-31' }), asOf);
+
+    expect(result.reasons).toEqual([{ code: 'listing_expired', message: 'Listing expired 2025-12-31' }]);
+    expect(evaluatePackageEligibility(pkg({ listingExpirationDate: '2026-06-01' }), asOf).dispensable).toBe(true);
+  });
+
+  it('should report packages that are not yet marketed with their start date', () => {
+    const result = evaluatePackageEligibility(
+      pkg({ marketingStatus: { isActive: false, status: 'not_yet_marketed', startDate: '2026-09-01' } }),
+      asOf
+    );
+
+    expect(result.reasons).toEqual([{ code: 'not_marketed', message: 'Not yet marketed (starts 2026-09-01)' }]);
+  });
+
+  it('should list every reason, marketing status first', () => {
+    const result = evaluatePackageEligibility(
+      pkg({
+        sample: true,
+        marketingStatus: { isActive: false, status: 'discontinued', endDate: '2024-01-01' },
+      }),
+      asOf
+    );
+
+    expect(result.reasons.map(reason => reason.code)).toEqual(['not_marketed', 'sample_package']);
+    expect(result.reasons[0].message).toBe('Inactive or discontinued (status: discontinued)');
+  });
+});
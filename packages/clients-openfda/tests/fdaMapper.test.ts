@@ -5,6 +5,8 @@ import {
   normalizeNDC,
   normalizeDosageForm,
   parseFDADate,
+  parseMarketingStatus,
+  withMarketingStatusAsOf,
   extractRxCUI,
   filterByDosageForm,
   filterActivePackages,
@@ -62,6 +64,54 @@ describe('fdaMapper - parsePackageSize', () => {
     expect(result.quantity).toBe(500);
     expect(result.unit).toBe('MG');
   });
+
+  it('should walk nested levels to the innermost billing unit', () => {
+    const result = parsePackageSize('3 BLISTER PACK in 1 CARTON > 10 TABLET in 1 BLISTER PACK');
+    expect(result.quantity).toBe(30);
+    expect(result.unit).toBe('TABLET');
+    expect(result.containers).toEqual(['CARTON', 'BLISTER PACK']);
+    expect(result.levels).toHaveLength(2);
+  });
+
+  it('should handle three-level packaging with embedded NDCs', () => {
+    const result = parsePackageSize(
+      '10 CARTON in 1 CASE (0093-0058-10) > 5 VIAL, SINGLE-DOSE in 1 CARTON > 2 mL in 1 VIAL, SINGLE-DOSE'
+    );
+    expect(result.quantity).toBe(100);
+    expect(result.unit).toBe('ML');
+    expect(result.containers).toEqual(['CASE', 'CARTON', 'VIAL, SINGLE-DOSE']);
+  });
+
+  it('should strip dosage form qualifiers from the billing unit', () => {
+    const result = parsePackageSize('90 TABLET, FILM COATED in 1 BOTTLE (0071-0155-23)');
+    expect(result.quantity).toBe(90);
+    expect(result.unit).toBe('TABLET');
+    expect(result.containers).toEqual(['BOTTLE']);
+  });
+
+  it('should treat kits as the dispensable unit', () => {
+    const result = parsePackageSize('1 KIT in 1 CARTON * 10 mL in 1 VIAL * 1 SYRINGE in 1 POUCH');
+    expect(result.quantity).toBe(1);
+    expect(result.unit).toBe('KIT');
+  });
+
+  it('should flag unparseable descriptions', () => {
+    expect(parsePackageSize('Invalid format').parsed).toBe(false);
+    expect(parsePackageSize('100 TABLET in 1 BOTTLE').parsed).toBe(true);
+  });
+
+  it('should parse levels with a leading decimal quantity', () => {
+    const result = parsePackageSize('1 SYRINGE in 1 CARTON > .5 mL in 1 SYRINGE');
+    expect(result.quantity).toBe(0.5);
+    expect(result.unit).toBe('ML');
+    expect(result.containers).toEqual(['CARTON', 'SYRINGE']);
+    expect(result.parsed).toBe(true);
+  });
+
+  it('should flag multi-level descriptions that only the fallback matches', () => {
+    const result = parsePackageSize('1 BOTTLE in 1 CARTON > 100 TABLET');
+    expect(result.parsed).toBe(false);
+  });
 });
 
 describe('fdaMapper - normalizeUnit', () => {
@@ -148,6 +198,68 @@ describe('fdaMapper - parseFDADate', () => {
   });
 });
 
+describe('fdaMapper - parseMarketingStatus', () => {
+  const asOf = new Date('2026-06-01T12:00:00Z');
+  const packaging = (startDate?: string, endDate?: string) => ({
+    package_ndc: '0071-0156-23',
+    description: '90 TABLET in 1 BOTTLE (0071-0156-23)',
+    marketing_start_date: startDate,
+    marketing_end_date: endDate,
+  });
+
+  it('should mark a package with a past end date as discontinued', () => {
+    expect(parseMarketingStatus(packaging('19961217', '20260501'), asOf)).toEqual({
+      isActive: false,
+      startDate: '1996-12-17',
+      endDate: '2026-05-01',
+      status: 'discontinued',
+    });
+  });
+
+  it('should keep a package with a future end date active, with the days remaining', () => {
+    const status = parseMarketingStatus(packaging('19961217', '20260701'), asOf);
+
+    expect(status).toMatchObject({ isActive: true, status: 'discontinuing_soon', daysRemaining: 30 });
+    expect(parseMarketingStatus(packaging(undefined, '20260601'), asOf)).toMatchObject({
+      isActive: true,
+      daysRemaining: 0,
+    });
+  });
+
+  it('should keep an end date beyond the warning window active, with its end date', () => {
+    const status = parseMarketingStatus(packaging('19961217', '20300815'), asOf);
+
+    expect(status).toEqual({ isActive: true, startDate: '1996-12-17', endDate: '2030-08-15', status: 'active' });
+    expect(parseMarketingStatus(packaging('19961217', '20260702'), asOf).status).toBe('active');
+  });
+
+  it('should not treat a future start date as marketed', () => {
+    expect(parseMarketingStatus(packaging('20260901'), asOf)).toMatchObject({
+      isActive: false,
+      status: 'not_yet_marketed',
+    });
+    expect(parseMarketingStatus(packaging('20260601'), asOf).status).toBe('active');
+    expect(parseMarketingStatus(packaging(), asOf).status).toBe('unknown');
+  });
+
+  it('should re-evaluate a mapped package for another date', () => {
+    const fdaResult: FDANDCResult = {
+      product_ndc: '0071-0156',
+      generic_name: 'ATORVASTATIN CALCIUM',
+      dosage_form: 'TABLET',
+      route: ['ORAL'],
+      product_type: 'HUMAN PRESCRIPTION DRUG',
+      active_ingredients: [],
+      packaging: [packaging('19961217', '20260701')],
+      labeler_name: 'Parke-Davis',
+    };
+    const [pkg] = mapFDAResultToNDCPackage(fdaResult);
+
+    expect(withMarketingStatusAsOf(pkg, new Date('2026-06-11T00:00:00Z')).marketingStatus.daysRemaining).toBe(20);
+    expect(withMarketingStatusAsOf(pkg, new Date('2026-08-01T00:00:00Z')).marketingStatus.status).toBe('discontinued');
+  });
+});
+
 describe('fdaMapper - extractRxCUI', () => {
   it('should extract first RxCUI from openfda metadata', () => {
     const openfda = {
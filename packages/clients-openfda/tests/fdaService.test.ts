@@ -132,6 +132,55 @@ describe('FDAService', () => {
       );
     });
 
+    it('should follow pages using meta.results.total', async () => {
+      const page = (skip: number, count: number) => ({
+        data: {
+          meta: {
+            disclaimer: 'Test',
+            terms: 'Test',
+            license: 'Test',
+            last_updated: '2023-01-01',
+            results: { skip, limit: 100, total: 250 },
+          },
+          results: Array.from({ length: count }, (_, i) => ({ product_ndc: `${skip + i}` })),
+        },
+      });
+
+      mockAxiosInstance.get.mockImplementation((_url: string, { params }: any) =>
+        Promise.resolve(page(params.skip ?? 0, params.limit))
+      );
+
+      const result = await service.searchByRxCUI('104377');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+      expect(mockAxiosInstance.get.mock.calls.map(([, { params }]: any) => [params.skip, params.limit])).toEqual([
+        [undefined, 100],
+        [100, 100],
+        [200, 50],
+      ]);
+      expect(result.results).toHaveLength(250);
+      expect(result.meta.results.total).toBe(250);
+    });
+
+    it('should stop at the result ceiling and keep the full total', async () => {
+      const cappedService = new FDAService({ maxRetries: 1, retryDelay: 10, maxResults: 150, pageConcurrency: 2 });
+
+      mockAxiosInstance.get.mockImplementation((_url: string, { params }: any) =>
+        Promise.resolve({
+          data: {
+            meta: { results: { skip: params.skip ?? 0, limit: params.limit, total: 400 } },
+            results: Array.from({ length: params.limit }, () => ({ product_ndc: 'x' })),
+          },
+        })
+      );
+
+      const result = await cappedService.searchByRxCUI('104377');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(result.results).toHaveLength(150);
+      expect(result.meta.results.total).toBe(400);
+    });
+
     it('should include API key if configured', async () => {
       const serviceWithKey = new FDAService({
         apiKey: 'test-api-key',
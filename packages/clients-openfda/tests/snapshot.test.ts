@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSnapshotFromOpenFDADump,
+  parseNDCDirectoryText,
+} from '../src/internal/directoryParser';
+import { diffNDCPackages, hasDifferences } from '../src/internal/sourceDiff';
+import type { NDCPackage } from '../src/internal/fdaTypes';
+
+const PRODUCT_TXT = [
+  'PRODUCTID\tPRODUCTNDC\tPRODUCTTYPENAME\tPROPRIETARYNAME\tPROPRIETARYNAMESUFFIX\tNONPROPRIETARYNAME\tDOSAGEFORMNAME\tROUTENAME\tSTARTMARKETINGDATE\tENDMARKETINGDATE\tMARKETINGCATEGORYNAME\tAPPLICATIONNUMBER\tLABELERNAME\tSUBSTANCENAME\tACTIVE_NUMERATOR_STRENGTH\tACTIVE_INGRED_UNIT\tNDC_EXCLUDE_FLAG\tLISTING_RECORD_CERTIFIED_THROUGH',
+  '0071-0156_abc\t0071-0156\tHUMAN PRESCRIPTION DRUG\tLipitor\t\tatorvastatin calcium\tTABLET, FILM COATED\tORAL\t19961217\t\tNDA\tNDA020702\tParke-Davis\tATORVASTATIN CALCIUM TRIHYDRATE\t10\tmg/1\tN\t20261231',
+  '1234-5678_def\t1234-5678\tHUMAN PRESCRIPTION DRUG\t\t\tamlodipine and benazepril\tCAPSULE\tORAL\t20100101\t\tANDA\tANDA012345\tGeneric Co\tAMLODIPINE BESYLATE; BENAZEPRIL HYDROCHLORIDE\t5; 10\tmg/1; mg/1\tN\t20261231',
+  '9999-0001_xyz\t9999-0001\tHUMAN PRESCRIPTION DRUG\t\t\texcluded drug\tTABLET\tORAL\t20100101\t\tANDA\t\tExcluded Co\tX\t1\tmg/1\tE\t',
+].join('\n');
+
+const PACKAGE_TXT = [
+  'PRODUCTID\tPRODUCTNDC\tNDCPACKAGECODE\tPACKAGEDESCRIPTION\tSTARTMARKETINGDATE\tENDMARKETINGDATE\tNDC_EXCLUDE_FLAG\tSAMPLE_PACKAGE',
+  '0071-0156_abc\t0071-0156\t0071-0156-23\t90 TABLET, FILM COATED in 1 BOTTLE (0071-0156-23)\t19961217\t\tN\tN',
+  '0071-0156_abc\t0071-0156\t0071-0156-40\t5000 TABLET, FILM COATED in 1 BOTTLE (0071-0156-40)\t19961217\t20240101\tN\tY',
+  '1234-5678_def\t1234-5678\t1234-5678-01\t100 CAPSULE in 1 BOTTLE (1234-5678-01)\t20100101\t\tN\tN',
+  '9999-0001_xyz\t9999-0001\t9999-0001-01\t30 TABLET in 1 BOTTLE (9999-0001-01)\t20100101\t\tE\tN',
+].join('\r\n');
+
+const pkg = (ndc: string, quantity: number, status: 'active' | 'discontinued' = 'active'): NDCPackage => ({
+  ndc,
+  productNdc: ndc.slice(0, 10),
+  genericName: 'atorvastatin calcium',
+  dosageForm: 'TABLET',
+  route: ['ORAL'],
+  packageSize: { quantity, unit: 'TABLET', description: `${quantity} TABLET in 1 BOTTLE` },
+  activeIngredients: [],
+  marketingStatus: { isActive: status === 'active', status },
+  labeler: 'Parke-Davis',
+});
+
+describe('directoryParser - parseNDCDirectoryText', () => {
+  it('should join packages to products and skip excluded listings', () => {
+    const results = parseNDCDirectoryText(PRODUCT_TXT, PACKAGE_TXT);
+
+    expect(results.map(result => result.product_ndc)).toEqual(['0071-0156', '1234-5678']);
+    expect(results[0].packaging).toEqual([
+      expect.objectContaining({ package_ndc: '0071-0156-23', sample: false, marketing_end_date: undefined }),
+      expect.objectContaining({ package_ndc: '0071-0156-40', sample: true, marketing_end_date: '20240101' }),
+    ]);
+    expect(results[0].brand_name).toBe('Lipitor');
+    expect(results[0].listing_expiration_date).toBe('20261231');
+  });
+
+  it('should pair multi-ingredient substances with their strengths', () => {
+    const [, combo] = parseNDCDirectoryText(PRODUCT_TXT, PACKAGE_TXT);
+
+    expect(combo.active_ingredients).toEqual([
+      { name: 'AMLODIPINE BESYLATE', strength: '5 mg/1' },
+      { name: 'BENAZEPRIL HYDROCHLORIDE', strength: '10 mg/1' },
+    ]);
+    expect(combo.brand_name).toBeUndefined();
+  });
+
+  it('should reject files missing required columns', () => {
+    expect(() => parseNDCDirectoryText('PRODUCTID\tPRODUCTNDC\nx\ty', PACKAGE_TXT)).toThrow(
+      'product.txt is missing column(s)'
+    );
+  });
+});
+
+describe('directoryParser - buildSnapshotFromOpenFDADump', () => {
+  const dump = JSON.stringify({
+    meta: { last_updated: '2025-06-02' },
+    results: [
+      { product_ndc: '0071-0156', packaging: [{ package_ndc: '0071-0156-23', description: '90 TABLET in 1 BOTTLE' }] },
+      { product_ndc: '0071-0157' },
+    ],
+  });
+
+  it('should take the version from meta.last_updated and drop products without packages', () => {
+    const snapshot = buildSnapshotFromOpenFDADump(dump);
+
+    expect(snapshot.version).toBe('2025-06-02');
+    expect(snapshot.source).toBe('openfda_json');
+    expect(snapshot.results).toHaveLength(1);
+  });
+
+  it('should prefer an explicit version', () => {
+    expect(buildSnapshotFromOpenFDADump(dump, 'weekly-23').version).toBe('weekly-23');
+  });
+});
+
+describe('sourceDiff - diffNDCPackages', () => {
+  it('should report NDCs in one source only and changed listings', () => {
+    const live = [pkg('00071-0156-23', 90), pkg('00071-0156-40', 500, 'discontinued'), pkg('00071-0156-68', 30)];
+    const snapshot = [pkg('00071-0156-23', 90), pkg('00071-0156-40', 500), pkg('00071-0156-10', 10)];
+
+    const diff = diffNDCPackages(live, snapshot);
+
+    expect(diff.onlyLive).toEqual(['00071-0156-68']);
+    expect(diff.onlySnapshot).toEqual(['00071-0156-10']);
+    expect(diff.changed).toEqual([{ ndc: '00071-0156-40', fields: ['marketingStatus'] }]);
+    expect(hasDifferences(diff)).toBe(true);
+  });
+
+  it('should find no differences between identical sources', () => {
+    const packages = [pkg('00071-0156-23', 90)];
+
+    expect(hasDifferences(diffNDCPackages(packages, packages))).toBe(false);
+  });
+});
@@ -15,6 +15,9 @@ export declare const API_CONFIG: {
     readonly MAX_RETRIES: number;
     readonly RETRY_DELAY_MS: 1000;
     readonly RETRY_BACKOFF_MULTIPLIER: 2;
+    readonly FDA_PAGE_SIZE: 100;
+    readonly FDA_MAX_RESULTS: number;
+    readonly FDA_PAGE_CONCURRENCY: number;
     readonly RATE_LIMIT: {
         readonly REQUESTS_PER_HOUR: number;
         readonly BURST: number;
@@ -43,6 +46,10 @@ export declare const BUSINESS_RULES: {
     readonly OVERFILL_THRESHOLD_PERCENT: 10;
     readonly UNDERFILL_ALLOWED_PERCENT: 0;
     readonly MAX_PACKAGES_PER_PRESCRIPTION: 5;
+    readonly MAX_OPTION_PACKAGE_SIZES: 12;
+    readonly COST_WEIGHT_ACQUISITION: 1;
+    readonly COST_WEIGHT_WASTE: 1;
+    readonly COST_PER_PACKAGE: 0.5;
     readonly NDC_FORMAT_REGEX: RegExp;
     readonly INACTIVE_NDC_WARNING_DAYS: 30;
     readonly MIN_CONFIDENCE_SCORE: 0.7;
@@ -24,6 +24,11 @@ export const API_CONFIG = {
   RETRY_DELAY_MS: 1000,
   RETRY_BACKOFF_MULTIPLIER: 2,
 
+  // openFDA Pagination (searches without an explicit limit follow every page up to the ceiling)
+  FDA_PAGE_SIZE: 100,
+  FDA_MAX_RESULTS: env.FDA_MAX_RESULTS,
+  FDA_PAGE_CONCURRENCY: env.FDA_PAGE_CONCURRENCY,
+
   // Rate Limiting
   RATE_LIMIT: {
     REQUESTS_PER_HOUR: env.RATE_LIMIT_REQUESTS_PER_HOUR,
@@ -58,9 +63,15 @@ export const BUSINESS_RULES = {
   OVERFILL_THRESHOLD_PERCENT: 10, // Warn if overfill exceeds 10%
   UNDERFILL_ALLOWED_PERCENT: 0, // No underfill allowed
   MAX_PACKAGES_PER_PRESCRIPTION: 5, // Maximum number of packages to combine
+  MAX_OPTION_PACKAGE_SIZES: 12, // Distinct package sizes searched for ranked package options
+
+  // Cost-Optimised Package Selection (score = weighted sum, USD)
+  COST_WEIGHT_ACQUISITION: 1, // Weight on total acquisition cost
+  COST_WEIGHT_WASTE: 1, // Weight on cost of overfill units
+  COST_PER_PACKAGE: 0.5, // Handling cost charged per package dispensed
 
   // NDC Validation
-  NDC_FORMAT_REGEX: /^\d{5}-\d{4}-\d{2}$|^\d{5}-\d{3}-\d{2}$|^\d{10}$|^\d{11}$/,
+  NDC_FORMAT_REGEX: /^\d{4}-\d{4}-\d{2}$|^\d{5}-\d{3}-\d{2}$|^\d{5}-\d{4}-\d{1,2}$|^\d{10,11}$|^\d{12,14}$/, // 10/11-digit NDC or GTIN
   INACTIVE_NDC_WARNING_DAYS: 30, // Warn if NDC will be inactive within 30 days
 
   // Matching Accuracy
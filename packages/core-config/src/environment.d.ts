@@ -18,6 +18,8 @@ declare const envSchema: z.ZodObject<{
     OPENAI_MODEL: z.ZodDefault<z.ZodString>;
     API_TIMEOUT_MS: z.ZodDefault<z.ZodPipeline<z.ZodEffects<z.ZodString, number, string>, z.ZodNumber>>;
     MAX_RETRIES: z.ZodDefault<z.ZodPipeline<z.ZodEffects<z.ZodString, number, string>, z.ZodNumber>>;
+    FDA_MAX_RESULTS: z.ZodDefault<z.ZodPipeline<z.ZodEffects<z.ZodString, number, string>, z.ZodNumber>>;
+    FDA_PAGE_CONCURRENCY: z.ZodDefault<z.ZodPipeline<z.ZodEffects<z.ZodString, number, string>, z.ZodNumber>>;
     CACHE_TTL_HOURS_DRUG: z.ZodDefault<z.ZodPipeline<z.ZodEffects<z.ZodString, number, string>, z.ZodNumber>>;
     CACHE_TTL_HOURS_NDC: z.ZodDefault<z.ZodPipeline<z.ZodEffects<z.ZodString, number, string>, z.ZodNumber>>;
     RATE_LIMIT_REQUESTS_PER_HOUR: z.ZodDefault<z.ZodPipeline<z.ZodEffects<z.ZodString, number, string>, z.ZodNumber>>;
@@ -37,6 +39,8 @@ declare const envSchema: z.ZodObject<{
     OPENAI_MODEL: string;
     API_TIMEOUT_MS: number;
     MAX_RETRIES: number;
+    FDA_MAX_RESULTS: number;
+    FDA_PAGE_CONCURRENCY: number;
     CACHE_TTL_HOURS_DRUG: number;
     CACHE_TTL_HOURS_NDC: number;
     RATE_LIMIT_REQUESTS_PER_HOUR: number;
@@ -64,6 +68,8 @@ declare const envSchema: z.ZodObject<{
     OPENAI_MODEL?: string | undefined;
     API_TIMEOUT_MS?: string | undefined;
     MAX_RETRIES?: string | undefined;
+    FDA_MAX_RESULTS?: string | undefined;
+    FDA_PAGE_CONCURRENCY?: string | undefined;
     CACHE_TTL_HOURS_DRUG?: string | undefined;
     CACHE_TTL_HOURS_NDC?: string | undefined;
     RATE_LIMIT_REQUESTS_PER_HOUR?: string | undefined;
@@ -87,6 +93,8 @@ export declare const env: {
     OPENAI_MODEL: string;
     API_TIMEOUT_MS: number;
     MAX_RETRIES: number;
+    FDA_MAX_RESULTS: number;
+    FDA_PAGE_CONCURRENCY: number;
     CACHE_TTL_HOURS_DRUG: number;
     CACHE_TTL_HOURS_NDC: number;
     RATE_LIMIT_REQUESTS_PER_HOUR: number;
@@ -36,6 +36,8 @@ const envSchema = z.object({
   // Performance Settings
   API_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().positive()).default("2000"),
   MAX_RETRIES: z.string().transform(Number).pipe(z.number().int().positive()).default("3"),
+  FDA_MAX_RESULTS: z.string().transform(Number).pipe(z.number().int().positive()).default("1000"),
+  FDA_PAGE_CONCURRENCY: z.string().transform(Number).pipe(z.number().int().positive()).default("3"),
   CACHE_TTL_HOURS_DRUG: z.string().transform(Number).pipe(z.number().positive()).default("24"),
   CACHE_TTL_HOURS_NDC: z.string().transform(Number).pipe(z.number().positive()).default("1"),
 
@@ -22,3 +22,16 @@ export declare const ENABLE_ADVANCED_CACHING: boolean;
  * Default: true
  */
 export declare const ENABLE_ANALYTICS: boolean;
+/**
+ * NDC package data source
+ * live: openFDA; snapshot: offline NDC Directory snapshot; fallback: openFDA,
+ * then the snapshot if openFDA fails; diff: openFDA, logging differences from the snapshot
+ * Default: live
+ */
+export type NDCDataSourceMode = 'live' | 'snapshot' | 'fallback' | 'diff';
+export declare const NDC_DATA_SOURCE: NDCDataSourceMode;
+/**
+ * NDC Directory snapshot file (built by scripts/build-ndc-snapshot.ts)
+ * Required unless NDC_DATA_SOURCE is live
+ */
+export declare const NDC_SNAPSHOT_PATH: string | undefined;
@@ -31,6 +31,23 @@ export const ENABLE_ADVANCED_CACHING =
 export const ENABLE_ANALYTICS =
   process.env.ENABLE_ANALYTICS !== 'false';
 
+/**
+ * NDC package data source
+ * live: openFDA; snapshot: offline NDC Directory snapshot; fallback: openFDA,
+ * then the snapshot if openFDA fails; diff: openFDA, logging differences from the snapshot
+ * Default: live
+ */
+export type NDCDataSourceMode = 'live' | 'snapshot' | 'fallback' | 'diff';
+
+export const NDC_DATA_SOURCE: NDCDataSourceMode =
+  (['snapshot', 'fallback', 'diff'] as const).find(mode => mode === process.env.NDC_DATA_SOURCE) ?? 'live';
+
+/**
+ * NDC Directory snapshot file (built by scripts/build-ndc-snapshot.ts)
+ * Required unless NDC_DATA_SOURCE is live
+ */
+export const NDC_SNAPSHOT_PATH: string | undefined = process.env.NDC_SNAPSHOT_PATH;
+
 /**
  * Feature Flags Object
  * Consolidated feature flags for easy access
@@ -12,10 +12,12 @@ export declare function formatNumber(value: number, decimals?: number): number;
 export declare function formatPercentage(value: number, decimals?: number): string;
 /**
  * Format currency (USD)
+ * Pass more decimals for unit prices (e.g., 0.02105 per tablet)
  */
-export declare function formatCurrency(value: number): string;
+export declare function formatCurrency(value: number, decimals?: number): string;
 /**
  * Format NDC for display (ensure consistent format)
+ * Returns the 11-digit hyphenated form, or the input as-is if it is not an NDC
  */
 export declare function formatNDCForDisplay(ndc: string): string;
 /**
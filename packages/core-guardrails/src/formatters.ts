@@ -3,6 +3,8 @@
  * Provides consistent formatting for API responses and data presentation
  */
 
+import { formatNDC11, tryParseNDC } from "@utils";
+
 /**
  * Format number with specified decimal places
  */
@@ -19,32 +21,24 @@ export function formatPercentage(value: number, decimals: number = 1): string {
 
 /**
  * Format currency (USD)
+ * Pass more decimals for unit prices (e.g., 0.02105 per tablet)
  */
-export function formatCurrency(value: number): string {
+export function formatCurrency(value: number, decimals: number = 2): string {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
     currency: "USD",
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
   }).format(value);
 }
 
 /**
  * Format NDC for display (ensure consistent format)
+ * Returns the 11-digit hyphenated form, or the input as-is if it is not an NDC
  */
 export function formatNDCForDisplay(ndc: string): string {
-  // Remove all non-digit characters
-  const digitsOnly = ndc.replace(/\D/g, "");
-
-  // Handle different lengths
-  if (digitsOnly.length === 10) {
-    // 10-digit: XXXXX-XXX-XX
-    return `${digitsOnly.slice(0, 5)}-${digitsOnly.slice(5, 8)}-${digitsOnly.slice(8)}`;
-  } else if (digitsOnly.length === 11) {
-    // 11-digit: XXXXX-XXXX-XX
-    return `${digitsOnly.slice(0, 5)}-${digitsOnly.slice(5, 9)}-${digitsOnly.slice(9)}`;
-  }
-
-  // Return as-is if format is unexpected
-  return ndc;
+  const parsed = tryParseNDC(ndc);
+  return parsed ? formatNDC11(parsed) : ndc;
 }
 
 /**
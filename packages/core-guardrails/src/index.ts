@@ -1,6 +1,6 @@
 /**
  * Core Guardrails Package
- * Logger, errors, validators, redaction, rate limiting, calculation logging
+ * Logger, errors, validators, redaction, rate limiting, calculation logging, labeler preferences
  */
 
 export * from "./logger";
@@ -11,3 +11,4 @@ export * from "./redaction";
 export * from "./rateLimit";
 export * from "./calculationLogger";
 
+export * from "./labelerPreferences";
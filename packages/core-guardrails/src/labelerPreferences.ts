@@ -0,0 +1,86 @@
+/**
+ * Labeler Preference Storage
+ *
+ * Per-user and per-organisation labeler (manufacturer) preference and block lists
+ * - Firestore-based persistence (labelerPreferences collection)
+ * - Organisation lists apply to all members; user lists add to them
+ *   (merged with mergeLabelerPreferences in domain-ndc)
+ */
+
+import { Firestore, FieldValue } from 'firebase-admin/firestore';
+import { createLogger } from './logger';
+
+const logger = createLogger({ service: 'LabelerPreferences' });
+
+const COLLECTION = 'labelerPreferences';
+
+export type LabelerPreferenceScope = 'user' | 'organization';
+
+export interface LabelerPreferenceLists {
+  /** Preferred labelers, most preferred first */
+  preferred: string[];
+  /** Labelers not stocked */
+  blocked: string[];
+}
+
+export interface StoredLabelerPreferences extends LabelerPreferenceLists {
+  scope: LabelerPreferenceScope;
+  ownerId: string;
+  updatedBy?: string;
+  updatedAt?: Date;
+}
+
+function documentId(scope: LabelerPreferenceScope, ownerId: string): string {
+  return `${scope}_${ownerId}`;
+}
+
+/**
+ * Get the stored lists for a user or organisation
+ */
+export async function getLabelerPreferences(
+  db: Firestore,
+  scope: LabelerPreferenceScope,
+  ownerId: string
+): Promise<StoredLabelerPreferences | null> {
+  const doc = await db.collection(COLLECTION).doc(documentId(scope, ownerId)).get();
+  if (!doc.exists) {
+    return null;
+  }
+
+  const data = doc.data()!;
+  return {
+    scope,
+    ownerId,
+    preferred: data.preferred ?? [],
+    blocked: data.blocked ?? [],
+    updatedBy: data.updatedBy,
+    updatedAt: data.updatedAt?.toDate(),
+  };
+}
+
+/**
+ * Replace the stored lists for a user or organisation
+ */
+export async function saveLabelerPreferences(
+  db: Firestore,
+  scope: LabelerPreferenceScope,
+  ownerId: string,
+  lists: LabelerPreferenceLists,
+  updatedBy?: string
+): Promise<void> {
+  await db.collection(COLLECTION).doc(documentId(scope, ownerId)).set({
+    scope,
+    ownerId,
+    preferred: lists.preferred,
+    blocked: lists.blocked,
+    updatedBy: updatedBy ?? null,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  logger.info('Labeler preferences saved', {
+    scope,
+    ownerId,
+    preferredCount: lists.preferred.length,
+    blockedCount: lists.blocked.length,
+  });
+}
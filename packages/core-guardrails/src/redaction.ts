@@ -30,6 +30,9 @@ const PHI_PATTERNS = [
   
   // Address components (zip codes)
   /\b\d{5}(-\d{4})?\b/g,
+  
+  // Patient measurements (weight, height, age) in free text
+  /\b(weight|wt|height|ht|age|bsa):?\s*\d+(\.\d+)?\s*(kg|lbs?|cm|in|m2|m²|y(ea)?rs?|y\/o|months?|mo)?(?!\w)/gi,
 ];
 
 /**
@@ -134,6 +137,18 @@ function isKnownPHIField(fieldName: string): boolean {
     'zip_code',
     'postalCode',
     'postal_code',
+    // Patient measurements (weight- and BSA-based dosing)
+    'patient',
+    'weightKg',
+    'weight_kg',
+    'heightCm',
+    'height_cm',
+    'age',
+    'ageYears',
+    'age_years',
+    'bsa',
+    'bodySurfaceArea',
+    'body_surface_area',
   ];
   
   return phiFields.includes(fieldName);
@@ -12,6 +12,8 @@ export declare function validateDrugName(drugName: string): string;
 export declare function validateNDC(ndc: string): string;
 /**
  * Normalize NDC to standard 11-digit format with dashes (XXXXX-XXXX-XX)
+ * Hyphenated NDCs are padded per their configuration; unhyphenated
+ * 10-digit NDCs are taken as 4-4-2 (see parseNDC in @utils)
  */
 export declare function normalizeNDC(ndc: string): string;
 /**
@@ -4,6 +4,7 @@
  */
 
 import { BUSINESS_RULES } from "@core-config";
+import { formatNDC11, parseNDC, tryParseNDC } from "@utils";
 import {
   InvalidDrugNameError,
   InvalidNDCError,
@@ -50,8 +51,8 @@ export function validateNDC(ndc: string): string {
 
   const trimmed = ndc.trim();
 
-  // Check against NDC format regex
-  if (!BUSINESS_RULES.NDC_FORMAT_REGEX.test(trimmed)) {
+  // Check against NDC format regex, then segment rules (e.g. 11-digit NDCs must have a padded segment)
+  if (!BUSINESS_RULES.NDC_FORMAT_REGEX.test(trimmed) || !tryParseNDC(trimmed)) {
     throw new InvalidNDCError(trimmed);
   }
 
@@ -60,29 +61,11 @@ export function validateNDC(ndc: string): string {
 
 /**
  * Normalize NDC to standard 11-digit format with dashes (XXXXX-XXXX-XX)
+ * Hyphenated NDCs are padded per their configuration; unhyphenated
+ * 10-digit NDCs are taken as 4-4-2 (see parseNDC in @utils)
  */
 export function normalizeNDC(ndc: string): string {
-  const validated = validateNDC(ndc);
-
-  // If already in correct format, return as is
-  if (/^\d{5}-\d{4}-\d{2}$/.test(validated)) {
-    return validated;
-  }
-
-  // Remove all dashes
-  const digitsOnly = validated.replace(/-/g, "");
-
-  // Handle different formats
-  if (digitsOnly.length === 10) {
-    // 10-digit: convert to 11-digit by padding the middle segment
-    // Format: XXXXX-XXX-XX → XXXXX-0XXX-XX
-    return `${digitsOnly.slice(0, 5)}-0${digitsOnly.slice(5, 8)}-${digitsOnly.slice(8)}`;
-  } else if (digitsOnly.length === 11) {
-    // 11-digit: format with dashes
-    return `${digitsOnly.slice(0, 5)}-${digitsOnly.slice(5, 9)}-${digitsOnly.slice(9)}`;
-  }
-
-  throw new InvalidNDCError(ndc);
+  return formatNDC11(parseNDC(validateNDC(ndc)));
 }
 
 /**
@@ -0,0 +1,43 @@
+/**
+ * Unit Tests for PHI Redaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { redactPHI, redactObjectPHI } from '../src/redaction';
+
+describe('redactPHI', () => {
+  it('should redact patient measurements in free text', () => {
+    expect(redactPHI('wt 12.5 kg, ht 88 cm')).toBe('[REDACTED], [REDACTED]');
+    expect(redactPHI('age: 4 years')).toBe('[REDACTED]');
+  });
+
+  it('should keep dosing text', () => {
+    expect(redactPHI('15 mg/kg every 8 hours')).toBe('15 mg/kg every 8 hours');
+  });
+});
+
+describe('redactObjectPHI', () => {
+  it('should redact the patient block', () => {
+    const redacted = redactObjectPHI({
+      drug: { name: 'amoxicillin' },
+      daysSupply: 10,
+      patient: { weightKg: 12.5, heightCm: 88, ageYears: 2 },
+    });
+
+    expect(redacted).toEqual({
+      drug: { name: 'amoxicillin' },
+      daysSupply: 10,
+      patient: '[REDACTED]',
+    });
+  });
+
+  it('should redact measurement fields wherever they appear', () => {
+    const redacted = redactObjectPHI({
+      context: { weightKg: 30, height_cm: 130, age: 9, bsa: 1.04 },
+    });
+
+    expect(redacted).toEqual({
+      context: { weightKg: '[REDACTED]', height_cm: '[REDACTED]', age: '[REDACTED]', bsa: '[REDACTED]' },
+    });
+  });
+});
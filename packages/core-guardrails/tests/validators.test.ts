@@ -166,8 +166,13 @@ describe('validateNDC', () => {
 });
 
 describe('normalizeNDC', () => {
-  it('should normalize 10-digit NDC to 11-digit format', () => {
-    expect(normalizeNDC('0007115623')).toBe('00071-0156-23');
+  it('should normalize unhyphenated 10-digit NDC as 4-4-2', () => {
+    expect(normalizeNDC('0071015623')).toBe('00071-0156-23');
+  });
+
+  it('should pad hyphenated 4-4-2 and 5-4-1 NDCs to 5-4-2', () => {
+    expect(normalizeNDC('0071-0156-23')).toBe('00071-0156-23');
+    expect(normalizeNDC('50090-1234-5')).toBe('50090-1234-05');
   });
 
   it('should keep 11-digit NDC in standard format', () => {
@@ -0,0 +1,77 @@
+/**
+ * CSV Reading
+ * Minimal CSV support for inventory and price file imports
+ */
+
+export interface CSVRowError {
+  line: number; // 1-based line number in the file
+  message: string;
+}
+
+export interface CSVTable {
+  header: string[]; // Lowercased, spaces, underscores and hyphens removed
+  rows: Array<{ line: number; fields: string[] }>;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+export function splitCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Read a CSV with a header row (first non-blank line); blank lines are skipped
+ * @param text CSV file contents
+ * @param label File kind for error messages (e.g., "Inventory")
+ */
+export function readCSV(text: string, label: string): CSVTable {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex === -1) {
+    throw new Error(`${label} CSV is empty`);
+  }
+
+  const header = splitCSVLine(lines[headerIndex]).map((name) => name.toLowerCase().replace(/[\s_-]/g, ''));
+  const rows: CSVTable['rows'] = [];
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    rows.push({ line: i + 1, fields: splitCSVLine(lines[i]) });
+  }
+
+  return { header, rows };
+}
+
+/**
+ * Index of the first header matching any alias, or -1
+ */
+export function findColumn(header: string[], aliases: string[]): number {
+  return header.findIndex((name) => aliases.includes(name));
+}
@@ -1,7 +1,12 @@
 /**
  * Data Cache Package
- * Cache abstraction with Firestore adapter
+ * Cache abstraction with Firestore adapter, on-hand inventory and unit price stores
  */
 
 export * from './types';
 export * from './cacheService';
+export * from './ndcKey';
+export * from './inventoryStore';
+export * from './inventoryCsv';
+export * from './priceStore';
+export * from './priceCsv';
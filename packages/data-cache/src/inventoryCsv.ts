@@ -0,0 +1,75 @@
+/**
+ * Inventory CSV Import
+ * Parses pharmacy system exports: one row per NDC with on-hand quantity
+ * and (optionally) opened-bottle remaining
+ */
+
+import { InventoryRecord } from './types';
+import { CSVRowError, findColumn, readCSV } from './csv';
+import { normalizeNDCKey } from './ndcKey';
+
+/**
+ * Accepted header names (case-insensitive, spaces and underscores ignored)
+ */
+const COLUMN_ALIASES: Record<'ndc' | 'onHandQuantity' | 'openedRemaining', string[]> = {
+  ndc: ['ndc', 'ndccode', 'ndc11'],
+  onHandQuantity: ['onhand', 'onhandquantity', 'onhandqty', 'quantity', 'qty'],
+  openedRemaining: ['openedremaining', 'openedbottleremaining', 'opened', 'partial', 'partialqty'],
+};
+
+export interface InventoryCSVResult {
+  records: InventoryRecord[];
+  errors: CSVRowError[];
+}
+
+function parseQuantity(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const quantity = Number(value.replace(/,/g, ''));
+  return Number.isFinite(quantity) && quantity >= 0 ? quantity : NaN;
+}
+
+/**
+ * Parse an inventory CSV
+ * Requires a header row with NDC and on-hand columns; invalid rows are
+ * reported and skipped so one bad row does not block the import.
+ * A later row for the same NDC replaces an earlier one.
+ *
+ * @param text CSV file contents
+ * @returns Parsed records and row errors
+ */
+export function parseInventoryCSV(text: string): InventoryCSVResult {
+  const { header, rows } = readCSV(text, 'Inventory');
+
+  const ndcColumn = findColumn(header, COLUMN_ALIASES.ndc);
+  const onHandColumn = findColumn(header, COLUMN_ALIASES.onHandQuantity);
+  const openedColumn = findColumn(header, COLUMN_ALIASES.openedRemaining);
+
+  if (ndcColumn === -1 || onHandColumn === -1) {
+    throw new Error('Inventory CSV header must include NDC and on-hand quantity columns');
+  }
+
+  const byNdc = new Map<string, InventoryRecord>();
+  const errors: CSVRowError[] = [];
+
+  for (const { line, fields } of rows) {
+    let ndc: string;
+    try {
+      ndc = normalizeNDCKey(fields[ndcColumn] ?? '');
+    } catch (error) {
+      errors.push({ line, message: (error as Error).message });
+      continue;
+    }
+
+    const onHandQuantity = parseQuantity(fields[onHandColumn]);
+    const openedRemaining = openedColumn === -1 ? 0 : parseQuantity(fields[openedColumn]) ?? 0;
+
+    if (onHandQuantity === undefined || Number.isNaN(onHandQuantity) || Number.isNaN(openedRemaining)) {
+      errors.push({ line, message: `Invalid quantity for NDC ${ndc}` });
+      continue;
+    }
+
+    byNdc.set(ndc, { ndc, onHandQuantity, openedRemaining });
+  }
+
+  return { records: Array.from(byNdc.values()), errors };
+}
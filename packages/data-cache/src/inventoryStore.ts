@@ -0,0 +1,144 @@
+/**
+ * On-Hand Inventory Store
+ * Per-location NDC stock counts (sealed stock and opened-bottle remaining),
+ * with a Firestore adapter and an in-memory adapter for tests and local use
+ */
+
+import type { DocumentData, Firestore } from 'firebase-admin/firestore';
+import { IInventoryStore, InventoryRecord } from './types';
+import { lookupByNDCKey, normalizeNDCKey } from './ndcKey';
+
+/** Firestore batch write limit */
+const MAX_BATCH_SIZE = 500;
+
+function toRecord(record: InventoryRecord): InventoryRecord {
+  if (record.onHandQuantity < 0 || record.openedRemaining < 0) {
+    throw new Error(`Inventory quantities for NDC ${record.ndc} must not be negative`);
+  }
+
+  return {
+    ndc: normalizeNDCKey(record.ndc),
+    onHandQuantity: record.onHandQuantity,
+    openedRemaining: record.openedRemaining,
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Firestore-based inventory store
+ * Records live in {collectionName}/{locationId}/items/{ndc}
+ */
+export class FirestoreInventoryStore implements IInventoryStore {
+  private db: Firestore;
+  private locationId: string;
+  private collectionName: string;
+
+  constructor(db: Firestore, locationId: string, collectionName: string = 'inventory') {
+    this.db = db;
+    this.locationId = locationId;
+    this.collectionName = collectionName;
+  }
+
+  private items() {
+    return this.db.collection(this.collectionName).doc(this.locationId).collection('items');
+  }
+
+  private async getByKey(key: string): Promise<InventoryRecord | undefined> {
+    const doc = await this.items().doc(key).get();
+    return doc.exists ? this.fromDocument(doc.data()!) : undefined;
+  }
+
+  private fromDocument(data: DocumentData): InventoryRecord {
+    return {
+      ndc: data.ndc,
+      onHandQuantity: data.onHandQuantity ?? 0,
+      openedRemaining: data.openedRemaining ?? 0,
+      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt,
+    };
+  }
+
+  async get(ndc: string): Promise<InventoryRecord | undefined> {
+    return this.getByKey(normalizeNDCKey(ndc));
+  }
+
+  async getMany(ndcs: string[]): Promise<Map<string, InventoryRecord>> {
+    return lookupByNDCKey(ndcs, (key) => this.getByKey(key));
+  }
+
+  async list(): Promise<InventoryRecord[]> {
+    const snapshot = await this.items().get();
+    return snapshot.docs.map((doc) => this.fromDocument(doc.data()));
+  }
+
+  async upsert(record: InventoryRecord): Promise<InventoryRecord> {
+    const normalized = toRecord(record);
+    await this.items().doc(normalized.ndc).set(normalized);
+    return normalized;
+  }
+
+  async upsertMany(records: InventoryRecord[]): Promise<number> {
+    const normalized = records.map(toRecord);
+
+    for (let start = 0; start < normalized.length; start += MAX_BATCH_SIZE) {
+      const batch = this.db.batch();
+      normalized.slice(start, start + MAX_BATCH_SIZE).forEach((record) => {
+        batch.set(this.items().doc(record.ndc), record);
+      });
+      await batch.commit();
+    }
+
+    return normalized.length;
+  }
+
+  async delete(ndc: string): Promise<boolean> {
+    const ref = this.items().doc(normalizeNDCKey(ndc));
+    const doc = await ref.get();
+    if (!doc.exists) {
+      return false;
+    }
+    await ref.delete();
+    return true;
+  }
+}
+
+/**
+ * In-memory inventory store (tests and local development)
+ */
+export class InMemoryInventoryStore implements IInventoryStore {
+  private records = new Map<string, InventoryRecord>();
+
+  constructor(records: InventoryRecord[] = []) {
+    records.forEach((record) => {
+      const normalized = toRecord(record);
+      this.records.set(normalized.ndc, normalized);
+    });
+  }
+
+  async get(ndc: string): Promise<InventoryRecord | undefined> {
+    return this.records.get(normalizeNDCKey(ndc));
+  }
+
+  async getMany(ndcs: string[]): Promise<Map<string, InventoryRecord>> {
+    return lookupByNDCKey(ndcs, async (key) => this.records.get(key));
+  }
+
+  async list(): Promise<InventoryRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async upsert(record: InventoryRecord): Promise<InventoryRecord> {
+    const normalized = toRecord(record);
+    this.records.set(normalized.ndc, normalized);
+    return normalized;
+  }
+
+  async upsertMany(records: InventoryRecord[]): Promise<number> {
+    const normalized = records.map(toRecord);
+    normalized.forEach((record) => this.records.set(record.ndc, record));
+    return normalized.length;
+  }
+
+  async delete(ndc: string): Promise<boolean> {
+    return this.records.delete(normalizeNDCKey(ndc));
+  }
+}
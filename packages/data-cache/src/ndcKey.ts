@@ -0,0 +1,59 @@
+/**
+ * NDC Record Keys
+ * One key format for NDCs imported from pharmacy and pricing files
+ */
+
+/**
+ * Normalize an NDC to the 11-digit 5-4-2 format used as the record key
+ * (inventory and unit price records)
+ * Hyphenated 4-4-2, 5-3-2 and 5-4-1 NDCs are padded per segment; unhyphenated
+ * NDCs must already have 11 digits (a 10-digit NDC without hyphens is ambiguous).
+ *
+ * @param ndc NDC as entered or imported
+ * @returns NDC formatted as XXXXX-XXXX-XX
+ */
+export function normalizeNDCKey(ndc: string): string {
+  const trimmed = ndc.trim();
+  const segments = trimmed.split('-');
+
+  if (segments.length === 3 && segments.every((segment) => /^\d+$/.test(segment))) {
+    const [labeler, product, pkg] = segments;
+    const digits = labeler.length + product.length + pkg.length;
+    if (digits === 10 || digits === 11) {
+      if (labeler.length <= 5 && product.length <= 4 && pkg.length <= 2) {
+        return `${labeler.padStart(5, '0')}-${product.padStart(4, '0')}-${pkg.padStart(2, '0')}`;
+      }
+    }
+  } else if (/^\d{11}$/.test(trimmed)) {
+    return `${trimmed.slice(0, 5)}-${trimmed.slice(5, 9)}-${trimmed.slice(9)}`;
+  }
+
+  throw new Error(`Invalid NDC: "${ndc}". Use a hyphenated NDC or 11 digits.`);
+}
+
+/**
+ * Look up records for NDCs as passed in; invalid NDCs are treated as untracked
+ */
+export async function lookupByNDCKey<T>(
+  ndcs: string[],
+  getByKey: (key: string) => Promise<T | undefined>
+): Promise<Map<string, T>> {
+  const results = new Map<string, T>();
+
+  await Promise.all(
+    ndcs.map(async (ndc) => {
+      let key: string;
+      try {
+        key = normalizeNDCKey(ndc);
+      } catch {
+        return;
+      }
+      const record = await getByKey(key);
+      if (record) {
+        results.set(ndc, record);
+      }
+    })
+  );
+
+  return results;
+}
@@ -0,0 +1,108 @@
+/**
+ * Unit Price CSV Import
+ * Parses NADAC-style price files: one row per NDC and effective date with
+ * the per-unit price. The file may hold several effective dates per NDC.
+ */
+
+import { UnitPriceRecord } from './types';
+import { CSVRowError, findColumn, readCSV } from './csv';
+import { normalizeNDCKey } from './ndcKey';
+
+/**
+ * Accepted header names (case-insensitive, spaces and underscores ignored)
+ */
+const COLUMN_ALIASES: Record<'ndc' | 'unitPrice' | 'effectiveDate' | 'pricingUnit', string[]> = {
+  ndc: ['ndc', 'ndccode', 'ndc11'],
+  unitPrice: ['nadacperunit', 'unitprice', 'priceperunit', 'unitcost', 'price'],
+  effectiveDate: ['effectivedate', 'effective', 'asofdate'],
+  pricingUnit: ['pricingunit', 'unit'],
+};
+
+export interface UnitPriceCSVResult {
+  records: UnitPriceRecord[];
+  errors: CSVRowError[];
+}
+
+/**
+ * Parse MM/DD/YYYY (as published by NADAC) or YYYY-MM-DD to YYYY-MM-DD
+ */
+function parseEffectiveDate(value: string | undefined): string | undefined {
+  const text = value?.trim() ?? '';
+  let year: number, month: number, day: number;
+
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a unit price CSV
+ * Requires a header row with NDC, per-unit price and effective date columns;
+ * invalid rows are reported and skipped. For each NDC the price with the
+ * latest effective date on or before `asOf` is kept; prices that are only
+ * effective after `asOf` are ignored.
+ *
+ * @param text CSV file contents
+ * @param asOf Date the prices should apply on (default: today)
+ * @returns Parsed prices and row errors
+ */
+export function parseUnitPriceCSV(text: string, asOf: Date = new Date()): UnitPriceCSVResult {
+  const { header, rows } = readCSV(text, 'Price');
+
+  const ndcColumn = findColumn(header, COLUMN_ALIASES.ndc);
+  const priceColumn = findColumn(header, COLUMN_ALIASES.unitPrice);
+  const dateColumn = findColumn(header, COLUMN_ALIASES.effectiveDate);
+  const unitColumn = findColumn(header, COLUMN_ALIASES.pricingUnit);
+
+  if (ndcColumn === -1 || priceColumn === -1 || dateColumn === -1) {
+    throw new Error('Price CSV header must include NDC, per-unit price and effective date columns');
+  }
+
+  const cutoff = asOf.toISOString().slice(0, 10);
+  const byNdc = new Map<string, UnitPriceRecord>();
+  const errors: CSVRowError[] = [];
+
+  for (const { line, fields } of rows) {
+    let ndc: string;
+    try {
+      ndc = normalizeNDCKey(fields[ndcColumn] ?? '');
+    } catch (error) {
+      errors.push({ line, message: (error as Error).message });
+      continue;
+    }
+
+    const rawPrice = (fields[priceColumn] ?? '').replace(/[$,]/g, '');
+    const unitPrice = rawPrice === '' ? NaN : Number(rawPrice);
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      errors.push({ line, message: `Invalid unit price for NDC ${ndc}` });
+      continue;
+    }
+
+    const effectiveDate = parseEffectiveDate(fields[dateColumn]);
+    if (!effectiveDate) {
+      errors.push({ line, message: `Invalid effective date for NDC ${ndc}` });
+      continue;
+    }
+    if (effectiveDate > cutoff) continue;
+
+    const current = byNdc.get(ndc);
+    if (!current || effectiveDate >= current.effectiveDate) {
+      const pricingUnit = unitColumn === -1 ? '' : fields[unitColumn] ?? '';
+      byNdc.set(ndc, { ndc, unitPrice, effectiveDate, ...(pricingUnit ? { pricingUnit } : {}) });
+    }
+  }
+
+  return { records: Array.from(byNdc.values()), errors };
+}
@@ -0,0 +1,106 @@
+/**
+ * Unit Price Store
+ * Per-NDC acquisition cost from an uploaded price file (e.g., NADAC),
+ * with a Firestore adapter and an in-memory adapter for tests and local use
+ */
+
+import type { DocumentData, Firestore } from 'firebase-admin/firestore';
+import { IUnitPriceStore, UnitPriceRecord } from './types';
+import { lookupByNDCKey, normalizeNDCKey } from './ndcKey';
+
+/** Firestore batch write limit */
+const MAX_BATCH_SIZE = 500;
+
+function toRecord(record: UnitPriceRecord): UnitPriceRecord {
+  if (!Number.isFinite(record.unitPrice) || record.unitPrice < 0) {
+    throw new Error(`Unit price for NDC ${record.ndc} must be a non-negative number`);
+  }
+
+  return {
+    ndc: normalizeNDCKey(record.ndc),
+    unitPrice: record.unitPrice,
+    effectiveDate: record.effectiveDate,
+    ...(record.pricingUnit ? { pricingUnit: record.pricingUnit } : {}),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Firestore-based unit price store
+ * Prices live in {collectionName}/{ndc}
+ */
+export class FirestoreUnitPriceStore implements IUnitPriceStore {
+  private db: Firestore;
+  private collectionName: string;
+
+  constructor(db: Firestore, collectionName: string = 'unitPrices') {
+    this.db = db;
+    this.collectionName = collectionName;
+  }
+
+  private async getByKey(key: string): Promise<UnitPriceRecord | undefined> {
+    const doc = await this.db.collection(this.collectionName).doc(key).get();
+    return doc.exists ? this.fromDocument(doc.data()!) : undefined;
+  }
+
+  private fromDocument(data: DocumentData): UnitPriceRecord {
+    return {
+      ndc: data.ndc,
+      unitPrice: data.unitPrice,
+      effectiveDate: data.effectiveDate,
+      pricingUnit: data.pricingUnit,
+      updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : data.updatedAt,
+    };
+  }
+
+  async get(ndc: string): Promise<UnitPriceRecord | undefined> {
+    return this.getByKey(normalizeNDCKey(ndc));
+  }
+
+  async getMany(ndcs: string[]): Promise<Map<string, UnitPriceRecord>> {
+    return lookupByNDCKey(ndcs, (key) => this.getByKey(key));
+  }
+
+  async upsertMany(records: UnitPriceRecord[]): Promise<number> {
+    const normalized = records.map(toRecord);
+    const collection = this.db.collection(this.collectionName);
+
+    for (let start = 0; start < normalized.length; start += MAX_BATCH_SIZE) {
+      const batch = this.db.batch();
+      normalized.slice(start, start + MAX_BATCH_SIZE).forEach((record) => {
+        batch.set(collection.doc(record.ndc), record);
+      });
+      await batch.commit();
+    }
+
+    return normalized.length;
+  }
+}
+
+/**
+ * In-memory unit price store (tests and local development)
+ */
+export class InMemoryUnitPriceStore implements IUnitPriceStore {
+  private records = new Map<string, UnitPriceRecord>();
+
+  constructor(records: UnitPriceRecord[] = []) {
+    records.forEach((record) => {
+      const normalized = toRecord(record);
+      this.records.set(normalized.ndc, normalized);
+    });
+  }
+
+  async get(ndc: string): Promise<UnitPriceRecord | undefined> {
+    return this.records.get(normalizeNDCKey(ndc));
+  }
+
+  async getMany(ndcs: string[]): Promise<Map<string, UnitPriceRecord>> {
+    return lookupByNDCKey(ndcs, async (key) => this.records.get(key));
+  }
+
+  async upsertMany(records: UnitPriceRecord[]): Promise<number> {
+    const normalized = records.map(toRecord);
+    normalized.forEach((record) => this.records.set(record.ndc, record));
+    return normalized.length;
+  }
+}
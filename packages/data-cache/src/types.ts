@@ -1,5 +1,5 @@
 /**
- * Cache types and interfaces
+ * Cache and inventory types and interfaces
  */
 
 /**
@@ -122,3 +122,85 @@ export interface CalculationLog {
   aiUsed: boolean;
   cacheHit: boolean;
 }
+
+/**
+ * On-hand inventory record for one NDC
+ */
+export interface InventoryRecord {
+  ndc: string; // 11-digit 5-4-2 format (e.g., "00071-0156-23")
+  onHandQuantity: number; // Sealed stock in billing units
+  openedRemaining: number; // Units left in the opened stock bottle
+  updatedAt?: Date;
+}
+
+/**
+ * Inventory store interface (one pharmacy location)
+ */
+export interface IInventoryStore {
+  /**
+   * Get the record for an NDC
+   * @param ndc NDC in any hyphenated or 11-digit format
+   */
+  get(ndc: string): Promise<InventoryRecord | undefined>;
+
+  /**
+   * Get records for several NDCs
+   * @param ndcs NDCs in any hyphenated or 11-digit format
+   * @returns Records keyed by the NDC as passed in (untracked NDCs omitted)
+   */
+  getMany(ndcs: string[]): Promise<Map<string, InventoryRecord>>;
+
+  /**
+   * List all records
+   */
+  list(): Promise<InventoryRecord[]>;
+
+  /**
+   * Create or replace a record
+   */
+  upsert(record: InventoryRecord): Promise<InventoryRecord>;
+
+  /**
+   * Create or replace several records (e.g., CSV import)
+   * @returns Number of records written
+   */
+  upsertMany(records: InventoryRecord[]): Promise<number>;
+
+  /**
+   * Delete the record for an NDC
+   * @returns True if a record was deleted
+   */
+  delete(ndc: string): Promise<boolean>;
+}
+
+export interface UnitPriceRecord {
+  ndc: string; // 11-digit 5-4-2 format (e.g., "00071-0156-23")
+  unitPrice: number; // Acquisition cost per billing unit (e.g., NADAC per unit), USD
+  effectiveDate: string; // YYYY-MM-DD
+  pricingUnit?: string; // EA, ML or GM as published
+  updatedAt?: Date;
+}
+
+/**
+ * Unit price store interface (one price file shared by all users)
+ */
+export interface IUnitPriceStore {
+  /**
+   * Get the price for an NDC
+   * @param ndc NDC in any hyphenated or 11-digit format
+   */
+  get(ndc: string): Promise<UnitPriceRecord | undefined>;
+
+  /**
+   * Get prices for several NDCs
+   * @param ndcs NDCs in any hyphenated or 11-digit format
+   * @returns Prices keyed by the NDC as passed in (unpriced NDCs omitted)
+   */
+  getMany(ndcs: string[]): Promise<Map<string, UnitPriceRecord>>;
+
+  /**
+   * Create or replace several prices (e.g., price file upload)
+   * @returns Number of prices written
+   */
+  upsertMany(records: UnitPriceRecord[]): Promise<number>;
+}
@@ -0,0 +1,90 @@
+/**
+ * Inventory Store and CSV Import Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryInventoryStore } from '../src/inventoryStore';
+import { normalizeNDCKey } from '../src/ndcKey';
+import { parseInventoryCSV } from '../src/inventoryCsv';
+
+describe('normalizeNDCKey', () => {
+  it('should pad hyphenated 4-4-2, 5-3-2 and 5-4-1 NDCs to 5-4-2', () => {
+    expect(normalizeNDCKey('0071-0156-23')).toBe('00071-0156-23');
+    expect(normalizeNDCKey('00071-156-23')).toBe('00071-0156-23');
+    expect(normalizeNDCKey('00071-0156-3')).toBe('00071-0156-03');
+  });
+
+  it('should format 11-digit NDCs', () => {
+    expect(normalizeNDCKey('00071015623')).toBe('00071-0156-23');
+  });
+
+  it('should reject ambiguous 10-digit NDCs without hyphens', () => {
+    expect(() => normalizeNDCKey('0071015623')).toThrow('Invalid NDC');
+  });
+});
+
+describe('InMemoryInventoryStore', () => {
+  let store: InMemoryInventoryStore;
+
+  beforeEach(() => {
+    store = new InMemoryInventoryStore([
+      { ndc: '0071-0156-23', onHandQuantity: 300, openedRemaining: 42 },
+    ]);
+  });
+
+  it('should find records regardless of NDC format', async () => {
+    expect((await store.get('00071015623'))?.onHandQuantity).toBe(300);
+  });
+
+  it('should key getMany results by the NDC as passed in', async () => {
+    const results = await store.getMany(['0071-0156-23', '99999-9999-99', 'not-an-ndc']);
+
+    expect(Array.from(results.keys())).toEqual(['0071-0156-23']);
+    expect(results.get('0071-0156-23')?.openedRemaining).toBe(42);
+  });
+
+  it('should upsert, list and delete records', async () => {
+    await store.upsert({ ndc: '00093-7180-56', onHandQuantity: 0, openedRemaining: 10 });
+    expect(await store.list()).toHaveLength(2);
+
+    expect(await store.delete('0093-7180-56')).toBe(true);
+    expect(await store.delete('0093-7180-56')).toBe(false);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('should reject negative quantities', async () => {
+    await expect(store.upsert({ ndc: '00093-7180-56', onHandQuantity: -1, openedRemaining: 0 }))
+      .rejects.toThrow('must not be negative');
+  });
+});
+
+describe('parseInventoryCSV', () => {
+  it('should parse records with flexible headers', () => {
+    const csv = [
+      'NDC,On Hand,Opened Remaining',
+      '0071-0156-23,300,42',
+      '"00093718056","1,000",',
+    ].join('\n');
+
+    const result = parseInventoryCSV(csv);
+
+    expect(result.errors).toEqual([]);
+    expect(result.records).toEqual([
+      { ndc: '00071-0156-23', onHandQuantity: 300, openedRemaining: 42 },
+      { ndc: '00093-7180-56', onHandQuantity: 1000, openedRemaining: 0 },
+    ]);
+  });
+
+  it('should report invalid rows and keep the rest', () => {
+    const csv = 'ndc,qty\n12345,10\n0071-0156-23,abc\n0071-0156-23,5\n';
+
+    const result = parseInventoryCSV(csv);
+
+    expect(result.records).toEqual([{ ndc: '00071-0156-23', onHandQuantity: 5, openedRemaining: 0 }]);
+    expect(result.errors.map(error => error.line)).toEqual([2, 3]);
+  });
+
+  it('should require NDC and on-hand columns', () => {
+    expect(() => parseInventoryCSV('ndc,lot\n0071-0156-23,A1')).toThrow('header must include');
+  });
+});
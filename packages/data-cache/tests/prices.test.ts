@@ -0,0 +1,68 @@
+/**
+ * Unit Price Store and CSV Import Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemoryUnitPriceStore } from '../src/priceStore';
+import { parseUnitPriceCSV } from '../src/priceCsv';
+
+describe('parseUnitPriceCSV', () => {
+  const nadac = [
+    'NDC Description,NDC,NADAC_Per_Unit,Effective_Date,Pricing_Unit',
+    'LISINOPRIL 10 MG TABLET,00071015623,0.02341,01/15/2025,EA',
+    'LISINOPRIL 10 MG TABLET,00071015623,0.02105,03/12/2025,EA',
+    'LISINOPRIL 10 MG TABLET,00071015623,0.01990,06/01/2026,EA',
+    'AMOXICILLIN 250 MG/5 ML,0093-4155-73,0.03800,2025-02-01,ML',
+  ].join('\n');
+
+  it('should keep the latest price effective on or before the as-of date', () => {
+    const { records, errors } = parseUnitPriceCSV(nadac, new Date('2025-12-31T00:00:00Z'));
+
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      { ndc: '00071-0156-23', unitPrice: 0.02105, effectiveDate: '2025-03-12', pricingUnit: 'EA' },
+      { ndc: '00093-4155-73', unitPrice: 0.038, effectiveDate: '2025-02-01', pricingUnit: 'ML' },
+    ]);
+  });
+
+  it('should report invalid rows and keep the rest', () => {
+    const csv = [
+      'ndc,unit price,effective date',
+      '12345,0.10,01/01/2025',
+      '00071-0156-23,abc,01/01/2025',
+      '00071-0156-23,0.10,13/45/2025',
+      '00093-4155-73,$0.05,01/01/2025',
+    ].join('\n');
+
+    const { records, errors } = parseUnitPriceCSV(csv, new Date('2025-06-01T00:00:00Z'));
+
+    expect(records).toEqual([{ ndc: '00093-4155-73', unitPrice: 0.05, effectiveDate: '2025-01-01' }]);
+    expect(errors.map((error) => error.line)).toEqual([2, 3, 4]);
+    expect(errors[1].message).toContain('Invalid unit price');
+    expect(errors[2].message).toContain('Invalid effective date');
+  });
+
+  it('should require NDC, price and effective date columns', () => {
+    expect(() => parseUnitPriceCSV('ndc,price\n00071-0156-23,0.10')).toThrow('effective date');
+  });
+});
+
+describe('InMemoryUnitPriceStore', () => {
+  it('should key getMany results by the NDC as passed in', async () => {
+    const store = new InMemoryUnitPriceStore([
+      { ndc: '00071015623', unitPrice: 0.02, effectiveDate: '2025-03-12' },
+    ]);
+
+    const prices = await store.getMany(['0071-0156-23', '00093-4155-73']);
+
+    expect(Array.from(prices.keys())).toEqual(['0071-0156-23']);
+    expect(prices.get('0071-0156-23')?.unitPrice).toBe(0.02);
+  });
+
+  it('should reject negative prices', async () => {
+    const store = new InMemoryUnitPriceStore();
+    await expect(
+      store.upsertMany([{ ndc: '00071-0156-23', unitPrice: -1, effectiveDate: '2025-01-01' }])
+    ).rejects.toThrow('non-negative');
+  });
+});
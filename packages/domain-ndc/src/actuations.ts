@@ -0,0 +1,240 @@
+/**
+ * Actuation-Based Quantity Calculation
+ * Converts puffs and sprays into metered-dose inhalers or nasal spray bottles
+ * using the labeled actuation count and priming sprays
+ */
+
+import { computeTotalQuantity, type QuantityResult, type SIGInput } from './quantity';
+
+/**
+ * Actuation device as packaged (e.g. "1 INHALER in 1 CARTON > 200 ACTUATION in 1 INHALER")
+ */
+export interface ActuationPackage {
+  /** Labeled actuations per device */
+  actuationsPerDevice: number;
+  /** Devices in one package */
+  devicesPerPackage: number;
+  /** Device container (e.g. "INHALER", "BOTTLE, SPRAY") */
+  deviceName: string;
+}
+
+export interface ActuationOptions {
+  /** Priming actuations before first use (default 4 for puffs, 6 for sprays) */
+  primingActuations?: number;
+}
+
+export interface ActuationDetails {
+  deviceName: string;
+  devicesNeeded: number;
+  actuationsPerDevice: number;
+  /** Priming actuations per device */
+  primingActuations: number;
+  /** Actuations available for doses from one device */
+  usableActuationsPerDevice: number;
+  /** Dose actuations needed within the days supply */
+  totalActuations: number;
+  /** Days supply the dispensed devices actually cover */
+  daysCovered: number;
+  calculation: string;
+}
+
+export interface ActuationQuantityResult extends QuantityResult {
+  actuation: ActuationDetails;
+}
+
+/**
+ * A package ranked by the number of devices it takes to fill the days supply
+ */
+export interface RankedActuationPackage<T> {
+  pkg: T;
+  actuationPackage: ActuationPackage;
+  result: ActuationQuantityResult;
+  packagesNeeded: number;
+  devicesDispensed: number;
+  /** Usable actuations dispensed beyond the days supply */
+  wastedActuations: number;
+}
+
+export const DEFAULT_PRIMING_ACTUATIONS: Record<string, number> = {
+  puff: 4,
+  spray: 6,
+  actuation: 4,
+};
+
+const ACTUATION_UNIT_PATTERN = /^(?:ACTUATIONS?|SPRAYS?|PUFFS?|INHALATIONS?|METERED)$/i;
+
+const ACTUATION_DESCRIPTION_PATTERN =
+  /(\d+)\s+(?:METERED\s+)?(?:ACTUATIONS?|SPRAYS?|PUFFS?|INHALATIONS?)\b/i;
+
+/**
+ * Check whether a SIG unit is dosed in actuations (puffs or sprays)
+ */
+export function isActuationUnit(unit: string): boolean {
+  return /^(?:puffs?|sprays?|actuations?|inhalations?)$/i.test(unit.trim());
+}
+
+/**
+ * Parse the labeled actuation count from an FDA package description
+ * Examples: "200 ACTUATION in 1 INHALER", "120 SPRAY, METERED in 1 BOTTLE, SPRAY"
+ *
+ * @param description - Package description
+ * @returns Actuations per device or null if not stated
+ */
+export function parseActuationCount(description: string): number | null {
+  const match = (description || '').match(ACTUATION_DESCRIPTION_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Resolve the actuation device of a package
+ * Prefers parsed packaging levels; falls back to the raw description.
+ *
+ * @param levels - Packaging levels, outermost first
+ * @param description - Package description
+ * @returns Actuation package or null if no actuation count is stated
+ */
+export function parseActuationPackage(
+  levels: Array<{ quantity: number; unit: string; container: string }> | undefined,
+  description?: string
+): ActuationPackage | null {
+  const index = (levels || []).findIndex(level => ACTUATION_UNIT_PATTERN.test(level.unit.trim()));
+
+  if (levels && index >= 0) {
+    const devicesPerPackage = levels
+      .slice(0, index)
+      .reduce((total, level) => total * level.quantity, 1);
+
+    return {
+      actuationsPerDevice: levels[index].quantity,
+      devicesPerPackage,
+      deviceName: levels[index].container,
+    };
+  }
+
+  const actuations = parseActuationCount(description || '');
+  return actuations
+    ? { actuationsPerDevice: actuations, devicesPerPackage: 1, deviceName: 'INHALER' }
+    : null;
+}
+
+/**
+ * Compute the devices needed for a puff or spray SIG
+ *
+ * @param sig - Prescription SIG in puffs or sprays
+ * @param actuationsPerDevice - Labeled actuations per device
+ * @param daysSupply - Number of days supply
+ * @param options - Priming override
+ * @param deviceName - Device name used in the calculation text
+ * @returns Quantity result in devices with actuation details
+ */
+export function computeActuationQuantity(
+  sig: SIGInput,
+  actuationsPerDevice: number,
+  daysSupply: number,
+  options: ActuationOptions = {},
+  deviceName = 'inhaler'
+): ActuationQuantityResult {
+  const primingActuations = options.primingActuations
+    ?? DEFAULT_PRIMING_ACTUATIONS[sig.unit.toLowerCase().replace(/s$/, '')]
+    ?? 0;
+  const usableActuationsPerDevice = actuationsPerDevice - primingActuations;
+
+  if (usableActuationsPerDevice <= 0) {
+    throw new Error('Device must have more actuations than priming actuations');
+  }
+
+  // Dose actuations via the regular calculation (schedules and PRN maximum use included)
+  const base = computeTotalQuantity(sig, {}, daysSupply);
+  const totalActuations = base.totalQuantity;
+  if (totalActuations <= 0) {
+    throw new Error('Total actuations must be positive');
+  }
+
+  const devicesNeeded = Math.ceil(totalActuations / usableActuationsPerDevice);
+  const dailyActuations = totalActuations / daysSupply;
+  const daysCovered = Math.floor((devicesNeeded * usableActuationsPerDevice) / dailyActuations + 1e-9);
+
+  const device = deviceName.toLowerCase();
+  const primingText = primingActuations > 0 ? ` - ${primingActuations} priming` : '';
+  const calculation =
+    `${totalActuations} ${sig.unit} needed; ${actuationsPerDevice}${primingText} = ` +
+    `${usableActuationsPerDevice} usable per ${device}; ` +
+    `${devicesNeeded} ${device}${devicesNeeded === 1 ? '' : 's'} covering ${daysCovered} days`;
+
+  return {
+    ...base,
+    totalQuantity: devicesNeeded,
+    details: {
+      method: 'actuation_conversion',
+      calculation,
+    },
+    actuation: {
+      deviceName,
+      devicesNeeded,
+      actuationsPerDevice,
+      primingActuations,
+      usableActuationsPerDevice,
+      totalActuations,
+      daysCovered,
+      calculation,
+    },
+  };
+}
+
+/**
+ * Rank packages by device count for a puff or spray SIG
+ * Fewest devices dispensed first, then fewest packages, then least wasted actuations.
+ *
+ * @param packages - Candidate packages
+ * @param getActuationPackage - Resolves a package's actuation device
+ * @param sig - Prescription SIG in puffs or sprays
+ * @param daysSupply - Number of days supply
+ * @param options - Priming override
+ * @returns Ranked packages and packages without a stated actuation count
+ */
+export function rankActuationPackages<T>(
+  packages: T[],
+  getActuationPackage: (pkg: T) => ActuationPackage | null,
+  sig: SIGInput,
+  daysSupply: number,
+  options: ActuationOptions = {}
+): { ranked: RankedActuationPackage<T>[]; unresolved: T[] } {
+  const ranked: RankedActuationPackage<T>[] = [];
+  const unresolved: T[] = [];
+
+  for (const pkg of packages) {
+    const actuationPackage = getActuationPackage(pkg);
+    if (!actuationPackage || actuationPackage.devicesPerPackage <= 0) {
+      unresolved.push(pkg);
+      continue;
+    }
+
+    const result = computeActuationQuantity(
+      sig,
+      actuationPackage.actuationsPerDevice,
+      daysSupply,
+      options,
+      actuationPackage.deviceName
+    );
+    const packagesNeeded = Math.ceil(result.actuation.devicesNeeded / actuationPackage.devicesPerPackage);
+    const devicesDispensed = packagesNeeded * actuationPackage.devicesPerPackage;
+
+    ranked.push({
+      pkg,
+      actuationPackage,
+      result,
+      packagesNeeded,
+      devicesDispensed,
+      wastedActuations:
+        devicesDispensed * result.actuation.usableActuationsPerDevice - result.actuation.totalActuations,
+    });
+  }
+
+  ranked.sort((a, b) =>
+    a.devicesDispensed - b.devicesDispensed ||
+    a.packagesNeeded - b.packagesNeeded ||
+    a.wastedActuations - b.wastedActuations
+  );
+
+  return { ranked, unresolved };
+}
@@ -0,0 +1,125 @@
+/**
+ * Strength / Concentration Resolution
+ * Resolves the strength of each candidate package from its FDA active ingredients
+ * so quantities are computed per strength family (e.g. amoxicillin 250 mg/5 mL vs 400 mg/5 mL)
+ */
+
+export interface IngredientStrength {
+  name: string;
+  strength: string;
+}
+
+export interface ResolvedStrength {
+  /** Normalized label usable as DrugStrength.strength (e.g. "250 MG/5 ML", "10 MG") */
+  label: string;
+  /** Amount of drug (e.g. 250) */
+  amount: number;
+  /** Amount unit (e.g. "MG") */
+  unit: string;
+  /** Volume the amount is contained in (e.g. 5); 1 for solids */
+  perVolume: number;
+  /** Volume unit (e.g. "ML"); undefined for per-unit strengths like "10 mg/1" */
+  perUnit?: string;
+  /** Amount per single volume unit (e.g. 50 mg per mL) */
+  amountPerUnit: number;
+}
+
+export interface StrengthFamily<T> {
+  /** Resolved strength; null when no ingredient strength could be parsed */
+  strength: ResolvedStrength | null;
+  packages: T[];
+}
+
+/**
+ * Parse an openFDA ingredient strength
+ * Examples: "250 mg/5mL", "40 mg/mL", "10 mg/1", "0.5 mg"
+ *
+ * @param strength - Strength string
+ * @returns Resolved strength or null if unparseable
+ */
+export function parseIngredientStrength(strength: string): ResolvedStrength | null {
+  if (!strength) return null;
+
+  const match = strength
+    .trim()
+    .toUpperCase()
+    .match(/^(\d+(?:\.\d+)?)\s*([A-Z]+)(?:\s*\/\s*(\d+(?:\.\d+)?)?\s*([A-Z]+)?)?$/);
+
+  if (!match) return null;
+
+  const [, amountText, unit, perVolumeText, perUnitText] = match;
+  const amount = parseFloat(amountText);
+  const perVolume = perVolumeText ? parseFloat(perVolumeText) : 1;
+  // "10 mg/1" is per dosage unit (tablet, capsule), not a concentration
+  const perUnit = perUnitText || undefined;
+
+  if (perVolume <= 0) return null;
+
+  let label = `${amount} ${unit}`;
+  if (perUnit) {
+    label += perVolume === 1 ? `/${perUnit}` : `/${perVolume} ${perUnit}`;
+  }
+
+  return {
+    label,
+    amount,
+    unit,
+    perVolume,
+    perUnit,
+    amountPerUnit: amount / perVolume,
+  };
+}
+
+/**
+ * Resolve the strength of a package from its active ingredients
+ * Multi-ingredient products use the first parseable ingredient.
+ *
+ * @param ingredients - Active ingredients (from openFDA)
+ * @returns Resolved strength or null
+ */
+export function resolvePackageStrength(
+  ingredients: IngredientStrength[] | undefined
+): ResolvedStrength | null {
+  for (const ingredient of ingredients || []) {
+    const resolved = parseIngredientStrength(ingredient.strength);
+    if (resolved) return resolved;
+  }
+  return null;
+}
+
+/**
+ * Group packages into strength families
+ *
+ * @param packages - Candidate packages
+ * @param getIngredients - Accessor for a package's active ingredients
+ * @returns Families keyed by strength label (packages without a strength grouped last)
+ */
+export function groupByStrength<T>(
+  packages: T[],
+  getIngredients: (pkg: T) => IngredientStrength[] | undefined
+): StrengthFamily<T>[] {
+  const families = new Map<string, StrengthFamily<T>>();
+  const unresolved: T[] = [];
+
+  for (const pkg of packages) {
+    const strength = resolvePackageStrength(getIngredients(pkg));
+    if (!strength) {
+      unresolved.push(pkg);
+      continue;
+    }
+
+    const family = families.get(strength.label);
+    if (family) {
+      family.packages.push(pkg);
+    } else {
+      families.set(strength.label, { strength, packages: [pkg] });
+    }
+  }
+
+  const grouped = Array.from(families.values());
+  if (unresolved.length > 0) {
+    grouped.push({ strength: null, packages: unresolved });
+  }
+
+  return grouped;
+}
@@ -0,0 +1,182 @@
+/**
+ * Cost-Optimised Package Selection
+ * Ranks package combinations by a weighted score of acquisition cost, cost of
+ * wasted (overfill) units and package count, using per-unit prices (e.g. NADAC)
+ */
+
+import type { PackageCandidate } from './packageMatch';
+import {
+  findPackageCombinations,
+  type PackageCombination,
+  type PackageCombinationOptions,
+} from './packageCombination';
+
+/** Acquisition cost per billing unit, keyed by candidate NDC */
+export type UnitPriceLookup = Map<string, number>;
+
+export interface CostWeights {
+  /** Weight on total acquisition cost */
+  acquisition: number;
+  /** Weight on the cost of overfill units */
+  waste: number;
+  /** Cost charged per package dispensed (handling, counting, labelling) */
+  perPackage: number;
+}
+
+export interface CostedCombination {
+  combination: PackageCombination;
+  acquisitionCost: number;
+  /** Overfill units at the combination's average unit cost */
+  wasteCost: number;
+  packageCount: number;
+  /** Weighted sum of acquisition cost, waste cost and package count (lower is better) */
+  score: number;
+}
+
+export interface CostSelection {
+  best: CostedCombination;
+  /** Ranked options, best first (includes `best`) */
+  options: CostedCombination[];
+  /** Candidate NDCs left out because they have no price */
+  unpricedNdcs: string[];
+  overfillPercentage: number;
+  underfillPercentage: number;
+  warnings: string[];
+  explanation: string;
+}
+
+export interface CostSelectionOptions extends PackageCombinationOptions {
+  /** Ranked options returned (default: 5) */
+  maxOptions?: number;
+}
+
+/** Combinations scored before ranking */
+const MAX_COMBINATIONS = 50;
+const DEFAULT_MAX_OPTIONS = 5;
+
+/**
+ * Cost a package combination
+ *
+ * @param combination - Packages to dispense
+ * @param requiredQuantity - Quantity needed (overfill beyond it is waste)
+ * @param prices - Unit prices by NDC
+ * @param weights - Score weighting
+ * @returns Costs and score, or null when any NDC in the combination has no price
+ */
+export function costCombination(
+  combination: PackageCombination,
+  requiredQuantity: number,
+  prices: UnitPriceLookup,
+  weights: CostWeights
+): CostedCombination | null {
+  let acquisitionCost = 0;
+
+  for (const item of combination.items) {
+    const unitPrice = prices.get(item.package.ndc);
+    if (unitPrice === undefined) return null;
+    acquisitionCost += unitPrice * item.package.packageSize.quantity * item.count;
+  }
+
+  const wasteUnits = Math.max(0, combination.totalQuantity - requiredQuantity);
+  const averageUnitCost = combination.totalQuantity > 0 ? acquisitionCost / combination.totalQuantity : 0;
+  const wasteCost = wasteUnits * averageUnitCost;
+
+  return {
+    combination,
+    acquisitionCost: round(acquisitionCost),
+    wasteCost: round(wasteCost),
+    packageCount: combination.packageCount,
+    score: round(
+      weights.acquisition * acquisitionCost +
+      weights.waste * wasteCost +
+      weights.perPackage * combination.packageCount
+    ),
+  };
+}
+
+/**
+ * Choose the lowest-cost package combination for the required quantity
+ *
+ * Only priced NDCs are considered; when several NDCs share a size the cheapest
+ * is used. Combinations that cover the requirement are ranked by score; if none
+ * covers it, the closest combination is returned with a warning.
+ *
+ * @param packages - Available packages (should be pre-filtered for active status and unit)
+ * @param requiredQuantity - Total quantity needed
+ * @param prices - Unit prices by NDC
+ * @param weights - Score weighting
+ * @param options - Search limits and number of options returned
+ * @returns Best combination by cost with ranked options and metadata
+ */
+export function chooseLowestCostCombination(
+  packages: PackageCandidate[],
+  requiredQuantity: number,
+  prices: UnitPriceLookup,
+  weights: CostWeights,
+  options: CostSelectionOptions = {}
+): CostSelection {
+  const priced = packages
+    .map((pkg, index) => ({ pkg, index, price: prices.get(pkg.ndc) }))
+    .filter((entry): entry is { pkg: PackageCandidate; index: number; price: number } => entry.price !== undefined)
+    .sort((a, b) => a.price - b.price || a.index - b.index)
+    .map(entry => entry.pkg);
+
+  if (priced.length === 0) {
+    throw new Error('No priced packages available for selection');
+  }
+
+  const combinations = findPackageCombinations(priced, requiredQuantity, {
+    ...options,
+    maxResults: MAX_COMBINATIONS,
+  });
+  const covering = combinations.filter(combination => combination.underfillPercentage === 0);
+
+  const ranked = (covering.length > 0 ? covering : combinations.slice(0, 1))
+    .map(combination => costCombination(combination, requiredQuantity, prices, weights)!)
+    .sort((a, b) => a.score - b.score || a.packageCount - b.packageCount);
+
+  const best = ranked[0];
+  const unit = priced[0].packageSize.unit;
+  const pricedNdcs = new Set(priced.map(pkg => pkg.ndc));
+  const unpricedNdcs = packages.map(pkg => pkg.ndc).filter(ndc => !pricedNdcs.has(ndc));
+  const warnings: string[] = [];
+
+  if (best.combination.underfillPercentage > 0) {
+    const underfill = requiredQuantity - best.combination.totalQuantity;
+    warnings.push(
+      `No combination of up to ${options.maxPackages ?? 5} priced packages meets required quantity. ` +
+      `Underfill: ${best.combination.underfillPercentage.toFixed(1)}% (${underfill} ${unit} short). ` +
+      `Patient will need early refill.`
+    );
+  }
+
+  if (unpricedNdcs.length > 0) {
+    warnings.push(
+      `${unpricedNdcs.length} NDC(s) have no unit price and were not considered: ${unpricedNdcs.join(', ')}`
+    );
+  }
+
+  const leastWaste = ranked.reduce((least, option) =>
+    option.combination.totalQuantity < least.combination.totalQuantity ? option : least
+  );
+  const explanation =
+    `Selected ${best.combination.description} = ${best.combination.totalQuantity} ${unit} ` +
+    `(lowest cost score of ${ranked.length} option(s) for ${requiredQuantity} ${unit})` +
+    (leastWaste !== best
+      ? `; least-overfill option ${leastWaste.combination.description} scores higher`
+      : '');
+
+  return {
+    best,
+    options: ranked.slice(0, options.maxOptions ?? DEFAULT_MAX_OPTIONS),
+    unpricedNdcs,
+    overfillPercentage: best.combination.overfillPercentage,
+    underfillPercentage: best.combination.underfillPercentage,
+    warnings,
+    explanation,
+  };
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(4));
+}
@@ -0,0 +1,173 @@
+/**
+ * Days Supply Calculation (reverse)
+ * Computes the days supply reported on a claim for the quantity actually
+ * dispensed (e.g. a whole inhaler or carton), given the SIG
+ */
+
+import { computeTotalQuantity, type DrugStrength, type QuantityResult, type SIGInput } from './quantity';
+import { computeInjectableQuantity, type InjectableDevice, type InjectableOptions } from './injectables';
+import { computeActuationQuantity, type ActuationOptions } from './actuations';
+import { DEFAULT_DROP_DISCARD_AFTER_DAYS, isDropUnit, type DropBottleOptions } from './drops';
+
+/**
+ * Payer-typical days supply limits: 34-day retail, 90-day maintenance,
+ * 102-day maximum (100 days plus a grace period)
+ */
+export const PAYER_DAYS_SUPPLY_LIMITS = [34, 90, 102] as const;
+
+/** Upper bound for the search (10 years) */
+const MAX_SEARCH_DAYS = 3650;
+
+export interface DaysSupplyOptions {
+  /** Pen or vial of a unit-dosed injectable; quantity dispensed is in mL */
+  injectableDevice?: InjectableDevice;
+  /** Priming and discard overrides (injectables) */
+  injectable?: InjectableOptions;
+  /** Labeled actuations per inhaler or spray bottle; quantity dispensed is in actuations */
+  actuationsPerDevice?: number;
+  /** Priming override (inhalers and sprays) */
+  actuation?: ActuationOptions;
+  /** Volume of one drop bottle in mL (default: the quantity dispensed is one bottle) */
+  dropBottleMl?: number;
+  /** Discard-after-opening override (drops) */
+  drops?: DropBottleOptions;
+}
+
+export interface DaysSupplyResult {
+  /** Whole days the dispensed quantity covers */
+  daysSupply: number;
+  quantityDispensed: number;
+  /** Quantity the SIG uses over daysSupply */
+  quantityUsed: number;
+  /** Quantity left after daysSupply (not enough for the next day) */
+  remainingQuantity: number;
+  /** Average quantity used per day */
+  dailyQuantity: number;
+  administrationCount?: number;
+  method: NonNullable<QuantityResult['details']>['method'];
+  /** Highest payer-typical limit exceeded, if any */
+  exceedsLimit?: number;
+  warnings: string[];
+  calculation: string;
+}
+
+/**
+ * Compute the days supply for a dispensed quantity
+ *
+ * Runs the forward calculation in reverse: the days supply is the largest
+ * number of days whose required quantity fits in the quantity dispensed,
+ * so schedules, PRN maximum use and unit conversions apply exactly as
+ * in the forward calculation. Pens and vials go through
+ * computeInjectableQuantity (concentration, priming, in-use discard limit)
+ * and inhalers through computeActuationQuantity (priming actuations).
+ * Drops are capped at the discard-after-opening limit of each bottle, as in
+ * chooseDropBottles.
+ *
+ * @param sig - Prescription SIG
+ * @param quantityDispensed - Quantity dispensed in package billing units
+ * @param drugStrength - Strength and dosage form for unit conversion
+ * @param options - Injectable device or actuations per device
+ * @returns Days supply with a breakdown and payer limit warnings
+ */
+export function computeDaysSupply(
+  sig: SIGInput,
+  quantityDispensed: number,
+  drugStrength: DrugStrength = {},
+  options: DaysSupplyOptions = {}
+): DaysSupplyResult {
+  if (quantityDispensed <= 0) {
+    throw new Error('Quantity dispensed must be positive');
+  }
+
+  const { injectableDevice, actuationsPerDevice } = options;
+  const quantityFor = (days: number): QuantityResult => {
+    if (injectableDevice) {
+      return computeInjectableQuantity(sig, injectableDevice, days, options.injectable);
+    }
+    if (actuationsPerDevice) {
+      // Whole devices back to billed actuations
+      const result = computeActuationQuantity(sig, actuationsPerDevice, days, options.actuation);
+      return { ...result, totalQuantity: result.totalQuantity * actuationsPerDevice };
+    }
+    return computeTotalQuantity(sig, drugStrength, days);
+  };
+
+  const firstDay = quantityFor(1);
+  if (firstDay.totalQuantity > quantityDispensed) {
+    throw new Error(
+      `Quantity dispensed (${quantityDispensed}) does not cover one day ` +
+      `(${firstDay.totalQuantity} needed)`
+    );
+  }
+
+  // Required quantity never decreases with days, so binary search the last day that fits
+  let low = 1;
+  let high = MAX_SEARCH_DAYS;
+  let lowResult = firstDay;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const result = quantityFor(mid);
+    if (result.totalQuantity <= quantityDispensed) {
+      low = mid;
+      lowResult = result;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  // Opened drop bottles are discarded after the discard limit, whatever volume is left;
+  // bottles are opened one after another
+  let discardWarning: string | undefined;
+  if (isDropUnit(sig.unit)) {
+    const discardAfterDays = options.drops?.discardAfterDays ?? DEFAULT_DROP_DISCARD_AFTER_DAYS;
+    const bottles = Math.max(1, Math.round(quantityDispensed / (options.dropBottleMl ?? quantityDispensed)));
+    const discardLimit = bottles * discardAfterDays;
+
+    if (discardLimit < low) {
+      discardWarning =
+        `Opened bottles are discarded after ${discardAfterDays} days; ` +
+        `${quantityDispensed} mL covers ${discardLimit} days, not the ${low} days its volume would last.`;
+      low = discardLimit;
+      lowResult = quantityFor(low);
+    }
+  }
+
+  const daysSupply = low;
+  const quantityUsed = lowResult.totalQuantity;
+  const remainingQuantity = parseFloat((quantityDispensed - quantityUsed).toFixed(4));
+  const dailyQuantity = parseFloat((quantityUsed / daysSupply).toFixed(4));
+  const warnings = [...lowResult.warnings];
+
+  if (discardWarning) {
+    warnings.push(discardWarning);
+  }
+
+  if (daysSupply === MAX_SEARCH_DAYS) {
+    warnings.push(`Quantity dispensed covers more than ${MAX_SEARCH_DAYS} days. Verify quantity and SIG.`);
+  }
+
+  const exceedsLimit = [...PAYER_DAYS_SUPPLY_LIMITS].reverse().find(limit => daysSupply > limit);
+  if (exceedsLimit !== undefined) {
+    warnings.push(
+      `Days supply ${daysSupply} exceeds the ${exceedsLimit}-day limit used by many payers. ` +
+      `Consider dispensing less or confirm plan limits.`
+    );
+  }
+
+  const calculation =
+    `${quantityDispensed} dispensed ÷ ${dailyQuantity}/day ` +
+    `(${quantityUsed} used over ${daysSupply} days, ${remainingQuantity} remaining) = ${daysSupply} days`;
+
+  return {
+    daysSupply,
+    quantityDispensed,
+    quantityUsed,
+    remainingQuantity,
+    dailyQuantity,
+    administrationCount: lowResult.administrationCount,
+    method: lowResult.details?.method ?? 'direct',
+    exceedsLimit,
+    warnings,
+    calculation,
+  };
+}
@@ -3,12 +3,16 @@
  * Maps various dosage form representations to normalized families
  */
 
-export type DosageFormFamily = 'solid' | 'liquid' | 'other';
+export type DosageFormFamily = 'solid' | 'liquid' | 'topical' | 'other';
 
 /**
  * Dosage form mapping table
  */
 const DOSAGE_FORM_MAP: Record<string, DosageFormFamily> = {
+  // Injectables first: "INJECTION, SUSPENSION" is not an oral liquid
+  'injection': 'other',
+  'injectable': 'other',
+  
   // Solid forms
   'tablet': 'solid',
   'capsule': 'solid',
@@ -28,17 +32,22 @@ const DOSAGE_FORM_MAP: Record<string, DosageFormFamily> = {
   'drops': 'liquid',
   'liquid': 'liquid',
   
+  // Topical forms (dosed in grams or fingertip units)
+  'cream': 'topical',
+  'ointment': 'topical',
+  'gel': 'topical',
+  'lotion': 'topical',
+  'paste': 'topical',
+  'foam': 'topical',
+  'fingertip': 'topical',
+  'ftu': 'topical',
+  'application': 'topical',
+  
   // Other forms
   'inhaler': 'other',
   'spray': 'other',
   'aerosol': 'other',
-  'injection': 'other',
-  'injectable': 'other',
   'patch': 'other',
-  'cream': 'other',
-  'ointment': 'other',
-  'gel': 'other',
-  'foam': 'other',
 };
 
 /**
@@ -0,0 +1,188 @@
+/**
+ * Ophthalmic/Otic Drop Bottle Selection
+ * Chooses the bottle combination (2.5/5/10/15 mL) that covers the days supply,
+ * given that an opened bottle is discarded after 28 days
+ */
+
+import type { PackageCandidate } from './packageMatch';
+import {
+  describeCombination,
+  type PackageCombination,
+  type PackageCombinationItem,
+} from './packageCombination';
+
+export interface DropBottleOptions {
+  /** Days an opened bottle may be used (default 28) */
+  discardAfterDays?: number;
+  /** Maximum number of bottles in one combination (default 6) */
+  maxBottles?: number;
+}
+
+export interface DropBottleSelection {
+  combination: PackageCombination;
+  /** Days supply the bottles actually cover */
+  daysCovered: number;
+  dailyMl: number;
+  discardAfterDays: number;
+  /** Whether the discard limit, not volume, determines the bottle count */
+  limitedByDiscard: boolean;
+  warnings: string[];
+  explanation: string;
+}
+
+/** Days an opened drop bottle may be used */
+export const DEFAULT_DROP_DISCARD_AFTER_DAYS = 28;
+const DEFAULT_MAX_BOTTLES = 6;
+
+/**
+ * Check whether a SIG unit is dosed in drops
+ */
+export function isDropUnit(unit: string): boolean {
+  return /^(?:drops?|gtts?)$/i.test(unit.trim());
+}
+
+/**
+ * Days one bottle lasts: limited by its volume and the discard-after-opening rule
+ */
+export function daysPerBottle(
+  volumeMl: number,
+  dailyMl: number,
+  discardAfterDays: number = DEFAULT_DROP_DISCARD_AFTER_DAYS
+): number {
+  return Math.min(Math.floor(volumeMl / dailyMl + 1e-9), discardAfterDays);
+}
+
+/**
+ * Choose drop bottles covering the days supply
+ *
+ * Ranking: combinations that cover the days supply come first, ordered by
+ * least total volume, then fewest bottles. Otherwise the most days covered wins.
+ *
+ * @param packages - Bottles in mL (should be pre-filtered for active status)
+ * @param requiredMl - Total mL needed for the days supply
+ * @param daysSupply - Number of days supply
+ * @param options - Discard and search limits
+ * @returns Best bottle combination with coverage details
+ */
+export function chooseDropBottles(
+  packages: PackageCandidate[],
+  requiredMl: number,
+  daysSupply: number,
+  options: DropBottleOptions = {}
+): DropBottleSelection {
+  if (requiredMl <= 0 || daysSupply <= 0) {
+    throw new Error('Required volume and days supply must be positive');
+  }
+
+  const discardAfterDays = options.discardAfterDays ?? DEFAULT_DROP_DISCARD_AFTER_DAYS;
+  const maxBottles = options.maxBottles ?? DEFAULT_MAX_BOTTLES;
+  const dailyMl = requiredMl / daysSupply;
+
+  // One NDC per bottle size; bottles lasting less than a day cannot be used
+  const bySize = new Map<number, PackageCandidate>();
+  for (const pkg of packages) {
+    const size = pkg.packageSize.quantity;
+    if (daysPerBottle(size, dailyMl, discardAfterDays) >= 1 && !bySize.has(size)) {
+      bySize.set(size, pkg);
+    }
+  }
+
+  if (bySize.size === 0) {
+    throw new Error('No bottles available for selection');
+  }
+
+  const sizes = Array.from(bySize.keys()).sort((a, b) => b - a);
+  const counts: number[] = new Array(sizes.length).fill(0);
+  let best: { counts: number[]; days: number; volume: number; bottles: number } | null = null;
+
+  const isBetter = (days: number, volume: number, bottles: number): boolean => {
+    if (!best) return true;
+    const covers = days >= daysSupply;
+    const bestCovers = best.days >= daysSupply;
+    if (covers !== bestCovers) return covers;
+    if (!covers) return days > best.days || (days === best.days && volume < best.volume);
+    return volume < best.volume || (volume === best.volume && bottles < best.bottles);
+  };
+
+  const search = (index: number, days: number, volume: number, bottles: number): void => {
+    if (bottles > 0 && isBetter(days, volume, bottles)) {
+      best = { counts: [...counts], days, volume, bottles };
+    }
+
+    // More bottles once the days supply is covered only add waste
+    if (days >= daysSupply || bottles >= maxBottles) {
+      return;
+    }
+
+    for (let i = index; i < sizes.length; i++) {
+      counts[i]++;
+      search(
+        i,
+        days + daysPerBottle(sizes[i], dailyMl, discardAfterDays),
+        volume + sizes[i],
+        bottles + 1
+      );
+      counts[i]--;
+    }
+  };
+
+  search(0, 0, 0, 0);
+
+  const chosen = best!;
+  const items: PackageCombinationItem[] = [];
+  sizes.forEach((size, i) => {
+    if (chosen.counts[i] > 0) {
+      items.push({ package: bySize.get(size)!, count: chosen.counts[i] });
+    }
+  });
+
+  const totalQuantity = chosen.volume;
+  const overfill = Math.max(0, totalQuantity - requiredMl);
+  const underfill = chosen.days >= daysSupply ? 0 : Math.max(0, requiredMl - totalQuantity);
+  const description = describeCombination(items);
+
+  const combination: PackageCombination = {
+    items,
+    totalQuantity,
+    packageCount: chosen.bottles,
+    distinctNdcCount: items.length,
+    overfillPercentage: (overfill / requiredMl) * 100,
+    underfillPercentage: (underfill / requiredMl) * 100,
+    fillPrecision: underfill > 0 ? 'underfill' : overfill > 0 ? 'overfill' : 'exact',
+    description,
+  };
+
+  const limitedByDiscard = items.some(
+    item => item.package.packageSize.quantity / dailyMl > discardAfterDays
+  );
+  const daysCovered = chosen.days;
+  const warnings: string[] = [];
+
+  if (limitedByDiscard) {
+    warnings.push(
+      `Opened bottles are discarded after ${discardAfterDays} days; ` +
+      `${description} mL is dispensed to cover ${daysSupply} days.`
+    );
+  }
+
+  if (daysCovered < daysSupply) {
+    warnings.push(
+      `No combination of up to ${maxBottles} bottles covers ${daysSupply} days ` +
+      `(covers ${daysCovered} days). Patient will need early refill.`
+    );
+  }
+
+  const explanation =
+    `${requiredMl} mL over ${daysSupply} days (${parseFloat(dailyMl.toFixed(3))} mL/day); ` +
+    `${description} mL covers ${daysCovered} days with a ${discardAfterDays}-day discard after opening`;
+
+  return {
+    combination,
+    daysCovered,
+    dailyMl,
+    discardAfterDays,
+    limitedByDiscard,
+    warnings,
+    explanation,
+  };
+}
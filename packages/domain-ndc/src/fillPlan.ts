@@ -0,0 +1,291 @@
+/**
+ * Refill and Partial-Fill Planning
+ * Splits a long authorised days supply (e.g. 90 days) into fills and selects
+ * packages for every fill together, so surplus from one fill counts toward the next
+ */
+
+import type { PackageCandidate } from './packageMatch';
+import {
+  findPackageCombinations,
+  type PackageCombination,
+  type PackageCombinationOptions,
+} from './packageCombination';
+
+export interface FillPlanInput {
+  /** Total authorised days across all fills */
+  totalDays: number;
+  /** Days covered by each fill */
+  fillIntervalDays: number;
+  /** Refills after the initial fill */
+  refills: number;
+}
+
+export interface ScheduledFill {
+  /** 0 = initial fill, 1..n = refills */
+  fillIndex: number;
+  /** First day covered (0-based from the initial fill) */
+  startDay: number;
+  days: number;
+}
+
+export interface FillRequirement extends ScheduledFill {
+  requiredQuantity: number;
+}
+
+export interface PlannedFill extends FillRequirement {
+  /** Surplus on hand from earlier fills */
+  carriedIn: number;
+  /** Packages dispensed, or null when the surplus on hand covers the fill */
+  combination: PackageCombination | null;
+  dispensedQuantity: number;
+  /** Surplus left for the next fill */
+  carriedOut: number;
+  /** Quantity short when no combination covers the fill */
+  shortfall: number;
+}
+
+export interface FillPlanSelection {
+  fills: PlannedFill[];
+  totalRequired: number;
+  totalDispensed: number;
+  packageCount: number;
+  overfillPercentage: number;
+  underfillPercentage: number;
+  /** Total dispensed when each fill is selected on its own, for comparison */
+  independentDispensed: number;
+  warnings: string[];
+  explanation: string;
+}
+
+/** Candidate combinations considered per fill */
+const MAX_OPTIONS_PER_FILL = 50;
+
+/**
+ * Split the authorised days into fills
+ * The last fill covers the remaining days; refills beyond the authorised days are dropped.
+ */
+export function scheduleFills(plan: FillPlanInput): { fills: ScheduledFill[]; warnings: string[] } {
+  if (plan.totalDays <= 0 || plan.fillIntervalDays <= 0 || plan.refills < 0) {
+    throw new Error('Fill plan days must be positive and refills non-negative');
+  }
+
+  const warnings: string[] = [];
+  const fills: ScheduledFill[] = [];
+  const authorisedFills = plan.refills + 1;
+
+  for (let fillIndex = 0; fillIndex < authorisedFills; fillIndex++) {
+    const startDay = fillIndex * plan.fillIntervalDays;
+    if (startDay >= plan.totalDays) {
+      warnings.push(
+        `${authorisedFills - fillIndex} refill(s) not needed: ` +
+        `${fillIndex} fill(s) of ${plan.fillIntervalDays} days cover ${plan.totalDays} days.`
+      );
+      break;
+    }
+    fills.push({
+      fillIndex,
+      startDay,
+      days: Math.min(plan.fillIntervalDays, plan.totalDays - startDay),
+    });
+  }
+
+  const coveredDays = fills.reduce((total, fill) => total + fill.days, 0);
+  if (coveredDays < plan.totalDays) {
+    warnings.push(
+      `${authorisedFills} fill(s) of ${plan.fillIntervalDays} days cover ${coveredDays} of ` +
+      `${plan.totalDays} authorised days.`
+    );
+  }
+
+  return { fills, warnings };
+}
+
+/**
+ * Quantity required per fill from a cumulative quantity function
+ * Differences of cumulative totals keep non-daily schedules and tapers exact across fills.
+ *
+ * @param fills - Scheduled fills
+ * @param quantityForDays - Total quantity needed for the first N days
+ */
+export function computeFillRequirements(
+  fills: ScheduledFill[],
+  quantityForDays: (days: number) => number
+): FillRequirement[] {
+  const cumulative = (days: number) => (days <= 0 ? 0 : quantityForDays(days));
+
+  return fills.map(fill => ({
+    ...fill,
+    requiredQuantity: round(cumulative(fill.startDay + fill.days) - cumulative(fill.startDay)),
+  }));
+}
+
+interface PlanState {
+  carry: number;
+  dispensed: number;
+  shortfall: number;
+  /** Sum of surplus carried between fills (lower = less dispensed ahead of need) */
+  carried: number;
+  packageCount: number;
+  ndcs: Set<string>;
+  fills: PlannedFill[];
+}
+
+/**
+ * Select packages for every fill, minimising combined waste
+ *
+ * Packages are dispensed whole and surplus on hand carries into the next fill,
+ * so a larger package early can make a later fill unnecessary. Searches all
+ * fills together (best plan per surplus level after each fill). Ranking: least
+ * shortfall, then least total dispensed (i.e. least waste), then least surplus
+ * carried between fills (no front-loading), then fewest packages, then fewest
+ * distinct NDCs.
+ *
+ * @param packages - Available packages (should be pre-filtered for active status and unit)
+ * @param requirements - Quantity required per fill
+ * @param options - Combination search limits per fill
+ * @returns Package selection per fill with totals
+ */
+export function planFills(
+  packages: PackageCandidate[],
+  requirements: FillRequirement[],
+  options: PackageCombinationOptions = {}
+): FillPlanSelection {
+  if (packages.length === 0) {
+    throw new Error('No packages available for selection');
+  }
+  if (requirements.length === 0) {
+    throw new Error('At least one fill is required');
+  }
+
+  let states = new Map<number, PlanState>([
+    [0, { carry: 0, dispensed: 0, shortfall: 0, carried: 0, packageCount: 0, ndcs: new Set(), fills: [] }],
+  ]);
+
+  for (const requirement of requirements) {
+    const next = new Map<number, PlanState>();
+
+    for (const state of states.values()) {
+      const need = round(requirement.requiredQuantity - state.carry);
+
+      if (need <= 0) {
+        keepBest(next, extend(state, requirement, null, 0));
+        continue;
+      }
+
+      const combinations = findPackageCombinations(packages, need, {
+        ...options,
+        maxResults: MAX_OPTIONS_PER_FILL,
+      });
+      const covering = combinations.filter(combination => combination.underfillPercentage === 0);
+
+      // Shortfall only when nothing covers the fill; then take the closest combination
+      for (const combination of covering.length > 0 ? covering : combinations.slice(0, 1)) {
+        keepBest(next, extend(state, requirement, combination, need));
+      }
+    }
+
+    states = next;
+  }
+
+  const best = Array.from(states.values()).sort(comparePlans)[0];
+  const totalRequired = round(requirements.reduce((total, fill) => total + fill.requiredQuantity, 0));
+  const unit = packages[0].packageSize.unit;
+  const warnings: string[] = [];
+
+  const independentDispensed = requirements.reduce((total, fill) => {
+    if (fill.requiredQuantity <= 0) return total;
+    const [first] = findPackageCombinations(packages, fill.requiredQuantity, options);
+    return total + first.totalQuantity;
+  }, 0);
+
+  const waste = round(best.dispensed - totalRequired + best.shortfall);
+  const overfillPercentage = totalRequired > 0 ? (Math.max(0, waste) / totalRequired) * 100 : 0;
+  const underfillPercentage = totalRequired > 0 ? (best.shortfall / totalRequired) * 100 : 0;
+
+  best.fills
+    .filter(fill => fill.shortfall > 0)
+    .forEach(fill => {
+      warnings.push(
+        `Fill ${fill.fillIndex + 1}: no combination of up to ${options.maxPackages ?? 5} packages covers ` +
+        `${fill.requiredQuantity} ${unit} (${fill.shortfall} ${unit} short).`
+      );
+    });
+
+  const skipped = best.fills.filter(fill => fill.combination === null && fill.requiredQuantity > 0);
+  const explanation =
+    `${best.fills.length} fill(s) need ${totalRequired} ${unit}; dispensing ${best.dispensed} ${unit} ` +
+    `in ${best.packageCount} package(s) across fills` +
+    (skipped.length > 0
+      ? ` (fill${skipped.length === 1 ? '' : 's'} ${skipped.map(fill => fill.fillIndex + 1).join(', ')} ` +
+        `covered by surplus on hand)`
+      : '') +
+    (independentDispensed > best.dispensed
+      ? `, versus ${independentDispensed} ${unit} selecting each fill on its own`
+      : '');
+
+  return {
+    fills: best.fills,
+    totalRequired,
+    totalDispensed: best.dispensed,
+    packageCount: best.packageCount,
+    overfillPercentage,
+    underfillPercentage,
+    independentDispensed,
+    warnings,
+    explanation,
+  };
+}
+
+function extend(
+  state: PlanState,
+  requirement: FillRequirement,
+  combination: PackageCombination | null,
+  need: number
+): PlanState {
+  const dispensedQuantity = combination?.totalQuantity ?? 0;
+  const shortfall = combination ? Math.max(0, round(need - dispensedQuantity)) : 0;
+  const carriedOut = round(Math.max(0, state.carry + dispensedQuantity - requirement.requiredQuantity));
+  const ndcs = new Set(state.ndcs);
+  combination?.items.forEach(item => ndcs.add(item.package.ndc));
+
+  return {
+    carry: carriedOut,
+    dispensed: state.dispensed + dispensedQuantity,
+    shortfall: state.shortfall + shortfall,
+    carried: round(state.carried + carriedOut),
+    packageCount: state.packageCount + (combination?.packageCount ?? 0),
+    ndcs,
+    fills: [
+      ...state.fills,
+      {
+        ...requirement,
+        carriedIn: state.carry,
+        combination,
+        dispensedQuantity,
+        carriedOut,
+        shortfall,
+      },
+    ],
+  };
+}
+
+function keepBest(states: Map<number, PlanState>, candidate: PlanState): void {
+  const existing = states.get(candidate.carry);
+  if (!existing || comparePlans(candidate, existing) < 0) {
+    states.set(candidate.carry, candidate);
+  }
+}
+
+function comparePlans(a: PlanState, b: PlanState): number {
+  return (
+    a.shortfall - b.shortfall ||
+    a.dispensed - b.dispensed ||
+    a.carried - b.carried ||
+    a.packageCount - b.packageCount ||
+    a.ndcs.size - b.ndcs.size
+  );
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(4));
+}
@@ -5,8 +5,25 @@
 
 export * from "./types";
 export * from "./quantity";
+export * from "./sigParser";
+export * from "./concentration";
+export * from "./injectables";
+export * from "./actuations";
+export * from "./drops";
+export * from "./topical";
+export * from "./longActing";
+export * from "./patientDosing";
+export * from "./daysSupply";
+export * from "./fillPlan";
 export * from "./packageMatch";
+export * from "./wholePackage";
+export * from "./labelers";
+export * from "./inventory";
+export * from "./cost";
+export * from "./packageCombination";
+export * from "./packageOptions";
 export * from "./unitConverter";
+export * from "./ndc";
 export * from "./validation";
 export * from "./dosageForm";
 
@@ -0,0 +1,208 @@
+/**
+ * Injectable Quantity Calculation
+ * Converts unit-dosed injectables (insulin) into whole pens or vials using
+ * concentration, device volume, priming units and the in-use discard limit
+ */
+
+import { computeTotalQuantity, type QuantityResult, type SIGInput } from './quantity';
+
+export type InjectableDeviceType = 'pen' | 'vial';
+
+export interface InjectableDevice {
+  type: InjectableDeviceType;
+  /** Concentration in units/mL (100 for U-100, 200 for U-200, 500 for U-500) */
+  unitsPerMl: number;
+  /** Volume of one pen or vial in mL */
+  volumeMl: number;
+}
+
+export interface InjectableOptions {
+  /** Priming units per injection (default 2 for pens, 0 for vials) */
+  primingUnits?: number;
+  /** Days a pen or vial may be used after opening (default 28) */
+  discardAfterDays?: number;
+}
+
+/**
+ * How many pens/vials are needed and how long they last
+ */
+export interface InjectableDetails {
+  deviceType: InjectableDeviceType;
+  devicesNeeded: number;
+  unitsPerMl: number;
+  volumeMl: number;
+  /** Units in one full pen or vial */
+  unitsPerDevice: number;
+  /** Units usable from one pen or vial before it must be discarded */
+  usableUnitsPerDevice: number;
+  /** Total units used for priming within the days supply */
+  primingUnits: number;
+  /** Total units needed including priming */
+  totalUnits: number;
+  discardAfterDays: number;
+  /** Days supply the dispensed pens/vials actually cover */
+  daysCovered: number;
+  limitedByDiscard: boolean;
+  calculation: string;
+}
+
+export interface InjectableQuantityResult extends QuantityResult {
+  injectable: InjectableDetails;
+}
+
+export const DEFAULT_DISCARD_AFTER_DAYS = 28;
+export const DEFAULT_PEN_PRIMING_UNITS = 2;
+
+/**
+ * Parse an injectable concentration in units/mL
+ * Examples: "U-100", "100 UNITS/ML", "100 [iU]/mL", "500 UNT/ML"
+ *
+ * @param strength - Strength string
+ * @returns Units per mL or null if not a unit concentration
+ */
+export function parseUnitsPerMl(strength: string): number | null {
+  if (!strength) return null;
+
+  const normalized = strength.toUpperCase();
+
+  const uMatch = normalized.match(/\bU-?(\d+)\b/);
+  if (uMatch) {
+    return parseInt(uMatch[1], 10);
+  }
+
+  const perMlMatch = normalized.match(
+    /(\d+(?:\.\d+)?)\s*(?:\[IU\]|IU|UNITS?|UNT)\s*\/\s*(\d+(?:\.\d+)?)?\s*ML\b/
+  );
+  if (perMlMatch) {
+    const perVolume = perMlMatch[2] ? parseFloat(perMlMatch[2]) : 1;
+    return perVolume > 0 ? parseFloat(perMlMatch[1]) / perVolume : null;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the pen or vial of an injectable package from its packaging levels
+ * The innermost level must be a volume (e.g. "3 mL in 1 SYRINGE")
+ *
+ * @param levels - Packaging levels, outermost first (from the FDA package description)
+ * @param strength - Concentration string (e.g. "100 [iU]/mL")
+ * @returns Device or null if the package is not a unit-dosed pen or vial
+ */
+export function resolveInjectableDevice(
+  levels: Array<{ quantity: number; unit: string; container: string }> | undefined,
+  strength: string | undefined
+): InjectableDevice | null {
+  const unitsPerMl = parseUnitsPerMl(strength || '');
+  const device = levels?.[levels.length - 1];
+
+  if (!unitsPerMl || !device || device.unit.toUpperCase() !== 'ML' || device.quantity <= 0) {
+    return null;
+  }
+
+  const container = device.container.toUpperCase();
+  let type: InjectableDeviceType;
+  if (container.includes('VIAL')) {
+    type = 'vial';
+  } else if (/PEN|SYRINGE|INJECTOR|CARTRIDGE/.test(container)) {
+    type = 'pen';
+  } else {
+    return null;
+  }
+
+  return { type, unitsPerMl, volumeMl: device.quantity };
+}
+
+/**
+ * Compute the pens or vials needed for a unit-dosed SIG
+ * Each injection uses its dose plus priming units; a device holds
+ * unitsPerMl × volumeMl units but is discarded discardAfterDays after opening.
+ *
+ * @param sig - Prescription SIG in units
+ * @param device - Pen or vial
+ * @param daysSupply - Number of days supply
+ * @param options - Priming and discard overrides
+ * @returns Quantity result in mL (whole devices) with pen/vial details
+ */
+export function computeInjectableQuantity(
+  sig: SIGInput,
+  device: InjectableDevice,
+  daysSupply: number,
+  options: InjectableOptions = {}
+): InjectableQuantityResult {
+  if (device.unitsPerMl <= 0 || device.volumeMl <= 0) {
+    throw new Error('Device concentration and volume must be positive');
+  }
+
+  // Dose units via the regular calculation (schedules and PRN maximum use included)
+  const base = computeTotalQuantity(sig, {}, daysSupply);
+  const administrations = base.administrationCount ?? sig.frequency * daysSupply;
+
+  const primingPerInjection = options.primingUnits
+    ?? (device.type === 'pen' ? DEFAULT_PEN_PRIMING_UNITS : 0);
+  const discardAfterDays = options.discardAfterDays ?? DEFAULT_DISCARD_AFTER_DAYS;
+
+  const primingUnits = primingPerInjection * administrations;
+  const totalUnits = base.totalQuantity + primingUnits;
+  if (totalUnits <= 0) {
+    throw new Error('Total units must be positive');
+  }
+  const dailyUnits = totalUnits / daysSupply;
+
+  const unitsPerDevice = device.unitsPerMl * device.volumeMl;
+  const usableUnitsPerDevice = Math.min(unitsPerDevice, dailyUnits * discardAfterDays);
+  const limitedByDiscard = usableUnitsPerDevice < unitsPerDevice;
+
+  // Round before ceil/floor so floating point noise doesn't add a device or drop a day
+  const devicesNeeded = Math.ceil(round(totalUnits / usableUnitsPerDevice));
+  const daysCovered = Math.floor(round((devicesNeeded * usableUnitsPerDevice) / dailyUnits));
+
+  const warnings = [...base.warnings];
+  if (limitedByDiscard) {
+    warnings.push(
+      `Each ${device.type} must be discarded ${discardAfterDays} days after opening: only ` +
+      `${round(usableUnitsPerDevice)} of ${unitsPerDevice} units are usable per ${device.type}.`
+    );
+  }
+
+  const doseText = primingPerInjection > 0
+    ? `(${sig.maxDose ?? sig.dose} + ${primingPerInjection} priming) units`
+    : `${sig.maxDose ?? sig.dose} units`;
+  const usableText = limitedByDiscard
+    ? ` (${round(usableUnitsPerDevice)} usable within ${discardAfterDays} days)`
+    : '';
+  const calculation =
+    `${doseText} × ${administrations} injections = ${round(totalUnits)} units; ` +
+    `U-${device.unitsPerMl} × ${device.volumeMl} mL = ${unitsPerDevice} units per ${device.type}${usableText}; ` +
+    `${devicesNeeded} ${device.type}${devicesNeeded === 1 ? '' : 's'} covering ${daysCovered} days`;
+
+  const totalQuantity = round(devicesNeeded * device.volumeMl);
+
+  return {
+    ...base,
+    totalQuantity,
+    warnings,
+    details: {
+      method: 'injectable_conversion',
+      calculation,
+    },
+    injectable: {
+      deviceType: device.type,
+      devicesNeeded,
+      unitsPerMl: device.unitsPerMl,
+      volumeMl: device.volumeMl,
+      unitsPerDevice,
+      usableUnitsPerDevice: round(usableUnitsPerDevice),
+      primingUnits,
+      totalUnits: round(totalUnits),
+      discardAfterDays,
+      daysCovered,
+      limitedByDiscard,
+      calculation,
+    },
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,89 @@
+/**
+ * On-Hand Inventory
+ * Stock status of candidate packages from the pharmacy's shelf counts, so
+ * selection prefers NDCs that are in stock or can be counted from an opened bottle
+ */
+
+import type { PackageCandidate } from './packageMatch';
+
+export interface StockLevel {
+  /** Sealed stock on hand, in billing units (e.g. 300 for three 100-tablet bottles) */
+  onHandQuantity: number;
+  /** Units left in the opened stock bottle */
+  openedRemaining?: number;
+}
+
+/** Stock levels keyed by candidate NDC; NDCs without an entry are not tracked */
+export type InventoryLookup = Map<string, StockLevel>;
+
+export type StockStatus =
+  | 'in_stock'
+  | 'insufficient'
+  | 'opened_only'
+  | 'out_of_stock'
+  | 'unknown';
+
+const STATUS_LABELS: Record<StockStatus, string> = {
+  in_stock: 'in stock',
+  insufficient: 'not stocked in the quantity needed',
+  opened_only: 'only in an opened stock bottle',
+  out_of_stock: 'out of stock',
+  unknown: 'not tracked in inventory',
+};
+
+/** Preference order when ranking candidates by stock */
+const STATUS_ORDER: StockStatus[] = ['in_stock', 'unknown', 'insufficient', 'opened_only', 'out_of_stock'];
+
+/**
+ * Whole sealed packages on hand
+ */
+export function sealedPackagesOnHand(stock: StockLevel | undefined, packageQuantity: number): number {
+  if (!stock || packageQuantity <= 0) return 0;
+  return Math.floor(stock.onHandQuantity / packageQuantity + 1e-9);
+}
+
+/**
+ * Stock status for dispensing sealed packages
+ *
+ * @param stock - Stock level for the NDC (undefined when not tracked)
+ * @param packageQuantity - Billing units per package
+ * @param packagesNeeded - Sealed packages to dispense
+ */
+export function getStockStatus(
+  stock: StockLevel | undefined,
+  packageQuantity: number,
+  packagesNeeded: number = 1
+): StockStatus {
+  if (!stock) return 'unknown';
+
+  const sealed = sealedPackagesOnHand(stock, packageQuantity);
+  if (sealed >= packagesNeeded) return 'in_stock';
+  if (sealed > 0) return 'insufficient';
+  if ((stock.openedRemaining ?? 0) > 0) return 'opened_only';
+  return 'out_of_stock';
+}
+
+/**
+ * Describe a stock status (e.g. "out of stock")
+ */
+export function describeStockStatus(status: StockStatus): string {
+  return STATUS_LABELS[status];
+}
+
+/**
+ * Stable sort putting NDCs with sealed stock first, then untracked NDCs
+ * Combination and fill plan searches keep the first package of each size,
+ * so in-stock NDCs win ties there.
+ */
+export function sortByStockStatus(
+  packages: PackageCandidate[],
+  inventory: InventoryLookup
+): PackageCandidate[] {
+  const rank = (pkg: PackageCandidate) =>
+    STATUS_ORDER.indexOf(getStockStatus(inventory.get(pkg.ndc), pkg.packageSize.quantity));
+
+  return packages
+    .map((pkg, index) => ({ pkg, index, rank: rank(pkg) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(entry => entry.pkg);
+}
@@ -0,0 +1,135 @@
+/**
+ * Labeler (Manufacturer) Preferences
+ * Pharmacies stock specific generic manufacturers: preferred labelers win ties
+ * between equally good packages, blocked labelers are never selected
+ */
+
+import type { PackageCandidate } from './packageMatch';
+
+export interface LabelerPreferences {
+  /** Preferred labelers, most preferred first */
+  preferred?: string[];
+  /** Labelers the pharmacy does not stock */
+  blocked?: string[];
+}
+
+export interface BlockedPackage<T> {
+  pkg: T;
+  reason: string;
+}
+
+/**
+ * Normalize a labeler name for comparison
+ * Case, punctuation and common corporate suffixes are ignored, so
+ * "Teva Pharmaceuticals USA, Inc." matches "TEVA PHARMACEUTICALS USA".
+ */
+export function normalizeLabelerName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/[.,]/g, ' ')
+    .replace(/\b(?:INC|INCORPORATED|LLC|LTD|LIMITED|CORP|CORPORATION|CO|LP|PLC)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function matchesAny(labelerName: string | undefined, names: string[] | undefined): number {
+  if (!labelerName || !names || names.length === 0) return -1;
+  const normalized = normalizeLabelerName(labelerName);
+  return names.findIndex(name => normalizeLabelerName(name) === normalized);
+}
+
+/**
+ * Combine preference lists, most specific first (e.g. user, then organisation)
+ * Blocked labelers are the union of all lists; a labeler blocked by any list
+ * is not preferred.
+ */
+export function mergeLabelerPreferences(
+  ...lists: Array<LabelerPreferences | null | undefined>
+): Required<LabelerPreferences> {
+  const present = lists.filter((list): list is LabelerPreferences => !!list);
+
+  const blocked = dedupe(present.flatMap(list => list.blocked ?? []));
+  const blockedNames = new Set(blocked.map(normalizeLabelerName));
+  const preferred = dedupe(present.flatMap(list => list.preferred ?? []))
+    .filter(name => !blockedNames.has(normalizeLabelerName(name)));
+
+  return { preferred, blocked };
+}
+
+/**
+ * Whether a labeler is on the block list
+ */
+export function isLabelerBlocked(
+  labelerName: string | undefined,
+  preferences: LabelerPreferences = {}
+): boolean {
+  return matchesAny(labelerName, preferences.blocked) >= 0;
+}
+
+/**
+ * Preference rank of a labeler: 0 = most preferred, Infinity = not preferred
+ */
+export function labelerPreferenceRank(
+  labelerName: string | undefined,
+  preferences: LabelerPreferences = {}
+): number {
+  const index = matchesAny(labelerName, preferences.preferred);
+  return index >= 0 ? index : Infinity;
+}
+
+/**
+ * Split packages into allowed and blocked by labeler
+ *
+ * @param packages - Packages to check
+ * @param getLabeler - Labeler name of a package
+ * @param preferences - Preference and block lists
+ * @returns Allowed packages, and blocked packages with the exclusion reason
+ */
+export function partitionByLabeler<T>(
+  packages: T[],
+  getLabeler: (pkg: T) => string | undefined,
+  preferences: LabelerPreferences = {}
+): { allowed: T[]; blocked: BlockedPackage<T>[] } {
+  const allowed: T[] = [];
+  const blocked: BlockedPackage<T>[] = [];
+
+  for (const pkg of packages) {
+    const labeler = getLabeler(pkg);
+    if (isLabelerBlocked(labeler, preferences)) {
+      blocked.push({ pkg, reason: `Labeler not stocked (${labeler})` });
+    } else {
+      allowed.push(pkg);
+    }
+  }
+
+  return { allowed, blocked };
+}
+
+/**
+ * Stable sort putting preferred labelers first
+ * Selection keeps the first package of each size, so sorting candidates this
+ * way makes preferred labelers win ties in combination and fill plan searches.
+ */
+export function sortByLabelerPreference(
+  packages: PackageCandidate[],
+  preferences: LabelerPreferences = {}
+): PackageCandidate[] {
+  return packages
+    .map((pkg, index) => ({ pkg, index, rank: labelerPreferenceRank(pkg.labelerName, preferences) }))
+    .sort((a, b) => compareRank(a.rank, b.rank) || a.index - b.index)
+    .map(entry => entry.pkg);
+}
+
+function compareRank(a: number, b: number): number {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+function dedupe(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const normalized = normalizeLabelerName(name);
+    if (seen.has(normalized)) return false;
+    seen.add(normalized);
+    return true;
+  });
+}
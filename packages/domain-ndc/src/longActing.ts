@@ -0,0 +1,88 @@
+/**
+ * Long-Acting Dosage Forms
+ * Transdermal patches, vaginal rings and depot injections are changed on an
+ * interval (every 72 hours, twice weekly, every 3 months) rather than dosed per day
+ */
+
+import type { SIGInput } from './quantity';
+
+/**
+ * Dispensable units per package for a long-acting form
+ */
+export interface LongActingPackage {
+  /** Units (patches, rings, syringes, vials) in one package */
+  unitsPerPackage: number;
+  /** Unit container (e.g. "PATCH", "SYRINGE") */
+  container: string;
+}
+
+const LONG_ACTING_UNIT_PATTERN = /^(?:patch(?:es)?|rings?|injections?|implants?)$/i;
+
+/**
+ * Check whether a SIG unit is a long-acting form changed on an interval
+ */
+export function isLongActingUnit(unit: string): boolean {
+  return LONG_ACTING_UNIT_PATTERN.test(unit.trim());
+}
+
+/**
+ * Hours between changes for a SIG
+ * Weekday and on/off cycle schedules use the average interval.
+ *
+ * @param sig - Prescription SIG
+ * @returns Hours between administrations
+ */
+export function changeIntervalHours(sig: SIGInput): number {
+  const schedule = sig.schedule;
+
+  switch (schedule?.type) {
+    case 'intervalHours':
+      return schedule.everyHours;
+    case 'interval':
+      return (schedule.everyDays * 24) / sig.frequency;
+    case 'weekdays':
+      return (7 * 24) / (new Set(schedule.days).size * sig.frequency);
+    case 'cycle':
+      return ((schedule.daysOn + schedule.daysOff) * 24) / (schedule.daysOn * sig.frequency);
+    default:
+      return 24 / sig.frequency;
+  }
+}
+
+/**
+ * Describe a change interval for explanations
+ * Examples: "every 72 hours", "every 84 hours (twice weekly)", "every 7 days"
+ */
+export function describeChangeInterval(hours: number): string {
+  const rounded = parseFloat(hours.toFixed(1));
+
+  if (rounded === 84) return 'every 84 hours (twice weekly)';
+  if (rounded >= 168 && rounded % 24 === 0) return `every ${rounded / 24} days`;
+  return `every ${rounded} hours`;
+}
+
+/**
+ * Count dispensable units in a package from its packaging levels
+ * Depot injections are packaged by volume ("1 SYRINGE in 1 CARTON > 1 mL in 1 SYRINGE"),
+ * so the count is the number of innermost containers, not mL.
+ *
+ * @param levels - Packaging levels, outermost first
+ * @returns Units per package, or null if the package is not measured by volume or weight
+ */
+export function countLongActingUnits(
+  levels: Array<{ quantity: number; unit: string; container: string }> | undefined
+): LongActingPackage | null {
+  if (!levels || levels.length === 0) {
+    return null;
+  }
+
+  const innermost = levels[levels.length - 1];
+  if (!/^(?:ML|L|G|GM|MG)$/i.test(innermost.unit)) {
+    return null;
+  }
+
+  return {
+    unitsPerPackage: levels.slice(0, -1).reduce((total, level) => total * level.quantity, 1),
+    container: innermost.container,
+  };
+}
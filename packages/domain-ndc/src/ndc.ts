@@ -0,0 +1,6 @@
+/**
+ * NDC Value Type
+ * Defined in @utils so that lower-level packages (guardrails, FDA client) share the same parser
+ */
+
+export * from '@utils/ndc';
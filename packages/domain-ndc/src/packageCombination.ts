@@ -0,0 +1,287 @@
+/**
+ * Multi-Package Combination Engine
+ * Finds sets of packages (e.g. "1×100 + 2×30") that together cover a required quantity
+ */
+
+import type { PackageCandidate } from './packageMatch';
+
+export interface PackageCombinationItem {
+  package: PackageCandidate;
+  count: number;
+}
+
+export interface PackageCombination {
+  items: PackageCombinationItem[];
+  totalQuantity: number;
+  packageCount: number;
+  distinctNdcCount: number;
+  overfillPercentage: number;
+  underfillPercentage: number;
+  fillPrecision: 'exact' | 'overfill' | 'underfill';
+  /** Human-readable form, e.g. "1×100 + 2×30" */
+  description: string;
+}
+
+export interface PackageCombinationOptions {
+  /** Maximum number of physical packages in one combination (default: 5) */
+  maxPackages?: number;
+  /** Maximum number of ranked combinations to return (default: 5) */
+  maxResults?: number;
+}
+
+export interface MultiPackageSelection {
+  combination: PackageCombination;
+  alternatives: PackageCombination[];
+  overfillPercentage: number;
+  underfillPercentage: number;
+  warnings: string[];
+  explanation: string;
+}
+
+interface SearchEntry {
+  /** Packages per size (same order as the searched sizes) */
+  counts: number[];
+  total: number;
+  packageCount: number;
+  distinctCount: number;
+}
+
+const DEFAULT_MAX_PACKAGES = 5;
+const DEFAULT_MAX_RESULTS = 5;
+
+/**
+ * Find ranked package combinations for the required quantity
+ *
+ * Ranking: combinations that cover the requirement come first, ordered by
+ * least overfill, then fewest packages, then fewest distinct NDCs.
+ * Combinations that cannot cover the requirement are ranked by least underfill.
+ * Only the best combination for each total quantity is returned.
+ *
+ * @param packages - Available packages (should be pre-filtered for active status and unit)
+ * @param requiredQuantity - Total quantity needed
+ * @param options - Search limits
+ * @returns Ranked combinations (best first)
+ */
+export function findPackageCombinations(
+  packages: PackageCandidate[],
+  requiredQuantity: number,
+  options: PackageCombinationOptions = {}
+): PackageCombination[] {
+  if (requiredQuantity <= 0) {
+    throw new Error('Required quantity must be positive');
+  }
+
+  const maxPackages = options.maxPackages ?? DEFAULT_MAX_PACKAGES;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+
+  // Packages of the same size are interchangeable for counting, so search over
+  // unique sizes and fill each size from a single NDC (keeps distinct NDCs minimal)
+  const bySize = new Map<number, PackageCandidate>();
+  for (const pkg of packages) {
+    const size = pkg.packageSize.quantity;
+    if (size > 0 && !bySize.has(size)) {
+      bySize.set(size, pkg);
+    }
+  }
+
+  if (bySize.size === 0) {
+    throw new Error('No packages available for selection');
+  }
+
+  const sizes = Array.from(bySize.keys()).sort((a, b) => b - a);
+  const counts: number[] = new Array(sizes.length).fill(0);
+
+  // Best-ranked entries so far, one per total quantity, at most maxResults long;
+  // only these are built into combinations, so memory stays bounded however many
+  // count vectors the search visits
+  const ranked: SearchEntry[] = [];
+
+  const offer = (total: number, packageCount: number, distinctCount: number): void => {
+    const candidate = { counts, total, packageCount, distinctCount };
+    const sameTotal = ranked.findIndex(entry => entry.total === total);
+
+    if (sameTotal >= 0) {
+      if (compareEntries(candidate, ranked[sameTotal], requiredQuantity) >= 0) return;
+      ranked.splice(sameTotal, 1);
+    } else if (
+      ranked.length >= maxResults &&
+      compareEntries(candidate, ranked[ranked.length - 1], requiredQuantity) >= 0
+    ) {
+      return;
+    }
+
+    const position = ranked.findIndex(entry => compareEntries(candidate, entry, requiredQuantity) < 0);
+    ranked.splice(position < 0 ? ranked.length : position, 0, { ...candidate, counts: [...counts] });
+    if (ranked.length > maxResults) {
+      ranked.pop();
+    }
+  };
+
+  // Once every kept entry covers the requirement, no total above the worst of them can rank
+  const overfillBound = (): number =>
+    ranked.length >= maxResults && ranked[ranked.length - 1].total >= requiredQuantity
+      ? ranked[ranked.length - 1].total
+      : Infinity;
+
+  const search = (index: number, total: number, used: number, distinct: number): void => {
+    if (used > 0) {
+      offer(total, used, distinct);
+    }
+
+    // Adding more packages once the requirement is met only adds overfill
+    if (total >= requiredQuantity || used >= maxPackages) {
+      return;
+    }
+
+    // A branch that can no longer cover the requirement only yields underfills,
+    // which rank below the covering combinations already kept
+    if (overfillBound() !== Infinity && total + (maxPackages - used) * sizes[index] < requiredQuantity) {
+      return;
+    }
+
+    for (let i = index; i < sizes.length; i++) {
+      if (total + sizes[i] > overfillBound()) {
+        continue;
+      }
+
+      counts[i]++;
+      search(i, total + sizes[i], used + 1, counts[i] === 1 ? distinct + 1 : distinct);
+      counts[i]--;
+    }
+  };
+
+  search(0, 0, 0, 0);
+
+  return ranked.map(entry => buildCombination(sizes, entry.counts, bySize, requiredQuantity));
+}
+
+/**
+ * Choose the best package combination for the required quantity
+ *
+ * @param packages - Available packages (should be pre-filtered for active status)
+ * @param requiredQuantity - Total quantity needed
+ * @param options - Search limits
+ * @returns Best combination with ranked alternatives and metadata
+ */
+export function chooseBestPackageCombination(
+  packages: PackageCandidate[],
+  requiredQuantity: number,
+  options: PackageCombinationOptions = {}
+): MultiPackageSelection {
+  if (packages.length === 0) {
+    throw new Error('No packages available for selection');
+  }
+
+  const ranked = findPackageCombinations(packages, requiredQuantity, options);
+  const [best, ...alternatives] = ranked;
+  const unit = best.items[0].package.packageSize.unit;
+  const warnings: string[] = [];
+
+  if (best.overfillPercentage > 20) {
+    const overfill = best.totalQuantity - requiredQuantity;
+    warnings.push(
+      `Significant overfill: ${best.overfillPercentage.toFixed(1)}% (${overfill} extra ${unit}). ` +
+      `Patient will have leftover medication. Consider discussing with prescriber.`
+    );
+  }
+
+  if (best.underfillPercentage > 0) {
+    const underfill = requiredQuantity - best.totalQuantity;
+    warnings.push(
+      `No combination of up to ${options.maxPackages ?? DEFAULT_MAX_PACKAGES} packages meets required quantity. ` +
+      `Underfill: ${best.underfillPercentage.toFixed(1)}% (${underfill} ${unit} short). ` +
+      `Patient will need early refill.`
+    );
+  }
+
+  let explanation: string;
+  if (best.fillPrecision === 'exact') {
+    explanation = `Exact match: ${best.description} = ${best.totalQuantity} ${unit} meets requirement perfectly`;
+  } else if (best.fillPrecision === 'overfill') {
+    explanation = `Selected ${best.description} = ${best.totalQuantity} ${unit} ` +
+      `(least overfill combination that meets ${requiredQuantity} ${unit} requirement)`;
+  } else {
+    explanation = `Selected ${best.description} = ${best.totalQuantity} ${unit} ` +
+      `(underfills requirement of ${requiredQuantity} ${unit})`;
+  }
+
+  return {
+    combination: best,
+    alternatives,
+    overfillPercentage: best.overfillPercentage,
+    underfillPercentage: best.underfillPercentage,
+    warnings,
+    explanation,
+  };
+}
+
+/**
+ * Format combination items as "1×100 + 2×30"
+ */
+export function describeCombination(items: PackageCombinationItem[]): string {
+  return items
+    .map(item => `${item.count}×${item.package.packageSize.quantity}`)
+    .join(' + ');
+}
+
+/**
+ * Build a combination from package counts (e.g. a single-package selection)
+ *
+ * @param items - Packages and counts, largest first
+ * @param requiredQuantity - Total quantity needed
+ */
+export function buildPackageCombination(
+  items: PackageCombinationItem[],
+  requiredQuantity: number
+): PackageCombination {
+  const totalQuantity = items.reduce((total, item) => total + item.package.packageSize.quantity * item.count, 0);
+  const packageCount = items.reduce((total, item) => total + item.count, 0);
+
+  const overfill = Math.max(0, totalQuantity - requiredQuantity);
+  const underfill = Math.max(0, requiredQuantity - totalQuantity);
+
+  return {
+    items,
+    totalQuantity,
+    packageCount,
+    distinctNdcCount: new Set(items.map(item => item.package.ndc)).size,
+    overfillPercentage: (overfill / requiredQuantity) * 100,
+    underfillPercentage: (underfill / requiredQuantity) * 100,
+    fillPrecision: overfill > 0 ? 'overfill' : underfill > 0 ? 'underfill' : 'exact',
+    description: describeCombination(items),
+  };
+}
+
+function buildCombination(
+  sizes: number[],
+  counts: number[],
+  bySize: Map<number, PackageCandidate>,
+  requiredQuantity: number
+): PackageCombination {
+  const items: PackageCombinationItem[] = sizes
+    .map((size, i) => ({ package: bySize.get(size)!, count: counts[i] }))
+    .filter(item => item.count > 0);
+
+  return buildPackageCombination(items, requiredQuantity);
+}
+
+/**
+ * Combination ranking on package counts alone (one NDC per size, so distinct
+ * sizes are distinct NDCs); overfill and underfill are relative to the same
+ * requirement, so absolute amounts order like percentages
+ */
+function compareEntries(a: SearchEntry, b: SearchEntry, requiredQuantity: number): number {
+  const aCovers = a.total >= requiredQuantity;
+  const bCovers = b.total >= requiredQuantity;
+
+  if (aCovers !== bCovers) {
+    return aCovers ? -1 : 1;
+  }
+
+  return (
+    Math.max(0, a.total - requiredQuantity) - Math.max(0, b.total - requiredQuantity) ||
+    Math.max(0, requiredQuantity - a.total) - Math.max(0, requiredQuantity - b.total) ||
+    a.packageCount - b.packageCount ||
+    a.distinctCount - b.distinctCount
+  );
+}
@@ -3,16 +3,35 @@
  * Implements MVP-safe package selection logic
  */
 
+import { describeWholePackageReason, type WholePackageReason } from './wholePackage';
+import {
+  isLabelerBlocked,
+  sortByLabelerPreference,
+  type LabelerPreferences,
+} from './labelers';
+import {
+  describeStockStatus,
+  getStockStatus,
+  sealedPackagesOnHand,
+  type InventoryLookup,
+} from './inventory';
+
 export interface PackageCandidate {
   ndc: string;
   packageSize: {
+    /** Total quantity in the innermost billing unit (e.g. 30 for 3 blister packs × 10 tablets) */
     quantity: number;
     unit: string;
+    /** Container chain, outermost first (e.g. ["CARTON", "BLISTER PACK"]) */
+    containers?: string[];
   };
   dosageForm: string;
   marketingStatus: string;
   isActive: boolean;
   labelerName?: string;
+  /** Package cannot be split (inhaler, pen, kit, ...); dispensed in whole packages */
+  mustDispenseWhole?: boolean;
+  wholePackageReason?: WholePackageReason;
 }
 
 export interface PackageSelection {
@@ -21,6 +40,19 @@ export interface PackageSelection {
   underfillPercentage: number;
   warnings: string[];
   explanation: string;
+  /** Whole packages dispensed (unbreakable packages only) */
+  packageCount?: number;
+  /** Quantity dispensed after rounding up to whole packages (unbreakable packages only) */
+  dispenseQuantity?: number;
+  /** Counted from an opened stock bottle rather than dispensed as sealed packages */
+  fromOpenedStock?: boolean;
+}
+
+export interface PackageSelectionOptions {
+  /** Preferred labelers break ties between equal sizes; blocked labelers are never selected */
+  labelerPreferences?: LabelerPreferences;
+  /** On-hand stock: in-stock NDCs and opened stock bottles are preferred */
+  inventory?: InventoryLookup;
 }
 
 /**
@@ -29,20 +61,32 @@ export interface PackageSelection {
  * 
  * @param packages - Array of available packages (should be pre-filtered for active status)
  * @param requiredQuantity - Total quantity needed
+ * @param options - Labeler preference and block lists, on-hand inventory
  * @returns Best package selection with metadata
  */
 export function chooseBestPackage(
   packages: PackageCandidate[],
-  requiredQuantity: number
+  requiredQuantity: number,
+  options: PackageSelectionOptions = {}
 ): PackageSelection {
   const warnings: string[] = [];
+  const { labelerPreferences, inventory } = options;
   
   if (packages.length === 0) {
     throw new Error('No packages available for selection');
   }
+
+  const stocked = packages.filter(pkg => !isLabelerBlocked(pkg.labelerName, labelerPreferences));
+  if (stocked.length === 0) {
+    throw new Error('No packages available for selection: all labelers are blocked');
+  }
+
+  if (inventory) {
+    return chooseFromStock(stocked, requiredQuantity, labelerPreferences, inventory);
+  }
   
-  // Sort packages by size ascending
-  const sortedPackages = [...packages].sort(
+  // Sort packages by size ascending, preferred labelers first within a size (stable sort)
+  const sortedPackages = sortByLabelerPreference(stocked, labelerPreferences).sort(
     (a, b) => a.packageSize.quantity - b.packageSize.quantity
   );
   
@@ -52,6 +96,10 @@ export function chooseBestPackage(
   );
   
   if (exactMatch) {
+    if (exactMatch.mustDispenseWhole) {
+      return selectWholePackages(exactMatch, requiredQuantity);
+    }
+
     return {
       selected: exactMatch,
       overfillPercentage: 0,
@@ -67,6 +115,10 @@ export function chooseBestPackage(
   );
   
   if (adequatePackage) {
+    if (adequatePackage.mustDispenseWhole) {
+      return selectWholePackages(adequatePackage, requiredQuantity);
+    }
+
     const overfill = adequatePackage.packageSize.quantity - requiredQuantity;
     const overfillPct = (overfill / requiredQuantity) * 100;
     
@@ -87,8 +139,20 @@ export function chooseBestPackage(
     };
   }
   
-  // Strategy 3: No package large enough - select largest available
-  const largestPackage = sortedPackages[sortedPackages.length - 1];
+  // Strategy 3: No package large enough - select largest available (first of that size)
+  const largestSize = sortedPackages[sortedPackages.length - 1].packageSize.quantity;
+  const largestPackage = sortedPackages.find(pkg => pkg.packageSize.quantity === largestSize)!;
+
+  // Unbreakable packages: several whole packages, choosing the size with the least total
+  if (largestPackage.mustDispenseWhole) {
+    const wholeOptions = sortedPackages
+      .filter(pkg => pkg.mustDispenseWhole)
+      .map(pkg => selectWholePackages(pkg, requiredQuantity))
+      .sort((a, b) =>
+        a.dispenseQuantity! - b.dispenseQuantity! || a.packageCount! - b.packageCount!
+      );
+    return wholeOptions[0];
+  }
   const underfill = requiredQuantity - largestPackage.packageSize.quantity;
   const underfillPct = (underfill / requiredQuantity) * 100;
   
@@ -108,6 +172,137 @@ export function chooseBestPackage(
   };
 }
 
+/**
+ * Choose the best package that is actually on the shelf
+ *
+ * Order: the best package on paper if it fits exactly and is in stock; counting
+ * the exact quantity from an opened stock bottle (breakable packages only); the
+ * best package on paper if in stock; the best covering package among in-stock
+ * NDCs, then among NDCs not tracked in inventory. Otherwise the best package on
+ * paper, with a warning that it must be ordered.
+ */
+function chooseFromStock(
+  packages: PackageCandidate[],
+  requiredQuantity: number,
+  labelerPreferences: LabelerPreferences | undefined,
+  inventory: InventoryLookup
+): PackageSelection {
+  const onPaper = chooseBestPackage(packages, requiredQuantity, { labelerPreferences });
+  const statusOf = (selection: PackageSelection) => getStockStatus(
+    inventory.get(selection.selected.ndc),
+    selection.selected.packageSize.quantity,
+    selection.packageCount ?? 1
+  );
+  const onPaperStatus = statusOf(onPaper);
+  const exact = onPaper.overfillPercentage === 0 && onPaper.underfillPercentage === 0;
+
+  if (exact && onPaperStatus === 'in_stock') {
+    return onPaper;
+  }
+
+  // Count from an opened bottle; the one with least left is used up first
+  const remaining = (pkg: PackageCandidate) => inventory.get(pkg.ndc)?.openedRemaining ?? 0;
+  const openedBottle = sortByLabelerPreference(packages, labelerPreferences)
+    .filter(pkg => !pkg.mustDispenseWhole && remaining(pkg) >= requiredQuantity)
+    .sort((a, b) => remaining(a) - remaining(b))[0];
+
+  if (openedBottle) {
+    const { unit } = openedBottle.packageSize;
+    return {
+      selected: openedBottle,
+      overfillPercentage: 0,
+      underfillPercentage: 0,
+      warnings: [],
+      explanation: `Count ${requiredQuantity} ${unit} from opened stock bottle of NDC ${openedBottle.ndc} ` +
+        `(${remaining(openedBottle)} ${unit} remaining)`,
+      dispenseQuantity: requiredQuantity,
+      fromOpenedStock: true,
+    };
+  }
+
+  if (onPaperStatus === 'in_stock') {
+    return onPaper;
+  }
+
+  const tiers = [
+    packages.filter(pkg => sealedPackagesOnHand(inventory.get(pkg.ndc), pkg.packageSize.quantity) > 0),
+    packages.filter(pkg => !inventory.has(pkg.ndc)),
+  ];
+
+  for (const tier of tiers) {
+    if (tier.length === 0) continue;
+
+    const selection = chooseBestPackage(tier, requiredQuantity, { labelerPreferences });
+    if (selection.underfillPercentage > 0) continue;
+    if (selection.selected.ndc === onPaper.selected.ndc) return selection;
+
+    const status = statusOf(selection);
+    const warnings = [
+      `Best fit NDC ${onPaper.selected.ndc} (${onPaper.selected.packageSize.quantity} ` +
+      `${onPaper.selected.packageSize.unit}) is ${describeStockStatus(onPaperStatus)}; ` +
+      `selected NDC ${selection.selected.ndc} instead.`,
+      ...selection.warnings,
+    ];
+    if (status === 'insufficient') {
+      warnings.push(
+        `Only ${sealedPackagesOnHand(inventory.get(selection.selected.ndc), selection.selected.packageSize.quantity)} ` +
+        `of ${selection.packageCount ?? 1} package(s) of NDC ${selection.selected.ndc} on hand.`
+      );
+    }
+
+    return { ...selection, warnings };
+  }
+
+  if (onPaperStatus === 'unknown') {
+    return onPaper;
+  }
+
+  return {
+    ...onPaper,
+    warnings: [
+      ...onPaper.warnings,
+      `NDC ${onPaper.selected.ndc} is ${describeStockStatus(onPaperStatus)} and no in-stock package ` +
+      `covers ${requiredQuantity} ${onPaper.selected.packageSize.unit}. Order stock before dispensing.`,
+    ],
+  };
+}
+
+/**
+ * Round up to whole packages of an unbreakable package
+ */
+function selectWholePackages(pkg: PackageCandidate, requiredQuantity: number): PackageSelection {
+  const { quantity, unit } = pkg.packageSize;
+  const packageCount = Math.max(1, Math.ceil(requiredQuantity / quantity - 1e-9));
+  const dispenseQuantity = parseFloat((packageCount * quantity).toFixed(4));
+  const overfill = dispenseQuantity - requiredQuantity;
+  const overfillPct = (overfill / requiredQuantity) * 100;
+  const warnings: string[] = [];
+
+  if (overfillPct > 20) {
+    warnings.push(
+      `Significant overfill: ${overfillPct.toFixed(1)}% (${parseFloat(overfill.toFixed(4))} extra ${unit}). ` +
+      `Package cannot be split, so whole packages are dispensed.`
+    );
+  }
+
+  const reason = describeWholePackageReason(pkg.wholePackageReason);
+  const explanation = dispenseQuantity === requiredQuantity
+    ? `Exact match: ${packageCount} × ${quantity} ${unit} package${packageCount === 1 ? '' : 's'} ` +
+      `meet${packageCount === 1 ? 's' : ''} requirement perfectly`
+    : `${reason}: ${requiredQuantity} ${unit} calculated, rounded up to ${packageCount} whole ` +
+      `package${packageCount === 1 ? '' : 's'} of ${quantity} ${unit} (${dispenseQuantity} ${unit} dispensed)`;
+
+  return {
+    selected: pkg,
+    overfillPercentage: overfillPct,
+    underfillPercentage: 0,
+    warnings,
+    explanation,
+    packageCount,
+    dispenseQuantity,
+  };
+}
+
 /**
  * Calculate overfill/underfill percentages for a single package
  */
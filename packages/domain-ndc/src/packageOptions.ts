@@ -0,0 +1,174 @@
+/**
+ * Ranked Package Options
+ * Next-best choices alongside the recommended packages: the exact-count,
+ * least-waste and fewest-packages options, plus the best of the rest by score
+ */
+
+import type { PackageCandidate } from './packageMatch';
+import {
+  findPackageCombinations,
+  type PackageCombination,
+  type PackageCombinationOptions,
+} from './packageCombination';
+
+export type PackageOptionKind = 'exact_count' | 'least_waste' | 'fewest_packages';
+
+export interface PackageOptionScore {
+  /** Penalty for overfill (1 point per % overfill) */
+  overfill: number;
+  /** Penalty for underfill (10 points per % underfill) */
+  underfill: number;
+  /** Penalty for each package beyond the first (5 points each) */
+  packageCount: number;
+  /** Sum of the components (lower is better) */
+  total: number;
+}
+
+export interface PackageOption {
+  combination: PackageCombination;
+  /** Criteria this option is the best choice for */
+  kinds: PackageOptionKind[];
+  score: PackageOptionScore;
+  /** The recommended option */
+  primary: boolean;
+}
+
+export interface PackageOptionsOptions extends PackageCombinationOptions {
+  /** Options returned, including the primary (default: 4) */
+  maxOptions?: number;
+  /** Recommended selection; listed first and marked primary */
+  primary?: PackageCombination;
+}
+
+const SCORE_WEIGHTS = {
+  overfillPerPercent: 1,
+  underfillPerPercent: 10,
+  perExtraPackage: 5,
+} as const;
+
+/** Combinations considered before ranking */
+const MAX_COMBINATIONS = 50;
+const DEFAULT_MAX_OPTIONS = 4;
+
+/**
+ * Score a package combination (lower is better)
+ * Underfill costs the patient an early refill, so it weighs more than overfill.
+ */
+export function scorePackageCombination(combination: PackageCombination): PackageOptionScore {
+  const overfill = round(combination.overfillPercentage * SCORE_WEIGHTS.overfillPerPercent);
+  const underfill = round(combination.underfillPercentage * SCORE_WEIGHTS.underfillPerPercent);
+  const packageCount = Math.max(0, combination.packageCount - 1) * SCORE_WEIGHTS.perExtraPackage;
+
+  return {
+    overfill,
+    underfill,
+    packageCount,
+    total: round(overfill + underfill + packageCount),
+  };
+}
+
+/**
+ * Rank package options for the required quantity
+ *
+ * The primary selection (if given) comes first. The exact-count, least-waste
+ * and fewest-packages options follow, then the best remaining options by score,
+ * up to `maxOptions`. Only options that cover the requirement are considered
+ * unless none does.
+ *
+ * @param packages - Available packages (should be pre-filtered for active status and unit)
+ * @param requiredQuantity - Total quantity needed
+ * @param options - Search limits, number of options and the primary selection
+ * @returns Options, primary first, then by score
+ */
+export function rankPackageOptions(
+  packages: PackageCandidate[],
+  requiredQuantity: number,
+  options: PackageOptionsOptions = {}
+): PackageOption[] {
+  const combinations = findPackageCombinations(packages, requiredQuantity, {
+    ...options,
+    maxResults: MAX_COMBINATIONS,
+  });
+  const covering = combinations.filter(combination => combination.underfillPercentage === 0);
+  const pool = [
+    ...(options.primary ? [options.primary] : []),
+    ...(covering.length > 0 ? covering : combinations),
+  ];
+
+  const scored = pool.map(combination => ({ combination, score: scorePackageCombination(combination) }));
+  const byScore = [...scored].sort((a, b) => a.score.total - b.score.total);
+
+  const kinds = new Map<PackageOptionKind, PackageCombination | undefined>([
+    ['exact_count', bestBy(pool.filter(c => c.fillPrecision === 'exact'), c => c.packageCount)],
+    ['least_waste', bestBy(pool, c => c.overfillPercentage + c.underfillPercentage, c => c.packageCount)],
+    ['fewest_packages', bestBy(pool, c => c.packageCount, c => c.overfillPercentage + c.underfillPercentage)],
+  ]);
+
+  const chosen: typeof scored = [];
+  const choose = (entry: (typeof scored)[number] | undefined) => {
+    if (entry && !chosen.some(existing => existing.combination.description === entry.combination.description)) {
+      chosen.push(entry);
+    }
+  };
+
+  if (options.primary) choose(scored[0]);
+  byScore
+    .filter(entry => Array.from(kinds.values()).includes(entry.combination))
+    .forEach(choose);
+  byScore.forEach(choose);
+
+  return chosen.slice(0, options.maxOptions ?? DEFAULT_MAX_OPTIONS).map((entry, index) => ({
+    combination: entry.combination,
+    kinds: Array.from(kinds.entries())
+      .filter(([, best]) => best?.description === entry.combination.description)
+      .map(([kind]) => kind),
+    score: entry.score,
+    primary: Boolean(options.primary) && index === 0,
+  }));
+}
+
+/**
+ * Limit candidates to a number of distinct package sizes before ranking options
+ * Sizes of the `keep` packages (e.g., the primary selection) stay; the remaining
+ * slots go to the sizes closest to the required quantity.
+ *
+ * @param packages - Available packages
+ * @param requiredQuantity - Total quantity needed
+ * @param maxSizes - Distinct package sizes kept
+ * @param keep - Packages whose sizes are always kept
+ * @returns Packages of the kept sizes, in their original order
+ */
+export function limitPackageSizes(
+  packages: PackageCandidate[],
+  requiredQuantity: number,
+  maxSizes: number,
+  keep: PackageCandidate[] = []
+): PackageCandidate[] {
+  const kept = new Set(keep.map(pkg => pkg.packageSize.quantity));
+  const others = Array.from(new Set(packages.map(pkg => pkg.packageSize.quantity)))
+    .filter(size => !kept.has(size))
+    .sort((a, b) => Math.abs(a - requiredQuantity) - Math.abs(b - requiredQuantity));
+
+  others.slice(0, Math.max(0, maxSizes - kept.size)).forEach(size => kept.add(size));
+
+  return packages.filter(pkg => kept.has(pkg.packageSize.quantity));
+}
+
+/**
+ * First combination with the lowest key (then tie-breaker)
+ */
+function bestBy(
+  combinations: PackageCombination[],
+  key: (combination: PackageCombination) => number,
+  tieBreak: (combination: PackageCombination) => number = () => 0
+): PackageCombination | undefined {
+  return combinations.reduce<PackageCombination | undefined>((best, combination) => {
+    if (!best) return combination;
+    const order = key(combination) - key(best) || tieBreak(combination) - tieBreak(best);
+    return order < 0 ? combination : best;
+  }, undefined);
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
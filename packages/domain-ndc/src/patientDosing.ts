@@ -0,0 +1,165 @@
+/**
+ * Weight- and BSA-Based Dosing
+ * Converts pediatric orders written per kg or per m² into an absolute dose
+ * per administration for the quantity calculation
+ *
+ * Patient measurements are PHI: they are used here and never returned,
+ * logged or persisted by this module.
+ */
+
+/**
+ * Patient measurements for weight- or BSA-based orders
+ */
+export interface PatientMeasurements {
+  weightKg?: number;
+  heightCm?: number;
+  ageYears?: number;
+}
+
+export type DoseBasis = 'kg' | 'm2';
+
+/**
+ * Order written relative to body size (e.g. 15 mg/kg/dose, 45 mg/kg/day divided q8h)
+ */
+export interface WeightBasedOrder {
+  /** Amount per kg or per m² (e.g. 15 for 15 mg/kg) */
+  amount: number;
+  basis: DoseBasis;
+  /** Whether the amount is per dose or per day divided into doses (default 'dose') */
+  per?: 'dose' | 'day';
+  /** Dose unit (default 'mg') */
+  unit?: string;
+  /** Round the dose to this increment (default depends on dose size) */
+  roundTo?: number;
+  /** Maximum absolute dose per administration */
+  maxDose?: number;
+}
+
+export interface WeightBasedDoseResult {
+  /** Absolute dose per administration after rounding and capping */
+  dose: number;
+  unit: string;
+  /** Dose before rounding and capping */
+  calculatedDose: number;
+  basis: DoseBasis;
+  roundTo: number;
+  /** Whether the per-dose maximum was applied */
+  capped: boolean;
+  warnings: string[];
+  calculation: string;
+}
+
+/** Rounding changes above this fraction of the calculated dose are flagged */
+const ROUNDING_WARNING_THRESHOLD = 0.1;
+
+/**
+ * Body surface area (m²) by the Mosteller formula: √(height cm × weight kg / 3600)
+ */
+export function computeBodySurfaceArea(weightKg: number, heightCm: number): number {
+  if (weightKg <= 0 || heightCm <= 0) {
+    throw new Error('Weight and height must be positive to compute body surface area');
+  }
+
+  return Math.sqrt((heightCm * weightKg) / 3600);
+}
+
+/**
+ * Default rounding increment for a dose: whole 5s from 100, whole units from 10,
+ * tenths below that
+ */
+export function defaultDoseIncrement(dose: number): number {
+  if (dose >= 100) return 5;
+  if (dose >= 10) return 1;
+  return 0.1;
+}
+
+/**
+ * Convert a weight- or BSA-based order into an absolute dose per administration
+ *
+ * Steps: amount × kg (or m²), divided by doses per day for per-day orders,
+ * rounded to the nearest increment, then capped at the per-dose maximum.
+ *
+ * @param order - Order per kg or per m²
+ * @param patient - Patient measurements (weight; height for m² orders)
+ * @param frequency - Administrations per day (divides per-day orders)
+ * @returns Absolute dose with rounding and cap details
+ */
+export function computeWeightBasedDose(
+  order: WeightBasedOrder,
+  patient: PatientMeasurements,
+  frequency: number
+): WeightBasedDoseResult {
+  if (order.amount <= 0) {
+    throw new Error('Weight-based dose amount must be positive');
+  }
+  if (frequency <= 0) {
+    throw new Error('Frequency must be positive');
+  }
+  if (!patient.weightKg || patient.weightKg <= 0) {
+    throw new Error('Patient weight is required for weight-based dosing');
+  }
+  if (order.basis === 'm2' && (!patient.heightCm || patient.heightCm <= 0)) {
+    throw new Error('Patient height is required for BSA-based dosing');
+  }
+
+  const unit = order.unit ?? 'mg';
+  const per = order.per ?? 'dose';
+  const size = order.basis === 'kg'
+    ? patient.weightKg
+    : computeBodySurfaceArea(patient.weightKg, patient.heightCm!);
+  const basisLabel = order.basis === 'kg' ? 'kg' : 'm²';
+  const warnings: string[] = [];
+
+  const dailyOrPerDose = order.amount * size;
+  const calculatedDose = per === 'day' ? dailyOrPerDose / frequency : dailyOrPerDose;
+
+  const roundTo = order.roundTo ?? defaultDoseIncrement(calculatedDose);
+  let dose = parseFloat((Math.round(calculatedDose / roundTo) * roundTo).toFixed(4));
+  if (dose <= 0) {
+    dose = roundTo;
+  }
+
+  if (Math.abs(dose - calculatedDose) / calculatedDose > ROUNDING_WARNING_THRESHOLD) {
+    warnings.push(
+      `Rounding to ${roundTo} ${unit} changes the dose by more than ` +
+      `${ROUNDING_WARNING_THRESHOLD * 100}% (${round(calculatedDose)} → ${dose} ${unit}).`
+    );
+  }
+
+  let capped = false;
+  if (order.maxDose !== undefined && dose > order.maxDose) {
+    warnings.push(
+      `Calculated dose ${dose} ${unit} exceeds the per-dose maximum; capped at ${order.maxDose} ${unit}.`
+    );
+    dose = order.maxDose;
+    capped = true;
+  }
+
+  if (patient.ageYears !== undefined && patient.ageYears >= 18 && order.maxDose === undefined) {
+    warnings.push('Adult patient with a weight-based order and no per-dose maximum. Verify against the adult dose.');
+  }
+
+  // Size is deliberately left out of the text: explanations are returned and may be stored
+  const perText = per === 'day'
+    ? `${order.amount} ${unit}/${basisLabel}/day ÷ ${parseFloat(frequency.toFixed(4))} doses/day`
+    : `${order.amount} ${unit}/${basisLabel}/dose`;
+  const calculation =
+    `${perText} = ${round(calculatedDose)} ${unit}, rounded to ${roundTo} ${unit}` +
+    (capped ? `, capped at ${order.maxDose} ${unit}` : '') +
+    ` = ${dose} ${unit} per dose`;
+
+  return {
+    dose,
+    unit,
+    calculatedDose,
+    basis: order.basis,
+    roundTo,
+    capped,
+    warnings,
+    calculation,
+  };
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
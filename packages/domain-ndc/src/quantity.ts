@@ -7,20 +7,86 @@ export interface SIGInput {
   dose: number;
   frequency: number;
   unit: string;
+  /** Taken as needed (PRN); quantity is based on maximum allowed use */
+  asNeeded?: boolean;
+  /** Dose range (e.g. "1-2 tablets"); PRN quantity uses maxDose */
+  minDose?: number;
+  maxDose?: number;
+  /** Minimum hours between doses (e.g. 4 for "q4-6h"); overrides frequency for PRN */
+  intervalHours?: number;
+  /** Maximum quantity per day in SIG units (e.g. 8 for "max 8/day") */
+  maxPerDay?: number;
+  /** Non-daily schedule; when set, frequency is administrations per dosing day */
+  schedule?: DosingSchedule;
+  /** Sites dosed per administration (e.g. 2 for both eyes or each nostril); dose is per site */
+  sites?: number;
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/**
+ * Non-daily dosing schedule
+ * - interval: every N days (QOD = 2, weekly = 7, monthly = 30)
+ * - intervalHours: every N hours for long-acting forms (72 h patch, twice weekly = 84 h)
+ * - weekdays: specific days of the week (startDay = weekday of the first day of supply)
+ * - cycle: N days on, M days off (e.g. 21 on / 7 off)
+ */
+export type DosingSchedule =
+  | { type: 'interval'; everyDays: number }
+  | { type: 'intervalHours'; everyHours: number }
+  | { type: 'weekdays'; days: Weekday[]; startDay?: Weekday }
+  | { type: 'cycle'; daysOn: number; daysOff: number };
+
+/**
+ * One phase of a tapering or titration schedule
+ * (e.g. "1 tab daily x7d, then 2 tabs daily x7d")
+ */
+export interface SIGPhase extends SIGInput {
+  durationDays: number;
 }
 
 export interface DrugStrength {
   strength?: string;
   dosageForm?: string;
+  /** Drops per mL for drop SIGs (default 20) */
+  dropsPerMl?: number;
 }
 
+export const DEFAULT_DROPS_PER_ML = 20;
+
 export interface QuantityResult {
   totalQuantity: number;
   warnings: string[];
+  /** Number of administrations within the days supply */
+  administrationCount?: number;
   details?: {
-    method: 'direct' | 'strength_conversion' | 'concentration_conversion';
+    method: 'direct' | 'strength_conversion' | 'concentration_conversion' | 'injectable_conversion' | 'actuation_conversion' | 'drops_conversion' | 'ftu_conversion' | 'phased';
     calculation: string;
   };
+  prn?: PRNDetails;
+}
+
+/**
+ * How the maximum allowed use of a PRN prescription was derived
+ */
+export interface PRNDetails {
+  dosePerAdministration: number;
+  administrationsPerDay: number;
+  maxDailyQuantity: number;
+  cappedByMaxPerDay: boolean;
+  calculation: string;
+}
+
+export interface PhaseQuantity {
+  phase: number;
+  durationDays: number;
+  quantity: number;
+  calculation: string;
+}
+
+export interface PhasedQuantityResult extends QuantityResult {
+  phases: PhaseQuantity[];
+  totalDays: number;
 }
 
 /**
@@ -30,12 +96,12 @@ export interface QuantityResult {
 function parseStrength(strengthStr: string): { value: number; unit: string; perUnit?: string } | null {
   if (!strengthStr) return null;
   
-  // Handle "X MG/Y ML" format (concentration)
-  const concentrationMatch = strengthStr.match(/(\d+\.?\d*)\s*(\w+)\s*\/\s*(\d+\.?\d*)\s*(\w+)/i);
+  // Handle "X MG/Y ML" and "X MG/ML" format (concentration)
+  const concentrationMatch = strengthStr.match(/(\d+\.?\d*)\s*([A-Z]+)\s*\/\s*(\d+\.?\d*)?\s*([A-Z]+)/i);
   if (concentrationMatch) {
     const [, value, unit, perValue, perUnit] = concentrationMatch;
     return {
-      value: parseFloat(value) / parseFloat(perValue),
+      value: parseFloat(value) / (perValue ? parseFloat(perValue) : 1),
       unit: unit.toUpperCase(),
       perUnit: perUnit.toUpperCase(),
     };
@@ -76,11 +142,124 @@ function normalizeUnit(unit: string): string {
     'mg': 'mg',
     'milligram': 'mg',
     'milligrams': 'mg',
+    'unit': 'unit',
+    'units': 'unit',
+    'iu': 'unit',
+    'puff': 'puff',
+    'puffs': 'puff',
+    'spray': 'spray',
+    'sprays': 'spray',
+    'actuation': 'actuation',
+    'actuations': 'actuation',
+    'drop': 'drop',
+    'drops': 'drop',
+    'gtt': 'drop',
+    'gtts': 'drop',
+    'ftu': 'ftu',
+    'fingertip unit': 'ftu',
+    'fingertip units': 'ftu',
+    'patch': 'patch',
+    'patches': 'patch',
+    'ring': 'ring',
+    'rings': 'ring',
+    'injection': 'injection',
+    'injections': 'injection',
+    'implant': 'implant',
+    'implants': 'implant',
   };
   
   return unitMap[normalized] || normalized;
 }
 
+/** Units counted directly rather than converted via strength */
+const COUNTED_UNITS = ['unit', 'puff', 'spray', 'actuation', 'ftu', 'patch', 'ring', 'injection', 'implant'];
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Count dosing days for a non-daily schedule within the days supply
+ * Dosing starts on day 1 of the supply
+ */
+function countDosingDays(schedule: DosingSchedule, daysSupply: number): { dosingDays: number; warnings: string[] } {
+  const warnings: string[] = [];
+
+  switch (schedule.type) {
+    case 'interval':
+      if (schedule.everyDays <= 0) {
+        throw new Error('Schedule interval must be positive');
+      }
+      return { dosingDays: Math.ceil(daysSupply / schedule.everyDays), warnings };
+
+    case 'intervalHours':
+      if (schedule.everyHours <= 0) {
+        throw new Error('Schedule interval must be positive');
+      }
+      // First application on day 1, then one per interval within the supply
+      return { dosingDays: Math.ceil((daysSupply * 24) / schedule.everyHours - 1e-9), warnings };
+
+    case 'cycle': {
+      const cycleLength = schedule.daysOn + schedule.daysOff;
+      if (schedule.daysOn <= 0 || cycleLength <= 0) {
+        throw new Error('Schedule cycle must have at least one day on');
+      }
+      const fullCycles = Math.floor(daysSupply / cycleLength);
+      const remainder = daysSupply % cycleLength;
+      return { dosingDays: fullCycles * schedule.daysOn + Math.min(remainder, schedule.daysOn), warnings };
+    }
+
+    case 'weekdays': {
+      const days = new Set(schedule.days);
+      if (days.size === 0) {
+        throw new Error('Schedule must include at least one weekday');
+      }
+
+      const countFrom = (startIndex: number): number => {
+        let count = 0;
+        for (let day = 0; day < daysSupply; day++) {
+          if (days.has(WEEKDAYS[(startIndex + day) % 7])) count++;
+        }
+        return count;
+      };
+
+      if (schedule.startDay) {
+        return { dosingDays: countFrom(WEEKDAYS.indexOf(schedule.startDay)), warnings };
+      }
+
+      // Unknown start day: use the worst case so the supply is never short
+      const counts = WEEKDAYS.map((_, index) => countFrom(index));
+      const dosingDays = Math.max(...counts);
+      if (Math.min(...counts) !== dosingDays) {
+        warnings.push(
+          `Start day not specified. Using ${dosingDays} dosing days (maximum for any start day; ` +
+          `minimum is ${Math.min(...counts)}).`
+        );
+      }
+      return { dosingDays, warnings };
+    }
+  }
+}
+
+/**
+ * Count administrations within the days supply for a non-daily schedule
+ * @param schedule - Dosing schedule
+ * @param frequency - Administrations per dosing day
+ * @param daysSupply - Number of days supply
+ * @returns Administration count with any warnings
+ */
+export function countAdministrations(
+  schedule: DosingSchedule,
+  frequency: number,
+  daysSupply: number
+): { administrations: number; dosingDays: number; warnings: string[] } {
+  const { dosingDays, warnings } = countDosingDays(schedule, daysSupply);
+
+  return {
+    administrations: dosingDays * frequency,
+    dosingDays,
+    warnings,
+  };
+}
+
 /**
  * Compute total quantity needed for prescription
  * @param sig - Prescription SIG (dose, frequency, unit)
@@ -93,28 +272,50 @@ export function computeTotalQuantity(
   drugStrength: DrugStrength,
   daysSupply: number
 ): QuantityResult {
+  if (sig.sites && sig.sites > 1) {
+    return computeMultiSiteQuantity(sig, drugStrength, daysSupply);
+  }
+
+  if (sig.asNeeded) {
+    return computeAsNeededQuantity(sig, drugStrength, daysSupply);
+  }
+
   const warnings: string[] = [];
+
+  // Daily SIGs take frequency × days; non-daily schedules count actual dosing days
+  let administrations = sig.frequency * daysSupply;
+  let countText = `${sig.frequency} × ${daysSupply}`;
+
+  if (sig.schedule) {
+    const count = countAdministrations(sig.schedule, sig.frequency, daysSupply);
+    administrations = count.administrations;
+    countText = sig.schedule.type === 'intervalHours'
+      ? `${administrations} administrations (every ${sig.schedule.everyHours} h over ${daysSupply} days)`
+      : `${administrations} administrations`;
+    warnings.push(...count.warnings);
+  }
   
   const sigUnit = normalizeUnit(sig.unit);
   const strength = parseStrength(drugStrength.strength || '');
   
   // Case 1: Direct calculation (tablet/capsule units)
   if (sigUnit === 'tablet' || sigUnit === 'capsule') {
-    const totalQuantity = sig.dose * sig.frequency * daysSupply;
+    const totalQuantity = sig.dose * administrations;
     
     return {
       totalQuantity,
       warnings,
+      administrationCount: administrations,
       details: {
         method: 'direct',
-        calculation: `${sig.dose} × ${sig.frequency} × ${daysSupply} = ${totalQuantity} ${sig.unit}`,
+        calculation: `${sig.dose} × ${countText} = ${totalQuantity} ${sig.unit}`,
       },
     };
   }
   
   // Case 2: Liquid (mL)
   if (sigUnit === 'ml') {
-    const totalQuantity = sig.dose * sig.frequency * daysSupply;
+    const totalQuantity = sig.dose * administrations;
     
     if (!strength) {
       warnings.push('Drug strength not available. Calculated volume only.');
@@ -123,19 +324,54 @@ export function computeTotalQuantity(
     return {
       totalQuantity,
       warnings,
+      administrationCount: administrations,
       details: {
         method: 'direct',
-        calculation: `${sig.dose} mL × ${sig.frequency} × ${daysSupply} = ${totalQuantity} mL`,
+        calculation: `${sig.dose} mL × ${countText} = ${totalQuantity} mL`,
+      },
+    };
+  }
+  
+  // Case 2b: Counted units (insulin units, puffs, sprays, fingertip units, patches, rings,
+  // depot injections); devices and grams are computed by computeInjectableQuantity /
+  // computeActuationQuantity / computeTopicalQuantity
+  if (COUNTED_UNITS.includes(sigUnit)) {
+    const totalQuantity = sig.dose * administrations;
+
+    return {
+      totalQuantity,
+      warnings,
+      administrationCount: administrations,
+      details: {
+        method: 'direct',
+        calculation: `${sig.dose} ${sig.unit} × ${countText} = ${totalQuantity} ${sig.unit}`,
+      },
+    };
+  }
+  
+  // Case 2c: Drops (ophthalmic/otic) - converted to mL for bottle selection
+  if (sigUnit === 'drop') {
+    const dropsPerMl = drugStrength.dropsPerMl ?? DEFAULT_DROPS_PER_ML;
+    const totalDrops = sig.dose * administrations;
+    const totalML = Math.round((totalDrops / dropsPerMl) * 100) / 100;
+
+    return {
+      totalQuantity: totalML,
+      warnings,
+      administrationCount: administrations,
+      details: {
+        method: 'drops_conversion',
+        calculation: `${sig.dose} drops × ${countText} = ${totalDrops} drops ÷ ${dropsPerMl} drops/mL = ${totalML} mL`,
       },
     };
   }
   
   // Case 3: mg dosing with tablet/capsule form
   if (sigUnit === 'mg' && strength) {
-    if (strength.unit === 'MG') {
+    if (strength.unit === 'MG' && !strength.perUnit) {
       // Calculate tablets needed
       const tabletsPerDose = sig.dose / strength.value;
-      const totalTablets = tabletsPerDose * sig.frequency * daysSupply;
+      const totalTablets = tabletsPerDose * administrations;
       
       if (tabletsPerDose !== Math.floor(tabletsPerDose)) {
         warnings.push(
@@ -147,9 +383,10 @@ export function computeTotalQuantity(
       return {
         totalQuantity: Math.ceil(totalTablets),
         warnings,
+        administrationCount: administrations,
         details: {
           method: 'strength_conversion',
-          calculation: `${sig.dose} mg ÷ ${strength.value} mg/tablet × ${sig.frequency} × ${daysSupply} = ${Math.ceil(totalTablets)} tablets`,
+          calculation: `${sig.dose} mg ÷ ${strength.value} mg/tablet × ${countText} = ${Math.ceil(totalTablets)} tablets`,
         },
       };
     }
@@ -157,21 +394,22 @@ export function computeTotalQuantity(
     if (strength.perUnit === 'ML') {
       // mg/mL concentration - calculate mL needed
       const mlPerDose = sig.dose / strength.value;
-      const totalML = mlPerDose * sig.frequency * daysSupply;
+      const totalML = mlPerDose * administrations;
       
       return {
         totalQuantity: totalML,
         warnings,
+        administrationCount: administrations,
         details: {
           method: 'concentration_conversion',
-          calculation: `${sig.dose} mg ÷ ${strength.value} mg/mL × ${sig.frequency} × ${daysSupply} = ${totalML} mL`,
+          calculation: `${sig.dose} mg ÷ ${strength.value} mg/mL × ${countText} = ${totalML} mL`,
         },
       };
     }
   }
   
   // Case 4: Unit mismatch - fall back to direct calculation with warning
-  const totalQuantity = sig.dose * sig.frequency * daysSupply;
+  const totalQuantity = sig.dose * administrations;
   warnings.push(
     `Unit mismatch: prescription in "${sig.unit}" but drug strength is "${drugStrength.strength || 'unknown'}". ` +
     `Using direct calculation. Verify quantity with prescriber.`
@@ -180,9 +418,209 @@ export function computeTotalQuantity(
   return {
     totalQuantity,
     warnings,
+    administrationCount: administrations,
     details: {
       method: 'direct',
-      calculation: `${sig.dose} × ${sig.frequency} × ${daysSupply} = ${totalQuantity} (with unit mismatch warning)`,
+      calculation: `${sig.dose} × ${countText} = ${totalQuantity} (with unit mismatch warning)`,
+    },
+  };
+}
+
+/**
+ * Compute quantity for a SIG dosed at several sites (both eyes, each nostril)
+ * Each administration uses dose × sites
+ */
+function computeMultiSiteQuantity(
+  sig: SIGInput,
+  drugStrength: DrugStrength,
+  daysSupply: number
+): QuantityResult {
+  const sites = sig.sites!;
+  const base = computeTotalQuantity(
+    {
+      ...sig,
+      dose: sig.dose * sites,
+      minDose: sig.minDose !== undefined ? sig.minDose * sites : undefined,
+      maxDose: sig.maxDose !== undefined ? sig.maxDose * sites : undefined,
+      sites: undefined,
+    },
+    drugStrength,
+    daysSupply
+  );
+
+  const siteText = `${sig.maxDose ?? sig.dose} ${sig.unit} × ${sites} sites per administration`;
+
+  return {
+    ...base,
+    details: base.details && {
+      ...base.details,
+      calculation: `${siteText}; ${base.details.calculation}`,
+    },
+  };
+}
+
+/**
+ * Compute quantity for a PRN (as needed) SIG from its maximum allowed use
+ * Max dose × max administrations per day (from the shortest interval), capped by maxPerDay
+ */
+function computeAsNeededQuantity(
+  sig: SIGInput,
+  drugStrength: DrugStrength,
+  daysSupply: number
+): QuantityResult {
+  const dose = sig.maxDose ?? sig.dose;
+  const administrationsPerDay = sig.intervalHours
+    ? 24 / sig.intervalHours
+    : sig.frequency;
+
+  const uncappedDaily = dose * administrationsPerDay;
+  const cappedByMaxPerDay = sig.maxPerDay !== undefined && sig.maxPerDay < uncappedDaily;
+  const maxDailyQuantity = cappedByMaxPerDay ? sig.maxPerDay! : uncappedDaily;
+
+  // Reuse the scheduled calculation (incl. strength conversion) at the maximum daily use
+  const base = computeTotalQuantity(
+    { dose, frequency: maxDailyQuantity / dose, unit: sig.unit },
+    drugStrength,
+    daysSupply
+  );
+
+  const perDayText = parseFloat(administrationsPerDay.toFixed(2));
+  const frequencyText = sig.intervalHours
+    ? `every ${sig.intervalHours}h (${perDayText}/day)`
+    : `${perDayText}/day`;
+  const capText = cappedByMaxPerDay
+    ? `, capped at max ${sig.maxPerDay} ${sig.unit}/day`
+    : '';
+  const calculation =
+    `PRN maximum use: ${dose} ${sig.unit} ${frequencyText} = ${parseFloat(uncappedDaily.toFixed(2))} ${sig.unit}/day${capText}; ` +
+    `${maxDailyQuantity} ${sig.unit}/day × ${daysSupply} days = ${base.totalQuantity}`;
+
+  const warnings = [
+    `As-needed (PRN) prescription: quantity is based on maximum allowed use of ` +
+    `${maxDailyQuantity} ${sig.unit}/day. Patient may use less.`,
+  ];
+
+  if (sig.maxPerDay === undefined) {
+    warnings.push('PRN prescription has no maximum daily dose. Verify maximum use with prescriber.');
+  }
+
+  warnings.push(...base.warnings);
+
+  return {
+    ...base,
+    warnings,
+    prn: {
+      dosePerAdministration: dose,
+      administrationsPerDay,
+      maxDailyQuantity,
+      cappedByMaxPerDay,
+      calculation,
     },
   };
 }
+
+/**
+ * Compute total quantity for a multi-phase (tapering/titration) schedule
+ * Each phase is calculated independently and the quantities are summed
+ * @param phases - Schedule phases in order
+ * @param drugStrength - Drug strength information
+ * @param daysSupply - Number of days supply (checked against the sum of phase durations)
+ * @returns Quantity result with per-phase breakdown
+ */
+export function computePhasedQuantity(
+  phases: SIGPhase[],
+  drugStrength: DrugStrength,
+  daysSupply: number
+): PhasedQuantityResult {
+  if (phases.length === 0) {
+    throw new Error('At least one phase is required');
+  }
+
+  const warnings: string[] = [];
+  const phaseQuantities: PhaseQuantity[] = [];
+  let administrationCount = 0;
+
+  phases.forEach((phase, index) => {
+    const result = computeTotalQuantity(phase, drugStrength, phase.durationDays);
+    administrationCount += result.administrationCount ?? 0;
+
+    result.warnings.forEach(warning => {
+      const phaseWarning = `Phase ${index + 1}: ${warning}`;
+      if (!warnings.includes(phaseWarning)) {
+        warnings.push(phaseWarning);
+      }
+    });
+
+    phaseQuantities.push({
+      phase: index + 1,
+      durationDays: phase.durationDays,
+      quantity: result.totalQuantity,
+      calculation: result.details?.calculation || `${result.totalQuantity} ${phase.unit}`,
+    });
+  });
+
+  const units = new Set(phases.map(phase => normalizeUnit(phase.unit)));
+  if (units.size > 1) {
+    warnings.push(
+      `Phases use different units (${Array.from(units).join(', ')}). ` +
+      `Total quantity may not be meaningful. Verify prescription.`
+    );
+  }
+
+  const totalQuantity = phaseQuantities.reduce((sum, phase) => sum + phase.quantity, 0);
+  const totalDays = phases.reduce((sum, phase) => sum + phase.durationDays, 0);
+
+  if (totalDays !== daysSupply) {
+    warnings.push(
+      `Phase durations total ${totalDays} days but days' supply is ${daysSupply}. ` +
+      `Quantity covers the full ${totalDays}-day schedule.`
+    );
+  }
+
+  const breakdown = phaseQuantities
+    .map(phase => `Phase ${phase.phase} (${phase.durationDays} days): ${phase.calculation}`)
+    .join('; ');
+
+  return {
+    totalQuantity,
+    warnings,
+    administrationCount,
+    phases: phaseQuantities,
+    totalDays,
+    details: {
+      method: 'phased',
+      calculation: `${breakdown}; Total: ${phaseQuantities.map(p => p.quantity).join(' + ')} = ${totalQuantity} ${phases[0].unit}`,
+    },
+  };
+}
+
+/**
+ * Compute quantity for the first N days of a multi-phase schedule
+ * The phase timeline is cut at N days (the phase in progress is shortened,
+ * later phases drop out); beyond the last phase the full schedule applies.
+ * Cumulative quantity function for splitting a taper across fills.
+ * @param phases - Schedule phases in order
+ * @param drugStrength - Drug strength information
+ * @param days - Days from the start of the schedule
+ * @returns Quantity result for the phases within those days
+ */
+export function computePhasedQuantityForDays(
+  phases: SIGPhase[],
+  drugStrength: DrugStrength,
+  days: number
+): PhasedQuantityResult {
+  if (days <= 0) {
+    throw new Error('Days must be positive');
+  }
+
+  const truncated: SIGPhase[] = [];
+  let remaining = days;
+  for (const phase of phases) {
+    if (remaining <= 0) break;
+    const durationDays = Math.min(phase.durationDays, remaining);
+    truncated.push({ ...phase, durationDays });
+    remaining -= durationDays;
+  }
+
+  return computePhasedQuantity(truncated, drugStrength, days - Math.max(0, remaining));
+}
@@ -0,0 +1,420 @@
+/**
+ * SIG Parser
+ * Parses free-text prescription directions (e.g. "Take 1-2 tablets by mouth BID for 10 days")
+ * into the structured SIG used by the quantity calculator
+ */
+
+import type { DosingSchedule, SIGInput, Weekday } from './quantity';
+
+export interface ParsedSIG {
+  /** Structured SIG (ranges resolved to the maximum so the supply is never short) */
+  sig: SIGInput;
+  /** Confidence score (0-1) */
+  confidence: number;
+  /** Fragments of the text that were not understood */
+  unparsed: string[];
+  doseRange?: { min: number; max: number };
+  frequencyRange?: { min: number; max: number };
+  route?: string;
+  durationDays?: number;
+  /** PRN indication (e.g. "pain") */
+  indication?: string;
+}
+
+interface FrequencyRange {
+  min: number;
+  max: number;
+  /** Shortest interval between doses, for interval-based patterns ("q4-6h") */
+  intervalHours?: number;
+}
+
+interface FrequencyPattern {
+  pattern: RegExp;
+  resolve: (match: RegExpMatchArray) => FrequencyRange;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  half: 0.5,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?|\d+\/\d+|half(?:\s+an?)?|one|two|three|four|five|six|seven|eight|nine|ten)`;
+
+const UNIT_MAP: Record<string, string> = {
+  tablet: 'tablet',
+  tab: 'tablet',
+  capsule: 'capsule',
+  cap: 'capsule',
+  ml: 'mL',
+  milliliter: 'mL',
+  mg: 'mg',
+  milligram: 'mg',
+  mcg: 'mcg',
+  g: 'g',
+  gram: 'g',
+  puff: 'puff',
+  spray: 'spray',
+  drop: 'drop',
+  gtt: 'drop',
+  unit: 'unit',
+  patch: 'patch',
+  ring: 'ring',
+  injection: 'injection',
+};
+
+const UNIT_SOURCE = String.raw`(?:tablets?|tabs?|capsules?|caps?|ml|milliliters?|mg|milligrams?|mcg|g|grams?|puffs?|sprays?|drops?|gtts?|units?|patch(?:es)?|rings?|injections?)`;
+const UNIT = `(${UNIT_SOURCE})`;
+
+/**
+ * Frequency patterns, most specific first. Ranges ("Q4-6H") resolve to
+ * min/max administrations per day.
+ */
+const FREQUENCY_PATTERNS: FrequencyPattern[] = [
+  {
+    pattern: /\b(?:q\s?(\d+)\s?(?:-|to)\s?(\d+)\s?h(?:rs?|ours?)?|every\s+(\d+)\s?(?:-|to)\s?(\d+)\s+hours?)\b/,
+    resolve: m => {
+      const low = parseInt(m[1] ?? m[3], 10);
+      const high = parseInt(m[2] ?? m[4], 10);
+      return { min: 24 / high, max: 24 / low, intervalHours: low };
+    },
+  },
+  {
+    pattern: /\b(?:q\s?(\d+)\s?h(?:rs?|ours?)?|every\s+(\d+)\s+hours?)\b/,
+    resolve: m => {
+      const hours = parseInt(m[1] ?? m[2], 10);
+      return { min: 24 / hours, max: 24 / hours, intervalHours: hours };
+    },
+  },
+  {
+    pattern: /\b(?:qid|four\s+times\s+(?:a\s+|per\s+)?(?:day|daily))\b/,
+    resolve: () => ({ min: 4, max: 4 }),
+  },
+  {
+    pattern: /\b(?:tid|three\s+times\s+(?:a\s+|per\s+)?(?:day|daily))\b/,
+    resolve: () => ({ min: 3, max: 3 }),
+  },
+  {
+    pattern: /\b(?:bid|twice\s+(?:a\s+|per\s+)?(?:day|daily)|two\s+times\s+(?:a\s+|per\s+)?(?:day|daily))\b/,
+    resolve: () => ({ min: 2, max: 2 }),
+  },
+  {
+    pattern: /\b(\d+)\s?(?:-|to)\s?(\d+)\s+times\s+(?:a\s+|per\s+)?(?:day|daily)\b/,
+    resolve: m => ({ min: parseInt(m[1], 10), max: parseInt(m[2], 10) }),
+  },
+  {
+    pattern: /\b(\d+)\s*(?:x|times)\s+(?:a\s+|per\s+)?(?:day|daily)\b/,
+    resolve: m => ({ min: parseInt(m[1], 10), max: parseInt(m[1], 10) }),
+  },
+  {
+    pattern: /\b(?:qhs|at\s+bedtime|nightly|every\s+night|at\s+night)\b/,
+    resolve: () => ({ min: 1, max: 1 }),
+  },
+  {
+    pattern: /\b(?:qd|qam|qpm|once\s+(?:a\s+|per\s+)?(?:day|daily)|every\s+(?:day|morning|evening)|daily)\b/,
+    resolve: () => ({ min: 1, max: 1 }),
+  },
+];
+
+/**
+ * Non-daily schedule patterns; matched before frequency so that
+ * "1 tab daily, 21 days on 7 days off" keeps both parts
+ */
+const SCHEDULE_PATTERNS: Array<{ pattern: RegExp; resolve: (match: RegExpMatchArray) => DosingSchedule }> = [
+  {
+    // Long-acting forms: intervals beyond a day ("q72h", "every 72 hours")
+    pattern: /\b(?:q\s?|every\s+)(2[5-9]|[3-9]\d|\d{3,})\s?(?:h|hrs?|hours?)\b/,
+    resolve: m => ({ type: 'intervalHours', everyHours: parseInt(m[1], 10) }),
+  },
+  {
+    pattern: /\b(?:(?:twice|2\s+times)\s+(?:a|per|every)\s+week|twice\s+weekly|biw)\b/,
+    resolve: () => ({ type: 'intervalHours', everyHours: 84 }),
+  },
+  {
+    pattern: /\bevery\s+(\d+)\s+weeks?\b/,
+    resolve: m => ({ type: 'interval', everyDays: parseInt(m[1], 10) * 7 }),
+  },
+  {
+    pattern: /\bevery\s+(\d+)\s+months?\b/,
+    resolve: m => ({ type: 'interval', everyDays: parseInt(m[1], 10) * 30 }),
+  },
+  {
+    pattern: /\b(\d+)\s+days?\s+on\s*(?:,|and|\/)?\s*(\d+)\s+days?\s+off\b/,
+    resolve: m => ({ type: 'cycle', daysOn: parseInt(m[1], 10), daysOff: parseInt(m[2], 10) }),
+  },
+  {
+    pattern: /\b(?:qod|every\s+other\s+day)\b/,
+    resolve: () => ({ type: 'interval', everyDays: 2 }),
+  },
+  {
+    pattern: /\b(?:qw|qwk|once\s+(?:a|per|every)\s+week|(?:once\s+)?weekly|every\s+week)\b/,
+    resolve: () => ({ type: 'interval', everyDays: 7 }),
+  },
+  {
+    pattern: /\b(?:once\s+(?:a|per|every)\s+month|(?:once\s+)?monthly|every\s+month)\b/,
+    resolve: () => ({ type: 'interval', everyDays: 30 }),
+  },
+  {
+    pattern: /\bevery\s+(\d+)\s+days\b/,
+    resolve: m => ({ type: 'interval', everyDays: parseInt(m[1], 10) }),
+  },
+  {
+    pattern: /\b(?:every|on)\s+((?:(?:sun|mon|tue|wed|thu|fri|sat)[a-z]*\s*(?:,|and|&|\/)?\s*)+)/,
+    resolve: m => ({
+      type: 'weekdays',
+      days: Array.from(new Set(
+        (m[1].match(/\b(?:sun|mon|tue|wed|thu|fri|sat)/g) || []) as Weekday[]
+      )),
+    }),
+  },
+];
+
+const BOTH_SITES_PATTERN = /\b(?:ou|au|(?:each|both)\s+(?:eyes?|ears?|nostrils?))\b/;
+
+const ROUTE_PATTERNS: Array<{ pattern: RegExp; route: string }> = [
+  { pattern: /\b(?:by\s+mouth|orally|po)\b/, route: 'oral' },
+  { pattern: /\b(?:under\s+the\s+tongue|sublingually|sl)\b/, route: 'sublingual' },
+  { pattern: /\b(?:in(?:to)?\s+(?:each|both|the\s+(?:left|right)|affected)\s+eyes?|ou)\b/, route: 'ophthalmic' },
+  { pattern: /\b(?:in(?:to)?\s+(?:each|both|the\s+(?:left|right)|affected)\s+ears?|otic|au)\b/, route: 'otic' },
+  { pattern: /\b(?:in(?:to)?\s+(?:each|both|the\s+(?:left|right))\s+nostrils?|intranasally|nasally)\b/, route: 'nasal' },
+  { pattern: /\b(?:by\s+inhalation|inhaled|inhale)\b/, route: 'inhalation' },
+  { pattern: /\b(?:subcutaneously|subq|sq|sc)\b/, route: 'subcutaneous' },
+  { pattern: /\b(?:intramuscularly|im)\b/, route: 'intramuscular' },
+  { pattern: /\b(?:topically|to\s+(?:the\s+)?affected\s+areas?|to\s+(?:the\s+)?skin)\b/, route: 'topical' },
+  { pattern: /\b(?:rectally|pr)\b/, route: 'rectal' },
+  { pattern: /\b(?:vaginally|pv)\b/, route: 'vaginal' },
+];
+
+const DURATION_PATTERN = /\b(?:for|x)\s*(\d+)\s*(days?|d|weeks?|wks?|months?)\b/;
+
+const MAX_PER_DAY_PATTERN = new RegExp(
+  String.raw`\b(?:max(?:imum)?|not\s+to\s+exceed|do\s+not\s+exceed|nte)(?:\s+of)?\s+(\d+(?:\.\d+)?)\s*(?:${UNIT_SOURCE}\s*)?` +
+  String.raw`(?:\/\s*|per\s+|a\s+|in\s+)(?:day|24\s*(?:h|hrs?|hours?))\b`
+);
+
+const PRN_PATTERN = /\b(?:prn|as\s+needed)\b(?:\s+for)?([a-z ]*)/;
+
+/** Words that carry no information for quantity calculation */
+const FILLER_WORDS = new Set([
+  'take', 'give', 'use', 'apply', 'instill', 'inject', 'insert', 'administer',
+  'a', 'an', 'the', 'and', 'of', 'by', 'per', 'then',
+]);
+
+/**
+ * Parse a numeric dose token ("2", "1.5", "1/2", "two", "half a")
+ */
+function parseNumber(token: string): number {
+  const normalized = token.trim().replace(/\s+an?$/, '');
+  if (normalized in NUMBER_WORDS) {
+    return NUMBER_WORDS[normalized];
+  }
+  if (normalized.includes('/')) {
+    const [numerator, denominator] = normalized.split('/').map(Number);
+    return numerator / denominator;
+  }
+  return parseFloat(normalized);
+}
+
+/**
+ * Normalize a dose unit token to the SIG unit vocabulary
+ */
+function normalizeSigUnit(token: string): string {
+  const lower = token.toLowerCase();
+  return UNIT_MAP[lower] || UNIT_MAP[lower.replace(/s$/, '')] || UNIT_MAP[lower.replace(/es$/, '')] || lower;
+}
+
+/**
+ * Parse free-text SIG into structured input
+ *
+ * Unknown dose defaults to 1, unknown unit to "tablet" and unknown frequency
+ * to once daily; every default lowers the confidence score and is reported
+ * in `unparsed` so callers can surface it instead of silently assuming.
+ *
+ * @param text - Free-text SIG (e.g. "Take 1 tablet by mouth twice daily")
+ * @returns Structured SIG with confidence and unparsed fragments
+ */
+export function parseSIG(text: string): ParsedSIG {
+  if (!text || !text.trim()) {
+    throw new Error('SIG text is required');
+  }
+
+  // Spans that have been understood are replaced with a separator so the
+  // leftovers can be reported as unparsed fragments
+  let remaining = ` ${text.toLowerCase().replace(/\s+/g, ' ').trim()} `;
+  const consume = (match: RegExpMatchArray): void => {
+    remaining = remaining.replace(match[0], ' | ');
+  };
+
+  let confidence = 1;
+
+  // Maximum daily use ("max 8/day"), before frequency so its number isn't taken as a dose
+  let maxPerDay: number | undefined;
+  const maxMatch = remaining.match(MAX_PER_DAY_PATTERN);
+  if (maxMatch) {
+    maxPerDay = parseFloat(maxMatch[1]);
+    consume(maxMatch);
+  }
+
+  // Non-daily schedule
+  let schedule: DosingSchedule | undefined;
+  for (const { pattern, resolve } of SCHEDULE_PATTERNS) {
+    const match = remaining.match(pattern);
+    if (match) {
+      schedule = resolve(match);
+      consume(match);
+      break;
+    }
+  }
+
+  // Frequency
+  let frequencyRange: FrequencyRange | undefined;
+  for (const { pattern, resolve } of FREQUENCY_PATTERNS) {
+    const match = remaining.match(pattern);
+    if (match) {
+      frequencyRange = resolve(match);
+      consume(match);
+      break;
+    }
+  }
+
+  // Duration
+  let durationDays: number | undefined;
+  const durationMatch = remaining.match(DURATION_PATTERN);
+  if (durationMatch) {
+    const amount = parseInt(durationMatch[1], 10);
+    const period = durationMatch[2];
+    durationDays = period.startsWith('w') ? amount * 7 : period.startsWith('m') ? amount * 30 : amount;
+    consume(durationMatch);
+  }
+
+  // Dose with unit ("1-2 tablets", "5 mL", "two puffs")
+  let doseRange: { min: number; max: number } | undefined;
+  let unit: string | undefined;
+  const doseMatch = remaining.match(
+    new RegExp(String.raw`\b${NUMBER}(?:\s*(?:-|to)\s*${NUMBER})?\s*${UNIT}\b`)
+  );
+  if (doseMatch) {
+    const min = parseNumber(doseMatch[1]);
+    const max = doseMatch[2] ? parseNumber(doseMatch[2]) : min;
+    doseRange = { min, max };
+    unit = normalizeSigUnit(doseMatch[3]);
+    consume(doseMatch);
+  } else {
+    // Bare number without unit ("take 1 bid")
+    const bareMatch = remaining.match(new RegExp(String.raw`\b${NUMBER}(?:\s*(?:-|to)\s*${NUMBER})?\b`));
+    if (bareMatch) {
+      const min = parseNumber(bareMatch[1]);
+      const max = bareMatch[2] ? parseNumber(bareMatch[2]) : min;
+      doseRange = { min, max };
+      consume(bareMatch);
+    }
+  }
+
+  // Both eyes/ears/nostrils: the dose is per site (checked before the route consumes it)
+  const sites = BOTH_SITES_PATTERN.test(remaining) ? 2 : undefined;
+
+  // Route
+  let route: string | undefined;
+  for (const { pattern, route: name } of ROUTE_PATTERNS) {
+    const match = remaining.match(pattern);
+    if (match) {
+      route = name;
+      consume(match);
+      break;
+    }
+  }
+
+  // PRN ("as needed for pain"); indication is whatever follows up to the next separator
+  let asNeeded = false;
+  let indication: string | undefined;
+  const prnMatch = remaining.match(PRN_PATTERN);
+  if (prnMatch) {
+    asNeeded = true;
+    indication = prnMatch[1].trim() || undefined;
+    consume(prnMatch);
+  }
+
+  const unparsed = remaining
+    .split(/[|,;.()]/)
+    .map(fragment =>
+      fragment
+        .trim()
+        .split(' ')
+        .filter(word => word && !FILLER_WORDS.has(word))
+        .join(' ')
+    )
+    .filter(fragment => fragment.length > 0);
+
+  if (!doseRange) {
+    confidence -= 0.3;
+    unparsed.push('dose not found (assumed 1)');
+  } else if (doseRange.min !== doseRange.max && !asNeeded) {
+    confidence -= 0.1;
+  }
+
+  if (!unit) {
+    confidence -= 0.2;
+    unparsed.push('unit not found (assumed tablet)');
+  }
+
+  const dose = doseRange?.max ?? 1;
+  let frequency = frequencyRange?.max ?? 1;
+
+  if (!frequencyRange && schedule) {
+    // "Once weekly", "every other day": one administration per dosing day
+    frequency = 1;
+  } else if (!frequencyRange && asNeeded && maxPerDay !== undefined) {
+    // PRN limited only by a daily maximum ("1 tab PRN, max 4/day")
+    frequency = maxPerDay / dose;
+  } else if (!frequencyRange) {
+    confidence -= 0.4;
+    unparsed.push('frequency not found (assumed once daily)');
+  } else if (frequencyRange.min !== frequencyRange.max && !asNeeded) {
+    confidence -= 0.1;
+  }
+
+  // Each leftover fragment may be an instruction we failed to account for
+  const fragmentCount = unparsed.filter(f => !f.includes('not found')).length;
+  confidence -= fragmentCount * 0.05;
+
+  const result: ParsedSIG = {
+    sig: {
+      dose,
+      frequency,
+      unit: unit ?? 'tablet',
+    },
+    confidence: Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100,
+    unparsed,
+  };
+
+  if (asNeeded) {
+    result.sig.asNeeded = true;
+    if (doseRange) {
+      result.sig.minDose = doseRange.min;
+      result.sig.maxDose = doseRange.max;
+    }
+    if (frequencyRange?.intervalHours) result.sig.intervalHours = frequencyRange.intervalHours;
+    if (indication) result.indication = indication;
+  }
+
+  if (maxPerDay !== undefined) result.sig.maxPerDay = maxPerDay;
+  if (schedule) result.sig.schedule = schedule;
+  if (sites) result.sig.sites = sites;
+
+  if (doseRange && doseRange.min !== doseRange.max) result.doseRange = doseRange;
+  if (frequencyRange && frequencyRange.min !== frequencyRange.max) {
+    result.frequencyRange = { min: frequencyRange.min, max: frequencyRange.max };
+  }
+  if (route) result.route = route;
+  if (durationDays) result.durationDays = durationDays;
+
+  return result;
+}
@@ -0,0 +1,136 @@
+/**
+ * Topical Quantity Calculation
+ * Estimates grams of cream/ointment from application sites using
+ * fingertip units (FTU): one adult FTU ≈ 0.5 g
+ */
+
+import { computeTotalQuantity, type QuantityResult, type SIGInput } from './quantity';
+
+export type TopicalSite =
+  | 'face_neck'
+  | 'trunk_front'
+  | 'trunk_back'
+  | 'arm'
+  | 'hand'
+  | 'leg'
+  | 'foot'
+  | 'genitals';
+
+/**
+ * Adult fingertip units per application for each site (one side of the body
+ * for limbs, e.g. one arm). Source: Long & Finlay FTU table.
+ */
+export const FTU_PER_SITE: Record<TopicalSite, number> = {
+  face_neck: 2.5,
+  trunk_front: 7,
+  trunk_back: 7,
+  arm: 3,
+  hand: 1,
+  leg: 6,
+  foot: 2,
+  genitals: 0.5,
+};
+
+export const GRAMS_PER_FTU = 0.5;
+
+/**
+ * Where and how much is applied per application
+ * Either a list of sites (repeat a site for both sides, e.g. ['arm', 'arm'])
+ * or an explicit fingertip-unit count
+ */
+export interface TopicalApplication {
+  sites?: TopicalSite[];
+  fingertipUnits?: number;
+}
+
+export interface TopicalDetails {
+  sites: TopicalSite[];
+  fingertipUnitsPerApplication: number;
+  applications: number;
+  totalFingertipUnits: number;
+  gramsPerFtu: number;
+  totalGrams: number;
+  calculation: string;
+}
+
+export interface TopicalQuantityResult extends QuantityResult {
+  topical: TopicalDetails;
+}
+
+/**
+ * Fingertip units per application for a set of sites
+ */
+export function fingertipUnitsForSites(sites: TopicalSite[]): number {
+  return sites.reduce((total, site) => {
+    const ftu = FTU_PER_SITE[site];
+    if (ftu === undefined) {
+      throw new Error(`Unknown application site: ${site}`);
+    }
+    return total + ftu;
+  }, 0);
+}
+
+/**
+ * Compute grams of a topical product for the days supply
+ * FTU per application × applications × 0.5 g/FTU
+ *
+ * @param sig - Prescription SIG (frequency and schedule; dose is FTU when no application is given)
+ * @param daysSupply - Number of days supply (treatment duration)
+ * @param application - Application sites or fingertip-unit count
+ * @returns Quantity result in grams with FTU details
+ */
+export function computeTopicalQuantity(
+  sig: SIGInput,
+  daysSupply: number,
+  application: TopicalApplication = {}
+): TopicalQuantityResult {
+  const sites = application.sites ?? [];
+  const fingertipUnitsPerApplication = application.fingertipUnits
+    ?? (sites.length > 0 ? fingertipUnitsForSites(sites) : sig.dose);
+
+  if (fingertipUnitsPerApplication <= 0) {
+    throw new Error('Fingertip units per application must be positive');
+  }
+
+  // Applications via the regular calculation (schedules and PRN maximum use included)
+  const base = computeTotalQuantity(
+    { ...sig, dose: fingertipUnitsPerApplication, unit: 'ftu', sites: undefined },
+    {},
+    daysSupply
+  );
+  const totalFingertipUnits = base.totalQuantity;
+  const applications = base.administrationCount ?? sig.frequency * daysSupply;
+  // Tubes are sold in whole grams; round up so the supply is never short
+  const totalGrams = Math.ceil(totalFingertipUnits * GRAMS_PER_FTU);
+
+  const siteText = sites.length > 0
+    ? `${sites.map(site => `${site} (${FTU_PER_SITE[site]})`).join(' + ')} = `
+    : '';
+  const calculation =
+    `${siteText}${fingertipUnitsPerApplication} FTU per application × ${applications} applications = ` +
+    `${totalFingertipUnits} FTU × ${GRAMS_PER_FTU} g/FTU = ${totalGrams} g`;
+
+  const warnings = [...base.warnings];
+  if (sites.length === 0 && application.fingertipUnits === undefined) {
+    warnings.push('No application sites given. SIG dose used as fingertip units per application.');
+  }
+
+  return {
+    ...base,
+    totalQuantity: totalGrams,
+    warnings,
+    details: {
+      method: 'ftu_conversion',
+      calculation,
+    },
+    topical: {
+      sites,
+      fingertipUnitsPerApplication,
+      applications,
+      totalFingertipUnits,
+      gramsPerFtu: GRAMS_PER_FTU,
+      totalGrams,
+      calculation,
+    },
+  };
+}
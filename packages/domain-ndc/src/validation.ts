@@ -4,6 +4,7 @@
  */
 
 import type { NDCValidationResult, MarketingStatus } from '@clients-openfda/internal/fdaTypes';
+import { formatNDC11, parseNDC, tryParseNDC } from './ndc';
 
 /**
  * NDC Format Configuration
@@ -12,12 +13,6 @@ const NDC_FORMATS = {
   /** 11-digit format with dashes: XXXXX-XXXX-XX */
   WITH_DASHES: /^\d{5}-\d{4}-\d{2}$/,
   
-  /** 11-digit format without dashes: XXXXXXXXXXX */
-  WITHOUT_DASHES: /^\d{11}$/,
-  
-  /** 10-digit format: XXXXXXXXXX */
-  TEN_DIGIT: /^\d{10}$/,
-  
   /** Product NDC formats: XXXXX-XXXX or XXXXX-XXX-X */
   PRODUCT_NDC: /^\d{5}-\d{3,4}(-\d{1,2})?$/,
 };
@@ -54,13 +49,8 @@ export function validateNDCFormat(ndc: string): NDCValidationResult {
     };
   }
 
-  // Check for valid format
-  const isValidFormat = 
-    NDC_FORMATS.WITH_DASHES.test(trimmed) ||
-    NDC_FORMATS.WITHOUT_DASHES.test(trimmed) ||
-    NDC_FORMATS.TEN_DIGIT.test(trimmed);
-
-  if (!isValidFormat) {
+  // Check for valid format (hyphenated 4-4-2, 5-3-2, 5-4-1 or 5-4-2; 10 or 11 digits; GTIN)
+  if (!/^[\d-]+$/.test(trimmed) || !tryParseNDC(trimmed)) {
     errors.push(
       'Invalid NDC format. Expected 10 or 11 digits, optionally with dashes (XXXXX-XXXX-XX)'
     );
@@ -171,41 +161,17 @@ export function validateNDCWithStatus(
 /**
  * Normalize NDC to 11-digit format with dashes (XXXXX-XXXX-XX)
  * 
- * Handles various input formats:
- * - 10 digits: pad labeler code with leading zero
+ * Handles various input formats (see parseNDC):
+ * - Hyphenated 10-digit: pad the short segment for its configuration (4-4-2, 5-3-2, 5-4-1)
+ * - Unhyphenated 10 digits: assumed 4-4-2 (pad labeler code with leading zero)
  * - 11 digits: format with dashes
- * - Already formatted: return as-is
+ * - GTIN: NDC carried in the GTIN
  * 
  * @param ndc Raw NDC code
  * @returns Normalized NDC (XXXXX-XXXX-XX)
  */
 export function normalizeNDC(ndc: string): string {
-  if (!ndc) {
-    throw new Error('NDC code is required');
-  }
-
-  const trimmed = ndc.trim();
-
-  // Already in correct format
-  if (NDC_FORMATS.WITH_DASHES.test(trimmed)) {
-    return trimmed;
-  }
-
-  // Remove all non-numeric characters
-  const digits = trimmed.replace(/\D/g, '');
-
-  // Validate digit count
-  if (digits.length < 10 || digits.length > 11) {
-    throw new Error(
-      `Invalid NDC length: ${digits.length} digits. Expected 10 or 11 digits.`
-    );
-  }
-
-  // Pad to 11 digits if necessary (10-digit NDCs need leading zero in labeler code)
-  const padded = digits.length === 10 ? '0' + digits : digits;
-
-  // Format as XXXXX-XXXX-XX
-  return `${padded.slice(0, 5)}-${padded.slice(5, 9)}-${padded.slice(9, 11)}`;
+  return formatNDC11(parseNDC(ndc));
 }
 
 /**
@@ -0,0 +1,78 @@
+/**
+ * Unbreakable Packages
+ * Inhalers, injector pens, dropper bottles, blister cartons, contraceptive
+ * packs and kits cannot be split, so they are dispensed in whole packages
+ */
+
+export type WholePackageReason =
+  | 'inhaler'
+  | 'spray_bottle'
+  | 'pen'
+  | 'drop_bottle'
+  | 'blister_carton'
+  | 'contraceptive_pack'
+  | 'kit';
+
+export interface WholePackageClassification {
+  mustDispenseWhole: boolean;
+  reason?: WholePackageReason;
+}
+
+const REASON_LABELS: Record<WholePackageReason, string> = {
+  inhaler: 'Inhalers',
+  spray_bottle: 'Metered spray bottles',
+  pen: 'Injector pens',
+  drop_bottle: 'Dropper bottles',
+  blister_carton: 'Blister cartons',
+  contraceptive_pack: 'Contraceptive packs',
+  kit: 'Kits',
+};
+
+/**
+ * Classify whether a package must be dispensed whole
+ * Checked from most to least specific; kits containing blister packs are
+ * oral contraceptive packs in the FDA NDC Directory.
+ *
+ * @param dosageForm - FDA dosage form (e.g. "AEROSOL, METERED", "KIT")
+ * @param packageDescription - FDA packaging description
+ * @returns Classification with the reason, if unbreakable
+ */
+export function classifyWholePackage(
+  dosageForm: string,
+  packageDescription: string = ''
+): WholePackageClassification {
+  const form = dosageForm.toUpperCase();
+  const description = packageDescription.toUpperCase();
+  const text = `${form} ${description}`;
+
+  if (/\bDIALPACK\b/.test(text) || (/\bKIT\b/.test(form) && /\bBLISTER PACK\b/.test(description))) {
+    return { mustDispenseWhole: true, reason: 'contraceptive_pack' };
+  }
+  if (/\bKIT\b/.test(text)) {
+    return { mustDispenseWhole: true, reason: 'kit' };
+  }
+  if (/\bINHALER\b|\bINHALANT\b|AEROSOL, METERED|POWDER, METERED|\bCANISTER\b/.test(text)) {
+    return { mustDispenseWhole: true, reason: 'inhaler' };
+  }
+  if (/SPRAY, METERED|BOTTLE, SPRAY|BOTTLE, PUMP/.test(text)) {
+    return { mustDispenseWhole: true, reason: 'spray_bottle' };
+  }
+  if (/\bPEN\b|\bINJECTOR\b|\bCARTRIDGE\b/.test(description)) {
+    return { mustDispenseWhole: true, reason: 'pen' };
+  }
+  if (/\/\s*DROPS\b/.test(form) || /BOTTLE, DROPPER/.test(description)) {
+    return { mustDispenseWhole: true, reason: 'drop_bottle' };
+  }
+  if (/\bBLISTER PACK\b.*\bIN \d+(?:\.\d+)? (?:CARTON|BOX)\b/.test(description)) {
+    return { mustDispenseWhole: true, reason: 'blister_carton' };
+  }
+
+  return { mustDispenseWhole: false };
+}
+
+/**
+ * Explain why a package cannot be split (e.g. "Inhalers cannot be split")
+ */
+export function describeWholePackageReason(reason: WholePackageReason | undefined): string {
+  return `${reason ? REASON_LABELS[reason] : 'This package'} cannot be split`;
+}
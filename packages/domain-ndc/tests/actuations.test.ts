@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeActuationQuantity,
+  isActuationUnit,
+  parseActuationCount,
+  parseActuationPackage,
+  rankActuationPackages,
+  type ActuationPackage,
+} from '../src/actuations';
+
+describe('actuations - parsing', () => {
+  it('should parse actuation counts from package descriptions', () => {
+    expect(parseActuationCount('1 INHALER in 1 CARTON > 200 ACTUATION in 1 INHALER')).toBe(200);
+    expect(parseActuationCount('120 SPRAY, METERED in 1 BOTTLE, SPRAY')).toBe(120);
+    expect(parseActuationCount('1 CANISTER in 1 CARTON > 8.5 g in 1 CANISTER')).toBeNull();
+  });
+
+  it('should resolve devices per package from packaging levels', () => {
+    const levels = [
+      { quantity: 2, unit: 'INHALER', container: 'CARTON' },
+      { quantity: 60, unit: 'ACTUATION', container: 'INHALER' },
+    ];
+
+    expect(parseActuationPackage(levels)).toEqual({
+      actuationsPerDevice: 60,
+      devicesPerPackage: 2,
+      deviceName: 'INHALER',
+    });
+  });
+
+  it('should fall back to the description without levels', () => {
+    expect(parseActuationPackage(undefined, '200 ACTUATION in 1 INHALER')?.actuationsPerDevice).toBe(200);
+    expect(parseActuationPackage([], '8.5 g in 1 CANISTER')).toBeNull();
+  });
+
+  it('should recognize puff and spray units', () => {
+    expect(isActuationUnit('puffs')).toBe(true);
+    expect(isActuationUnit('spray')).toBe(true);
+    expect(isActuationUnit('tablet')).toBe(false);
+  });
+});
+
+describe('actuations - computeActuationQuantity', () => {
+  it('should compute inhalers needed after priming', () => {
+    // 2 puffs × 4/day × 30 = 240 puffs; 200 - 4 priming = 196 per inhaler
+    const result = computeActuationQuantity({ dose: 2, frequency: 4, unit: 'puff' }, 200, 30);
+
+    expect(result.totalQuantity).toBe(2);
+    expect(result.actuation.totalActuations).toBe(240);
+    expect(result.actuation.usableActuationsPerDevice).toBe(196);
+    expect(result.actuation.daysCovered).toBe(49);
+    expect(result.details?.method).toBe('actuation_conversion');
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should use spray priming defaults and overrides', () => {
+    const sig = { dose: 4, frequency: 1, unit: 'spray' };
+
+    expect(computeActuationQuantity(sig, 120, 30).actuation.primingActuations).toBe(6);
+    expect(computeActuationQuantity(sig, 120, 30, { primingActuations: 0 }).actuation.devicesNeeded).toBe(1);
+  });
+
+  it('should throw when priming uses the whole device', () => {
+    expect(() =>
+      computeActuationQuantity({ dose: 1, frequency: 1, unit: 'puff' }, 4, 30)
+    ).toThrow('Device must have more actuations than priming actuations');
+  });
+});
+
+describe('actuations - rankActuationPackages', () => {
+  const packages: Array<{ ndc: string; device: ActuationPackage | null }> = [
+    { ndc: 'SMALL', device: { actuationsPerDevice: 60, devicesPerPackage: 1, deviceName: 'INHALER' } },
+    { ndc: 'LARGE', device: { actuationsPerDevice: 200, devicesPerPackage: 1, deviceName: 'INHALER' } },
+    { ndc: 'TWIN', device: { actuationsPerDevice: 200, devicesPerPackage: 2, deviceName: 'INHALER' } },
+    { ndc: 'UNKNOWN', device: null },
+  ];
+
+  it('should rank by devices dispensed instead of raw quantity', () => {
+    const { ranked, unresolved } = rankActuationPackages(
+      packages,
+      pkg => pkg.device,
+      { dose: 2, frequency: 2, unit: 'puff' },
+      30
+    );
+
+    // 120 puffs: 1 large inhaler, 2 twin-pack inhalers, 3 small inhalers
+    expect(ranked.map(entry => entry.pkg.ndc)).toEqual(['LARGE', 'TWIN', 'SMALL']);
+    expect(ranked.map(entry => entry.devicesDispensed)).toEqual([1, 2, 3]);
+    expect(unresolved.map(pkg => pkg.ndc)).toEqual(['UNKNOWN']);
+  });
+});
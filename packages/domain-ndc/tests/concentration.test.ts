@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseIngredientStrength,
+  resolvePackageStrength,
+  groupByStrength,
+} from '../src/concentration';
+import { computeTotalQuantity } from '../src/quantity';
+
+describe('concentration - parseIngredientStrength', () => {
+  it('should parse volume concentrations', () => {
+    expect(parseIngredientStrength('250 mg/5mL')).toEqual({
+      label: '250 MG/5 ML',
+      amount: 250,
+      unit: 'MG',
+      perVolume: 5,
+      perUnit: 'ML',
+      amountPerUnit: 50,
+    });
+    expect(parseIngredientStrength('40 mg/mL')?.label).toBe('40 MG/ML');
+  });
+
+  it('should treat per-dosage-unit strengths as solids', () => {
+    const result = parseIngredientStrength('10 mg/1');
+
+    expect(result?.label).toBe('10 MG');
+    expect(result?.perUnit).toBeUndefined();
+    expect(result?.amountPerUnit).toBe(10);
+  });
+
+  it('should return null for unparseable strengths', () => {
+    expect(parseIngredientStrength('')).toBeNull();
+    expect(parseIngredientStrength('see label')).toBeNull();
+  });
+});
+
+describe('concentration - resolvePackageStrength', () => {
+  it('should use the first parseable ingredient', () => {
+    const result = resolvePackageStrength([
+      { name: 'UNKNOWN', strength: 'n/a' },
+      { name: 'AMOXICILLIN', strength: '400 mg/5mL' },
+    ]);
+
+    expect(result?.label).toBe('400 MG/5 ML');
+  });
+
+  it('should return null without ingredients', () => {
+    expect(resolvePackageStrength(undefined)).toBeNull();
+  });
+});
+
+describe('concentration - groupByStrength', () => {
+  const packages = [
+    { ndc: 'A', ingredients: [{ name: 'AMOXICILLIN', strength: '250 mg/5mL' }] },
+    { ndc: 'B', ingredients: [{ name: 'AMOXICILLIN', strength: '400 mg/5mL' }] },
+    { ndc: 'C', ingredients: [{ name: 'AMOXICILLIN', strength: '250 mg/5mL' }] },
+    { ndc: 'D', ingredients: [] },
+  ];
+
+  it('should group packages by strength with unresolved packages last', () => {
+    const families = groupByStrength(packages, pkg => pkg.ingredients);
+
+    expect(families.map(f => f.strength?.label ?? null)).toEqual(['250 MG/5 ML', '400 MG/5 ML', null]);
+    expect(families[0].packages.map(p => p.ndc)).toEqual(['A', 'C']);
+    expect(families[2].packages.map(p => p.ndc)).toEqual(['D']);
+  });
+
+  it('should compute a different mL need per family', () => {
+    const sig = { dose: 500, frequency: 2, unit: 'mg' };
+    const [low, high] = groupByStrength(packages, pkg => pkg.ingredients);
+
+    expect(computeTotalQuantity(sig, { strength: low.strength!.label }, 10).totalQuantity).toBe(200);
+    expect(computeTotalQuantity(sig, { strength: high.strength!.label }, 10).totalQuantity).toBe(125);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { chooseLowestCostCombination, costCombination, type CostWeights, type UnitPriceLookup } from '../src/cost';
+import { findPackageCombinations } from '../src/packageCombination';
+import type { PackageCandidate } from '../src/packageMatch';
+
+const candidate = (ndc: string, quantity: number): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity, unit: 'TABLET' },
+  dosageForm: 'TABLET',
+  marketingStatus: 'ACTIVE',
+  isActive: true,
+});
+
+const weights: CostWeights = { acquisition: 1, waste: 1, perPackage: 0.5 };
+
+describe('cost - costCombination', () => {
+  it('should cost acquisition, waste and packages', () => {
+    const packages = [candidate('ndc-100', 100)];
+    const [combination] = findPackageCombinations(packages, 90);
+    const prices: UnitPriceLookup = new Map([['ndc-100', 0.1]]);
+
+    const costed = costCombination(combination, 90, prices, weights)!;
+
+    expect(costed.acquisitionCost).toBe(10);
+    expect(costed.wasteCost).toBe(1);
+    expect(costed.score).toBe(11.5);
+  });
+
+  it('should return null when an NDC has no price', () => {
+    const [combination] = findPackageCombinations([candidate('ndc-100', 100)], 90);
+    expect(costCombination(combination, 90, new Map(), weights)).toBeNull();
+  });
+});
+
+describe('cost - chooseLowestCostCombination', () => {
+  const packages = [candidate('ndc-30', 30), candidate('ndc-100', 100)];
+
+  it('should prefer a cheaper bulk bottle over an exact but expensive combination', () => {
+    // 3×30 is exact at $0.50/tab ($45); 1×100 overfills by 10 at $0.10/tab ($10 + $1 waste)
+    const prices: UnitPriceLookup = new Map([['ndc-30', 0.5], ['ndc-100', 0.1]]);
+
+    const selection = chooseLowestCostCombination(packages, 90, prices, weights);
+
+    expect(selection.best.combination.description).toBe('1×100');
+    expect(selection.options[0]).toBe(selection.best);
+    expect(selection.options.some(option => option.combination.description === '3×30')).toBe(true);
+    expect(selection.explanation).toContain('least-overfill option 3×30');
+  });
+
+  it('should follow the weighting', () => {
+    const prices: UnitPriceLookup = new Map([['ndc-30', 0.1], ['ndc-100', 0.1]]);
+
+    const byPackages = chooseLowestCostCombination(packages, 90, prices, { acquisition: 1, waste: 0, perPackage: 5 });
+    const byWaste = chooseLowestCostCombination(packages, 90, prices, { acquisition: 1, waste: 1, perPackage: 0 });
+
+    expect(byPackages.best.combination.description).toBe('1×100');
+    expect(byWaste.best.combination.description).toBe('3×30');
+  });
+
+  it('should use the cheapest NDC of a size and report unpriced NDCs', () => {
+    const sameSize = [candidate('brand-30', 30), candidate('generic-30', 30), candidate('unpriced-90', 90)];
+    const prices: UnitPriceLookup = new Map([['brand-30', 1.2], ['generic-30', 0.05]]);
+
+    const selection = chooseLowestCostCombination(sameSize, 30, prices, weights);
+
+    expect(selection.best.combination.items[0].package.ndc).toBe('generic-30');
+    expect(selection.unpricedNdcs).toEqual(['unpriced-90']);
+    expect(selection.warnings[0]).toContain('no unit price');
+  });
+
+  it('should throw when no package is priced', () => {
+    expect(() => chooseLowestCostCombination(packages, 90, new Map(), weights)).toThrow('No priced packages');
+  });
+});
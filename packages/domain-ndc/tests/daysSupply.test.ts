@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { computeDaysSupply } from '../src/daysSupply';
+
+describe('daysSupply - computeDaysSupply', () => {
+  it('should compute days supply for tablets', () => {
+    const result = computeDaysSupply({ dose: 1, frequency: 2, unit: 'tablet' }, 60);
+
+    expect(result.daysSupply).toBe(30);
+    expect(result.quantityUsed).toBe(60);
+    expect(result.remainingQuantity).toBe(0);
+    expect(result.dailyQuantity).toBe(2);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should round down when the quantity does not divide evenly', () => {
+    const result = computeDaysSupply({ dose: 1, frequency: 3, unit: 'tablet' }, 100);
+
+    expect(result.daysSupply).toBe(33);
+    expect(result.remainingQuantity).toBe(1);
+  });
+
+  it('should compute days supply for a whole inhaler', () => {
+    // 200-puff inhaler, 2 puffs twice daily
+    const result = computeDaysSupply({ dose: 2, frequency: 2, unit: 'puff' }, 200);
+
+    expect(result.daysSupply).toBe(50);
+    expect(result.exceedsLimit).toBe(34);
+    expect(result.warnings[0]).toContain('exceeds the 34-day limit');
+  });
+
+  it('should convert mg doses through the product concentration', () => {
+    // 500 mg = 10 mL of 250 mg/5 mL, three times daily; 150 mL bottle
+    const result = computeDaysSupply(
+      { dose: 500, frequency: 3, unit: 'mg' },
+      150,
+      { strength: '250 MG/5ML' }
+    );
+
+    expect(result.daysSupply).toBe(5);
+    expect(result.method).toBe('concentration_conversion');
+  });
+
+  it('should count weekly schedules', () => {
+    const result = computeDaysSupply(
+      { dose: 1, frequency: 1, unit: 'tablet', schedule: { type: 'interval', everyDays: 7 } },
+      4
+    );
+
+    expect(result.daysSupply).toBe(28);
+  });
+
+  it('should convert insulin units to pens', () => {
+    // 5 × 3 mL U-100 pens, 20 units daily plus 2 priming units per injection
+    const pen = { type: 'pen' as const, unitsPerMl: 100, volumeMl: 3 };
+    const result = computeDaysSupply({ dose: 20, frequency: 1, unit: 'units' }, 15, {}, { injectableDevice: pen });
+
+    expect(result.daysSupply).toBe(68);
+    expect(result.method).toBe('injectable_conversion');
+    expect(
+      computeDaysSupply({ dose: 20, frequency: 1, unit: 'units' }, 15, {}, {
+        injectableDevice: pen,
+        injectable: { primingUnits: 0 },
+      }).daysSupply
+    ).toBe(75);
+  });
+
+  it('should cap an insulin vial at the in-use discard limit', () => {
+    // 15 mL U-100 vial holds 75 days at 20 units daily, but is discarded after 28 days
+    const vial = { type: 'vial' as const, unitsPerMl: 100, volumeMl: 15 };
+    const result = computeDaysSupply({ dose: 20, frequency: 1, unit: 'units' }, 15, {}, { injectableDevice: vial });
+
+    expect(result.daysSupply).toBe(28);
+    expect(result.warnings[0]).toContain('discarded 28 days after opening');
+  });
+
+  it('should cap an ophthalmic bottle at the discard-after-opening limit', () => {
+    // 15 mL at 1 drop twice daily (0.1 mL/day) would last 150 days, but is discarded after 28
+    const sig = { dose: 1, frequency: 2, unit: 'drop' };
+    const result = computeDaysSupply(sig, 15);
+
+    expect(result.daysSupply).toBe(28);
+    expect(result.warnings).toContainEqual(expect.stringContaining('discarded after 28 days'));
+    expect(computeDaysSupply(sig, 15, {}, { dropBottleMl: 5 }).daysSupply).toBe(84);
+    expect(computeDaysSupply(sig, 2.5).daysSupply).toBe(25);
+  });
+
+  it('should subtract priming actuations for a metered-dose inhaler', () => {
+    // 200-puff inhaler, 2 puffs twice daily, 4 priming puffs
+    const result = computeDaysSupply({ dose: 2, frequency: 2, unit: 'puff' }, 200, {}, { actuationsPerDevice: 200 });
+
+    expect(result.daysSupply).toBe(49);
+    expect(result.method).toBe('actuation_conversion');
+    expect(result.exceedsLimit).toBe(34);
+  });
+
+  it('should flag the highest payer limit exceeded', () => {
+    const result = computeDaysSupply({ dose: 1, frequency: 1, unit: 'tablet' }, 120);
+
+    expect(result.exceedsLimit).toBe(102);
+  });
+
+  it('should throw when the quantity does not cover one day', () => {
+    expect(() => computeDaysSupply({ dose: 2, frequency: 2, unit: 'tablet' }, 3))
+      .toThrow('does not cover one day');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { chooseDropBottles, daysPerBottle, isDropUnit } from '../src/drops';
+import { computeTotalQuantity } from '../src/quantity';
+import type { PackageCandidate } from '../src/packageMatch';
+
+const bottle = (ndc: string, quantity: number): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity, unit: 'ML' },
+  dosageForm: 'SOLUTION/ DROPS',
+  marketingStatus: 'ACTIVE',
+  isActive: true,
+});
+
+const bottles = [bottle('2.5', 2.5), bottle('5', 5), bottle('10', 10), bottle('15', 15)];
+
+describe('drops - computeTotalQuantity', () => {
+  it('should convert drops to mL at 20 drops/mL by default', () => {
+    const result = computeTotalQuantity({ dose: 1, frequency: 2, unit: 'drop' }, {}, 30);
+
+    expect(result.totalQuantity).toBe(3);
+    expect(result.details?.method).toBe('drops_conversion');
+    expect(result.details?.calculation).toContain('60 drops ÷ 20 drops/mL = 3 mL');
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should honour a per-product drops/mL factor', () => {
+    const result = computeTotalQuantity({ dose: 1, frequency: 2, unit: 'gtts' }, { dropsPerMl: 15 }, 30);
+
+    expect(result.totalQuantity).toBe(4);
+  });
+
+  it('should dose both eyes', () => {
+    const result = computeTotalQuantity({ dose: 1, frequency: 2, unit: 'drop', sites: 2 }, {}, 30);
+
+    expect(result.totalQuantity).toBe(6);
+    expect(result.details?.calculation).toContain('1 drop × 2 sites per administration');
+  });
+});
+
+describe('drops - chooseDropBottles', () => {
+  it('should recognize drop units', () => {
+    expect(isDropUnit('drops')).toBe(true);
+    expect(isDropUnit('gtt')).toBe(true);
+    expect(isDropUnit('mL')).toBe(false);
+  });
+
+  it('should cap bottle days at the discard limit', () => {
+    expect(daysPerBottle(5, 0.1)).toBe(28);
+    expect(daysPerBottle(2.5, 0.2)).toBe(12);
+  });
+
+  it('should choose the least volume covering a 30-day supply', () => {
+    // 0.1 mL/day: a 5 mL bottle lasts 28 days (discard), 2.5 mL lasts 25 days
+    const selection = chooseDropBottles(bottles, 3, 30);
+
+    expect(selection.combination.description).toBe('2×2.5');
+    expect(selection.daysCovered).toBe(50);
+    expect(selection.combination.underfillPercentage).toBe(0);
+  });
+
+  it('should add bottles when the discard limit is reached', () => {
+    // 0.1 mL/day for 90 days: each 5 mL bottle is discarded after 28 days
+    const selection = chooseDropBottles(bottles.slice(1), 9, 90);
+
+    expect(selection.combination.description).toBe('4×5');
+    expect(selection.daysCovered).toBe(112);
+    expect(selection.limitedByDiscard).toBe(true);
+    expect(selection.warnings[0]).toContain('discarded after 28 days');
+  });
+
+  it('should combine sizes by volume for heavier use', () => {
+    // 1 mL/day for 30 days
+    const selection = chooseDropBottles(bottles, 30, 30);
+
+    expect(selection.combination.totalQuantity).toBe(30);
+    expect(selection.combination.packageCount).toBe(2);
+    expect(selection.daysCovered).toBe(30);
+  });
+
+  it('should throw without usable bottles', () => {
+    expect(() => chooseDropBottles([], 3, 30)).toThrow('No bottles available for selection');
+  });
+});
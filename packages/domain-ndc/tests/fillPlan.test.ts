@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { computeFillRequirements, planFills, scheduleFills } from '../src/fillPlan';
+import { computePhasedQuantityForDays, computeTotalQuantity } from '../src/quantity';
+import type { PackageCandidate } from '../src/packageMatch';
+
+const pkg = (ndc: string, quantity: number, unit = 'TABLET'): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity, unit },
+  dosageForm: 'TABLET',
+  marketingStatus: 'ACTIVE',
+  isActive: true,
+});
+
+describe('fillPlan - scheduleFills', () => {
+  it('should split 90 days into three 30-day fills', () => {
+    const { fills, warnings } = scheduleFills({ totalDays: 90, fillIntervalDays: 30, refills: 2 });
+
+    expect(fills.map(fill => [fill.fillIndex, fill.startDay, fill.days])).toEqual([
+      [0, 0, 30],
+      [1, 30, 30],
+      [2, 60, 30],
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should shorten the last fill and drop unneeded refills', () => {
+    const { fills, warnings } = scheduleFills({ totalDays: 50, fillIntervalDays: 30, refills: 3 });
+
+    expect(fills.map(fill => fill.days)).toEqual([30, 20]);
+    expect(warnings[0]).toContain('2 refill(s) not needed');
+  });
+
+  it('should warn when refills do not cover the authorised days', () => {
+    const { warnings } = scheduleFills({ totalDays: 90, fillIntervalDays: 30, refills: 1 });
+
+    expect(warnings[0]).toContain('cover 60 of 90 authorised days');
+  });
+});
+
+describe('fillPlan - computeFillRequirements', () => {
+  it('should use cumulative quantities for non-daily schedules', () => {
+    // Weekly: days 0, 7, 14, 21 | 28, 35, 42, 49, 56 | 63, 70, 77, 84
+    const sig = { dose: 1, frequency: 1, unit: 'tablet', schedule: { type: 'interval' as const, everyDays: 7 } };
+    const { fills } = scheduleFills({ totalDays: 90, fillIntervalDays: 30, refills: 2 });
+    const requirements = computeFillRequirements(fills, days => computeTotalQuantity(sig, {}, days).totalQuantity);
+
+    expect(requirements.map(fill => fill.requiredQuantity)).toEqual([5, 4, 4]);
+  });
+
+  it('should split a taper at the fill boundary', () => {
+    // 4, 3, 2 then 1 tablet daily for 10 days each (100 tablets); fills of 15 days
+    const taper = [4, 3, 2, 1].map(dose => ({ dose, frequency: 1, unit: 'tablet', durationDays: 10 }));
+    const { fills } = scheduleFills({ totalDays: 40, fillIntervalDays: 15, refills: 2 });
+    const requirements = computeFillRequirements(
+      fills,
+      days => computePhasedQuantityForDays(taper, {}, days).totalQuantity
+    );
+
+    // Days 1-15: 40 + 15 | days 16-30: 15 + 20 | days 31-40: 10
+    expect(requirements.map(fill => fill.requiredQuantity)).toEqual([55, 35, 10]);
+  });
+});
+
+describe('fillPlan - planFills', () => {
+  const requirements = [
+    { fillIndex: 0, startDay: 0, days: 30, requiredQuantity: 120 },
+    { fillIndex: 1, startDay: 30, days: 30, requiredQuantity: 120 },
+    { fillIndex: 2, startDay: 60, days: 30, requiredQuantity: 120 },
+  ];
+
+  it('should carry surplus between fills to minimise combined waste', () => {
+    // 200-puff inhalers: 3×1 on their own (600) vs 1 + 1 + none together (400)
+    const selection = planFills([pkg('inhaler', 200, 'PUFF')], requirements);
+
+    expect(selection.totalDispensed).toBe(400);
+    expect(selection.independentDispensed).toBe(600);
+    expect(selection.fills.map(fill => fill.dispensedQuantity)).toEqual([200, 200, 0]);
+    expect(selection.fills[2].combination).toBeNull();
+    expect(selection.fills[2].carriedIn).toBe(160);
+    expect(selection.explanation).toContain('covered by surplus on hand');
+  });
+
+  it('should not front-load the supply when waste is equal', () => {
+    const selection = planFills([pkg('120', 120), pkg('360', 360)], requirements);
+
+    expect(selection.totalDispensed).toBe(360);
+    expect(selection.overfillPercentage).toBe(0);
+    expect(selection.fills.map(fill => fill.combination?.description)).toEqual(['1×120', '1×120', '1×120']);
+  });
+
+  it('should prefer a larger package early when it saves waste overall', () => {
+    // 45 per fill: 3×60 on their own (180) vs 100, then surplus, then 60 (160)
+    const selection = planFills(
+      [pkg('60', 60), pkg('100', 100)],
+      requirements.map(fill => ({ ...fill, requiredQuantity: 45 }))
+    );
+
+    expect(selection.independentDispensed).toBe(180);
+    expect(selection.totalDispensed).toBe(160);
+    expect(selection.fills.map(fill => fill.dispensedQuantity)).toEqual([100, 0, 60]);
+  });
+
+  it('should report shortfall when no combination covers a fill', () => {
+    const selection = planFills([pkg('10', 10)], requirements.slice(0, 1), { maxPackages: 2 });
+
+    expect(selection.fills[0].shortfall).toBe(100);
+    expect(selection.warnings[0]).toContain('100 TABLET short');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeInjectableQuantity,
+  parseUnitsPerMl,
+  resolveInjectableDevice,
+  type InjectableDevice,
+} from '../src/injectables';
+import { computeTotalQuantity } from '../src/quantity';
+
+const pen: InjectableDevice = { type: 'pen', unitsPerMl: 100, volumeMl: 3 };
+const vial: InjectableDevice = { type: 'vial', unitsPerMl: 100, volumeMl: 10 };
+
+describe('injectables - parseUnitsPerMl', () => {
+  it.each([
+    ['U-100', 100],
+    ['U-500', 500],
+    ['100 UNITS/ML', 100],
+    ['100 [iU]/mL', 100],
+    ['200 UNT/ML', 200],
+    ['300 [iU]/3 mL', 100],
+  ])('should parse "%s"', (strength, expected) => {
+    expect(parseUnitsPerMl(strength)).toBe(expected);
+  });
+
+  it('should return null for mass strengths', () => {
+    expect(parseUnitsPerMl('10 mg/mL')).toBeNull();
+  });
+});
+
+describe('injectables - resolveInjectableDevice', () => {
+  it('should resolve pens from the innermost packaging level', () => {
+    const levels = [
+      { quantity: 5, unit: 'SYRINGE', container: 'CARTON' },
+      { quantity: 3, unit: 'ML', container: 'SYRINGE, PLASTIC' },
+    ];
+
+    expect(resolveInjectableDevice(levels, '100 [iU]/mL')).toEqual(pen);
+  });
+
+  it('should resolve vials', () => {
+    const levels = [{ quantity: 10, unit: 'ML', container: 'VIAL, MULTI-DOSE' }];
+
+    expect(resolveInjectableDevice(levels, 'U-100')).toEqual(vial);
+  });
+
+  it('should return null without a unit concentration or volume', () => {
+    expect(resolveInjectableDevice([{ quantity: 10, unit: 'ML', container: 'VIAL' }], '10 mg/mL')).toBeNull();
+    expect(resolveInjectableDevice([{ quantity: 30, unit: 'TABLET', container: 'BOTTLE' }], 'U-100')).toBeNull();
+  });
+});
+
+describe('injectables - computeInjectableQuantity', () => {
+  it('should count units without a unit mismatch warning', () => {
+    const result = computeTotalQuantity({ dose: 10, frequency: 3, unit: 'units' }, {}, 30);
+
+    expect(result.totalQuantity).toBe(900);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should add pen priming units per injection', () => {
+    const result = computeInjectableQuantity({ dose: 20, frequency: 2, unit: 'units' }, pen, 30);
+
+    // (20 + 2) × 60 = 1320 units; 300 units per pen → 5 pens
+    expect(result.injectable.primingUnits).toBe(120);
+    expect(result.injectable.totalUnits).toBe(1320);
+    expect(result.injectable.devicesNeeded).toBe(5);
+    expect(result.injectable.daysCovered).toBe(34);
+    expect(result.totalQuantity).toBe(15);
+    expect(result.details?.method).toBe('injectable_conversion');
+  });
+
+  it('should apply the 28-day discard limit to vials', () => {
+    const result = computeInjectableQuantity({ dose: 10, frequency: 1, unit: 'units' }, vial, 30);
+
+    // 10 units/day: a 1000-unit vial only yields 280 units before discard
+    expect(result.injectable.limitedByDiscard).toBe(true);
+    expect(result.injectable.usableUnitsPerDevice).toBe(280);
+    expect(result.injectable.devicesNeeded).toBe(2);
+    expect(result.injectable.daysCovered).toBe(56);
+    expect(result.warnings.some(w => w.includes('discarded 28 days after opening'))).toBe(true);
+  });
+
+  it('should honour concentration and option overrides', () => {
+    const u200Pen: InjectableDevice = { type: 'pen', unitsPerMl: 200, volumeMl: 3 };
+    const result = computeInjectableQuantity(
+      { dose: 50, frequency: 1, unit: 'units' },
+      u200Pen,
+      30,
+      { primingUnits: 0, discardAfterDays: 56 }
+    );
+
+    // 1500 units; 600 units per pen → 3 pens covering 36 days
+    expect(result.injectable.devicesNeeded).toBe(3);
+    expect(result.injectable.daysCovered).toBe(36);
+    expect(result.injectable.calculation).toContain('U-200 × 3 mL = 600 units per pen');
+  });
+
+  it('should throw for invalid devices', () => {
+    expect(() =>
+      computeInjectableQuantity({ dose: 10, frequency: 1, unit: 'units' }, { ...pen, volumeMl: 0 }, 30)
+    ).toThrow('Device concentration and volume must be positive');
+  });
+});
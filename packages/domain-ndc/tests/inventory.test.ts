@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { getStockStatus, sortByStockStatus, type InventoryLookup } from '../src/inventory';
+import { chooseBestPackage, type PackageCandidate } from '../src/packageMatch';
+
+const candidate = (
+  ndc: string,
+  quantity: number,
+  mustDispenseWhole = false
+): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity, unit: mustDispenseWhole ? 'PUFF' : 'TABLET' },
+  dosageForm: mustDispenseWhole ? 'AEROSOL, METERED' : 'TABLET',
+  marketingStatus: 'ACTIVE',
+  isActive: true,
+  mustDispenseWhole,
+  wholePackageReason: mustDispenseWhole ? 'inhaler' : undefined,
+});
+
+describe('inventory - getStockStatus', () => {
+  it('should classify stock levels', () => {
+    expect(getStockStatus(undefined, 30)).toBe('unknown');
+    expect(getStockStatus({ onHandQuantity: 90 }, 30, 3)).toBe('in_stock');
+    expect(getStockStatus({ onHandQuantity: 60 }, 30, 3)).toBe('insufficient');
+    expect(getStockStatus({ onHandQuantity: 20, openedRemaining: 20 }, 30)).toBe('opened_only');
+    expect(getStockStatus({ onHandQuantity: 0, openedRemaining: 0 }, 30)).toBe('out_of_stock');
+  });
+});
+
+describe('inventory - chooseBestPackage with stock', () => {
+  const packages = [candidate('ndc-30', 30), candidate('ndc-100', 100), candidate('ndc-500', 500)];
+
+  it('should keep the best package on paper when it is in stock', () => {
+    const inventory: InventoryLookup = new Map([['ndc-30', { onHandQuantity: 60 }]]);
+
+    const selection = chooseBestPackage(packages, 30, { inventory });
+
+    expect(selection.selected.ndc).toBe('ndc-30');
+    expect(selection.warnings).toEqual([]);
+  });
+
+  it('should prefer an in-stock NDC over an out-of-stock best fit', () => {
+    const inventory: InventoryLookup = new Map([
+      ['ndc-30', { onHandQuantity: 0 }],
+      ['ndc-100', { onHandQuantity: 200 }],
+    ]);
+
+    const selection = chooseBestPackage(packages, 30, { inventory });
+
+    expect(selection.selected.ndc).toBe('ndc-100');
+    expect(selection.warnings[0]).toContain('ndc-30 (30 TABLET) is out of stock');
+  });
+
+  it('should count from an opened stock bottle instead of overfilling', () => {
+    const inventory: InventoryLookup = new Map([
+      ['ndc-100', { onHandQuantity: 100 }],
+      ['ndc-500', { onHandQuantity: 0, openedRemaining: 120 }],
+    ]);
+
+    const selection = chooseBestPackage(packages, 45, { inventory });
+
+    expect(selection.selected.ndc).toBe('ndc-500');
+    expect(selection.fromOpenedStock).toBe(true);
+    expect(selection.dispenseQuantity).toBe(45);
+    expect(selection.overfillPercentage).toBe(0);
+    expect(selection.explanation).toContain('opened stock bottle');
+  });
+
+  it('should not count unbreakable packages from an opened bottle', () => {
+    const inhalers = [candidate('inhaler-200', 200, true)];
+    const inventory: InventoryLookup = new Map([['inhaler-200', { onHandQuantity: 400, openedRemaining: 150 }]]);
+
+    const selection = chooseBestPackage(inhalers, 120, { inventory });
+
+    expect(selection.fromOpenedStock).toBeUndefined();
+    expect(selection.packageCount).toBe(1);
+  });
+
+  it('should fall back to the best package on paper with an order warning', () => {
+    const inventory: InventoryLookup = new Map(
+      packages.map(pkg => [pkg.ndc, { onHandQuantity: 0 }])
+    );
+
+    const selection = chooseBestPackage(packages, 30, { inventory });
+
+    expect(selection.selected.ndc).toBe('ndc-30');
+    expect(selection.warnings.at(-1)).toContain('Order stock before dispensing');
+  });
+});
+
+describe('inventory - sortByStockStatus', () => {
+  it('should put in-stock NDCs first, then untracked, keeping order within a status', () => {
+    const packages = [candidate('out', 30), candidate('untracked', 30), candidate('stocked', 30)];
+    const inventory: InventoryLookup = new Map([
+      ['out', { onHandQuantity: 0 }],
+      ['stocked', { onHandQuantity: 30 }],
+    ]);
+
+    expect(sortByStockStatus(packages, inventory).map(pkg => pkg.ndc)).toEqual(['stocked', 'untracked', 'out']);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mergeLabelerPreferences,
+  normalizeLabelerName,
+  partitionByLabeler,
+  sortByLabelerPreference,
+} from '../src/labelers';
+import { chooseBestPackage, type PackageCandidate } from '../src/packageMatch';
+
+const candidate = (ndc: string, quantity: number, labelerName?: string): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity, unit: 'TABLET' },
+  dosageForm: 'TABLET',
+  marketingStatus: 'ACTIVE',
+  isActive: true,
+  labelerName,
+});
+
+describe('labelers - normalizeLabelerName', () => {
+  it('should ignore case, punctuation and corporate suffixes', () => {
+    expect(normalizeLabelerName('Teva Pharmaceuticals USA, Inc.')).toBe('TEVA PHARMACEUTICALS USA');
+    expect(normalizeLabelerName('AUROBINDO PHARMA LIMITED')).toBe('AUROBINDO PHARMA');
+  });
+});
+
+describe('labelers - mergeLabelerPreferences', () => {
+  it('should put user preferences before organisation preferences', () => {
+    const merged = mergeLabelerPreferences(
+      { preferred: ['Aurobindo'], blocked: [] },
+      { preferred: ['Teva', 'AUROBINDO'], blocked: ['Mylan'] }
+    );
+
+    expect(merged).toEqual({ preferred: ['Aurobindo', 'Teva'], blocked: ['Mylan'] });
+  });
+
+  it('should not prefer a labeler blocked by either list', () => {
+    const merged = mergeLabelerPreferences(
+      { preferred: ['Mylan'], blocked: ['Teva'] },
+      { preferred: ['Teva'], blocked: ['Mylan'] }
+    );
+
+    expect(merged).toEqual({ preferred: [], blocked: ['Teva', 'Mylan'] });
+  });
+
+  it('should return empty lists when nothing is stored', () => {
+    expect(mergeLabelerPreferences(null, undefined)).toEqual({ preferred: [], blocked: [] });
+  });
+});
+
+describe('labelers - partitionByLabeler', () => {
+  it('should separate blocked labelers with a reason', () => {
+    const packages = [candidate('1', 30, 'Teva Pharmaceuticals USA, Inc.'), candidate('2', 30, 'Aurobindo Pharma Limited')];
+
+    const { allowed, blocked } = partitionByLabeler(packages, pkg => pkg.labelerName, {
+      blocked: ['TEVA PHARMACEUTICALS USA'],
+    });
+
+    expect(allowed.map(pkg => pkg.ndc)).toEqual(['2']);
+    expect(blocked).toHaveLength(1);
+    expect(blocked[0].reason).toBe('Labeler not stocked (Teva Pharmaceuticals USA, Inc.)');
+  });
+});
+
+describe('labelers - sortByLabelerPreference', () => {
+  it('should put preferred labelers first in preference order, keeping others in place', () => {
+    const packages = [candidate('1', 30, 'A'), candidate('2', 30, 'B'), candidate('3', 30, 'C'), candidate('4', 30)];
+
+    const sorted = sortByLabelerPreference(packages, { preferred: ['C', 'B'] });
+
+    expect(sorted.map(pkg => pkg.ndc)).toEqual(['3', '2', '1', '4']);
+  });
+});
+
+describe('labelers - chooseBestPackage with preferences', () => {
+  const packages = [
+    candidate('teva-30', 30, 'Teva'),
+    candidate('aurobindo-30', 30, 'Aurobindo'),
+    candidate('teva-90', 90, 'Teva'),
+    candidate('aurobindo-90', 90, 'Aurobindo'),
+  ];
+
+  it('should break exact-match ties by preferred labeler', () => {
+    const selection = chooseBestPackage(packages, 30, { labelerPreferences: { preferred: ['Aurobindo'] } });
+    expect(selection.selected.ndc).toBe('aurobindo-30');
+  });
+
+  it('should break largest-package ties by preferred labeler', () => {
+    const selection = chooseBestPackage(packages, 120, { labelerPreferences: { preferred: ['Aurobindo'] } });
+    expect(selection.selected.ndc).toBe('aurobindo-90');
+  });
+
+  it('should not let preference outrank package fit', () => {
+    const selection = chooseBestPackage(packages, 30, { labelerPreferences: { preferred: ['Teva'] } });
+    expect(selection.selected.ndc).toBe('teva-30');
+
+    const larger = chooseBestPackage(
+      [candidate('teva-30', 30, 'Teva'), candidate('aurobindo-90', 90, 'Aurobindo')],
+      30,
+      { labelerPreferences: { preferred: ['Aurobindo'] } }
+    );
+    expect(larger.selected.ndc).toBe('teva-30');
+  });
+
+  it('should never pick a blocked labeler', () => {
+    const selection = chooseBestPackage(packages, 30, {
+      labelerPreferences: { preferred: ['Teva'], blocked: ['Teva'] },
+    });
+    expect(selection.selected.ndc).toBe('aurobindo-30');
+
+    const larger = chooseBestPackage(packages, 60, { labelerPreferences: { blocked: ['Aurobindo'] } });
+    expect(larger.selected.ndc).toBe('teva-90');
+  });
+
+  it('should throw when every labeler is blocked', () => {
+    expect(() => chooseBestPackage(packages, 30, { labelerPreferences: { blocked: ['Teva', 'Aurobindo'] } }))
+      .toThrow('all labelers are blocked');
+  });
+});
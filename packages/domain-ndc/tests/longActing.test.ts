@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  changeIntervalHours,
+  countLongActingUnits,
+  describeChangeInterval,
+  isLongActingUnit,
+} from '../src/longActing';
+import { computeTotalQuantity } from '../src/quantity';
+import { chooseBestPackage, type PackageCandidate } from '../src/packageMatch';
+import { parseSIG } from '../src/sigParser';
+
+const box = (ndc: string, quantity: number): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity, unit: 'PATCH' },
+  dosageForm: 'PATCH, EXTENDED RELEASE',
+  marketingStatus: 'ACTIVE',
+  isActive: true,
+});
+
+describe('longActing - quantity', () => {
+  it('should count 72-hour patch changes', () => {
+    const result = computeTotalQuantity(
+      { dose: 1, frequency: 1, unit: 'patch', schedule: { type: 'intervalHours', everyHours: 72 } },
+      {},
+      30
+    );
+
+    expect(result.totalQuantity).toBe(10);
+    expect(result.warnings).toEqual([]);
+    expect(result.details?.calculation).toBe(
+      '1 patch × 10 administrations (every 72 h over 30 days) = 10 patch'
+    );
+  });
+
+  it('should count twice-weekly and weekly patches', () => {
+    const twiceWeekly = { dose: 1, frequency: 1, unit: 'patch', schedule: { type: 'intervalHours', everyHours: 84 } as const };
+    const weekly = { dose: 1, frequency: 1, unit: 'patch', schedule: { type: 'interval', everyDays: 7 } as const };
+
+    expect(computeTotalQuantity(twiceWeekly, {}, 28).totalQuantity).toBe(8);
+    expect(computeTotalQuantity(weekly, {}, 28).totalQuantity).toBe(4);
+  });
+
+  it('should match patch boxes through chooseBestPackage', () => {
+    const result = computeTotalQuantity(
+      { dose: 1, frequency: 1, unit: 'patch', schedule: { type: 'intervalHours', everyHours: 84 } },
+      {},
+      28
+    );
+    const selection = chooseBestPackage([box('4', 4), box('8', 8), box('30', 30)], result.totalQuantity);
+
+    expect(selection.selected.ndc).toBe('8');
+  });
+});
+
+describe('longActing - sigParser', () => {
+  it.each([
+    ['Apply 1 patch every 72 hours', { type: 'intervalHours', everyHours: 72 }],
+    ['Apply 1 patch twice weekly', { type: 'intervalHours', everyHours: 84 }],
+    ['Insert 1 ring every 4 weeks', { type: 'interval', everyDays: 28 }],
+    ['Inject 1 injection every 3 months', { type: 'interval', everyDays: 90 }],
+  ])('should parse "%s"', (text, schedule) => {
+    const result = parseSIG(text);
+
+    expect(result.sig.schedule).toEqual(schedule);
+    expect(result.sig.frequency).toBe(1);
+  });
+
+  it('should keep short hourly intervals as daily frequency', () => {
+    expect(parseSIG('Take 1 tablet every 12 hours').sig.frequency).toBe(2);
+  });
+});
+
+describe('longActing - helpers', () => {
+  it('should recognize long-acting units', () => {
+    expect(isLongActingUnit('patches')).toBe(true);
+    expect(isLongActingUnit('ring')).toBe(true);
+    expect(isLongActingUnit('injection')).toBe(true);
+    expect(isLongActingUnit('tablet')).toBe(false);
+  });
+
+  it('should derive and describe change intervals', () => {
+    expect(changeIntervalHours({ dose: 1, frequency: 1, unit: 'patch', schedule: { type: 'interval', everyDays: 7 } })).toBe(168);
+    expect(describeChangeInterval(72)).toBe('every 72 hours');
+    expect(describeChangeInterval(84)).toBe('every 84 hours (twice weekly)');
+    expect(describeChangeInterval(168)).toBe('every 7 days');
+  });
+
+  it('should count depot syringes instead of mL', () => {
+    expect(countLongActingUnits([
+      { quantity: 1, unit: 'SYRINGE', container: 'CARTON' },
+      { quantity: 1.5, unit: 'ML', container: 'SYRINGE' },
+    ])).toEqual({ unitsPerPackage: 1, container: 'SYRINGE' });
+    expect(countLongActingUnits([{ quantity: 4, unit: 'PATCH', container: 'CARTON' }])).toBeNull();
+  });
+});
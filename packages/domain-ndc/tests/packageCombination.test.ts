@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findPackageCombinations,
+  chooseBestPackageCombination,
+} from '../src/packageCombination';
+import type { PackageCandidate } from '../src/packageMatch';
+
+const createCandidate = (ndc: string, size: number): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity: size, unit: 'TABLET' },
+  dosageForm: 'TABLET',
+  marketingStatus: 'active',
+  isActive: true,
+});
+
+describe('packageCombination - findPackageCombinations', () => {
+  it('should combine packages to cover 180 tablets exactly', () => {
+    const packages = [
+      createCandidate('00000-0000-30', 30),
+      createCandidate('00000-0000-01', 100),
+      createCandidate('00000-0000-05', 500),
+    ];
+
+    const [best] = findPackageCombinations(packages, 180);
+
+    expect(best.description).toBe('1×100 + 3×30');
+    expect(best.totalQuantity).toBe(190);
+    expect(best.fillPrecision).toBe('overfill');
+  });
+
+  it('should prefer an exact combination over a single larger package', () => {
+    const packages = [
+      createCandidate('00000-0000-90', 90),
+      createCandidate('00000-0000-30', 30),
+      createCandidate('00000-0000-05', 500),
+    ];
+
+    const [best] = findPackageCombinations(packages, 180);
+
+    expect(best.description).toBe('2×90');
+    expect(best.overfillPercentage).toBe(0);
+    expect(best.fillPrecision).toBe('exact');
+  });
+
+  it('should keep the fewest packages for each total quantity', () => {
+    const packages = [
+      createCandidate('00000-0000-30', 30),
+      createCandidate('00000-0000-60', 60),
+    ];
+
+    const ranked = findPackageCombinations(packages, 120);
+
+    expect(ranked[0].description).toBe('2×60');
+    expect(ranked.filter(c => c.totalQuantity === 120)).toHaveLength(1);
+    expect(ranked[1].description).toBe('1×60 + 1×30');
+  });
+
+  it('should break package count ties by distinct NDC count', () => {
+    const packages = [
+      createCandidate('00000-0000-50', 50),
+      createCandidate('00000-0000-40', 40),
+      createCandidate('00000-0000-60', 60),
+    ];
+
+    const ranked = findPackageCombinations(packages, 100);
+
+    expect(ranked[0].description).toBe('2×50');
+    expect(ranked[0].distinctNdcCount).toBe(1);
+    expect(ranked.filter(c => c.totalQuantity === 100)).toHaveLength(1);
+  });
+
+  it('should use one NDC per package size', () => {
+    const packages = [
+      createCandidate('11111-1111-30', 30),
+      createCandidate('22222-2222-30', 30),
+    ];
+
+    const [best] = findPackageCombinations(packages, 60);
+
+    expect(best.items).toHaveLength(1);
+    expect(best.items[0].package.ndc).toBe('11111-1111-30');
+    expect(best.items[0].count).toBe(2);
+  });
+
+  it('should rank underfilling combinations last when the package limit is reached', () => {
+    const packages = [createCandidate('00000-0000-30', 30)];
+
+    const [best] = findPackageCombinations(packages, 200, { maxPackages: 3 });
+
+    expect(best.description).toBe('3×30');
+    expect(best.fillPrecision).toBe('underfill');
+    expect(best.underfillPercentage).toBeCloseTo(55, 0);
+  });
+
+  it('should limit the number of results', () => {
+    const packages = [
+      createCandidate('00000-0000-10', 10),
+      createCandidate('00000-0000-20', 20),
+      createCandidate('00000-0000-30', 30),
+    ];
+
+    expect(findPackageCombinations(packages, 60, { maxResults: 2 })).toHaveLength(2);
+  });
+
+  it('should search many package sizes with bounded results', () => {
+    const packages = Array.from({ length: 40 }, (_, i) =>
+      createCandidate(`00000-0000-${String(i).padStart(2, '0')}`, 7 + i * 13)
+    );
+
+    const ranked = findPackageCombinations(packages, 1999, { maxResults: 50 });
+    const covering = ranked.filter(c => c.fillPrecision !== 'underfill');
+
+    expect(ranked).toHaveLength(50);
+    expect(new Set(ranked.map(c => c.totalQuantity)).size).toBe(50);
+    expect(ranked.every(c => c.packageCount <= 5)).toBe(true);
+    expect(ranked[0].fillPrecision).not.toBe('underfill');
+    expect(ranked[0].totalQuantity).toBe(Math.min(...covering.map(c => c.totalQuantity)));
+  });
+
+  it('should throw for non-positive required quantity', () => {
+    expect(() => findPackageCombinations([createCandidate('00000-0000-30', 30)], 0))
+      .toThrow('Required quantity must be positive');
+  });
+});
+
+describe('packageCombination - chooseBestPackageCombination', () => {
+  it('should return the best combination with alternatives', () => {
+    const packages = [
+      createCandidate('00000-0000-90', 90),
+      createCandidate('00000-0000-30', 30),
+    ];
+
+    const selection = chooseBestPackageCombination(packages, 180);
+
+    expect(selection.combination.description).toBe('2×90');
+    expect(selection.alternatives.length).toBeGreaterThan(0);
+    expect(selection.warnings).toHaveLength(0);
+    expect(selection.explanation).toContain('Exact match');
+  });
+
+  it('should warn on significant overfill', () => {
+    const selection = chooseBestPackageCombination([createCandidate('00000-0000-05', 500)], 180);
+
+    expect(selection.overfillPercentage).toBeGreaterThan(20);
+    expect(selection.warnings[0]).toContain('Significant overfill');
+  });
+
+  it('should warn on underfill', () => {
+    const selection = chooseBestPackageCombination(
+      [createCandidate('00000-0000-30', 30)],
+      200,
+      { maxPackages: 2 }
+    );
+
+    expect(selection.underfillPercentage).toBeGreaterThan(0);
+    expect(selection.warnings[0]).toContain('Underfill');
+  });
+
+  it('should throw when no packages are available', () => {
+    expect(() => chooseBestPackageCombination([], 30)).toThrow('No packages available');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { limitPackageSizes, rankPackageOptions, scorePackageCombination } from '../src/packageOptions';
+import { buildPackageCombination, findPackageCombinations } from '../src/packageCombination';
+import type { PackageCandidate } from '../src/packageMatch';
+
+const createCandidate = (ndc: string, size: number): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity: size, unit: 'TABLET' },
+  dosageForm: 'TABLET',
+  marketingStatus: 'active',
+  isActive: true,
+});
+
+const packages = [
+  createCandidate('00000-0000-30', 30),
+  createCandidate('00000-0000-01', 100),
+  createCandidate('00000-0000-05', 500),
+];
+
+describe('packageOptions - scorePackageCombination', () => {
+  it('should score overfill, underfill and extra packages', () => {
+    const [hundred] = findPackageCombinations([packages[1]], 90);
+    const [thirties] = findPackageCombinations([packages[0]], 90);
+
+    expect(scorePackageCombination(hundred)).toEqual({ overfill: 11.11, underfill: 0, packageCount: 0, total: 11.11 });
+    expect(scorePackageCombination(thirties)).toEqual({ overfill: 0, underfill: 0, packageCount: 10, total: 10 });
+  });
+});
+
+describe('packageOptions - rankPackageOptions', () => {
+  it('should list the primary first, then the exact-count and least-waste options', () => {
+    const primary = buildPackageCombination([{ package: packages[1], count: 1 }], 90);
+
+    const options = rankPackageOptions(packages, 90, { primary });
+
+    expect(options.map(option => option.combination.description)).toEqual(['1×100', '3×30', '1×500']);
+    expect(options[0].primary).toBe(true);
+    expect(options[0].kinds).toEqual(['fewest_packages']);
+    expect(options[1].primary).toBe(false);
+    expect(options[1].kinds).toEqual(['exact_count', 'least_waste']);
+    expect(options[2].kinds).toEqual([]);
+  });
+
+  it('should order options by score without a primary', () => {
+    const options = rankPackageOptions(packages, 90, { maxOptions: 2 });
+
+    expect(options.map(option => option.combination.description)).toEqual(['3×30', '1×100']);
+    expect(options.every(option => !option.primary)).toBe(true);
+  });
+
+  it('should fall back to the closest options when nothing covers the requirement', () => {
+    const options = rankPackageOptions([packages[0]], 200, { maxPackages: 2 });
+
+    expect(options[0].combination.description).toBe('2×30');
+    expect(options[0].score.underfill).toBeGreaterThan(0);
+  });
+});
+
+describe('packageOptions - limitPackageSizes', () => {
+  it('should keep the primary sizes, then the sizes closest to the requirement', () => {
+    const many = [10, 20, 30, 60, 90, 100, 500, 1000].map(size =>
+      createCandidate(`00000-0000-${String(size).padStart(4, '0')}`, size)
+    );
+
+    const limited = limitPackageSizes(many, 90, 3, [many[7]]);
+
+    expect(limited.map(pkg => pkg.packageSize.quantity)).toEqual([90, 100, 1000]);
+  });
+
+  it('should keep every package of a kept size', () => {
+    const duplicates = [...packages, createCandidate('11111-1111-30', 30)];
+
+    const limited = limitPackageSizes(duplicates, 40, 1);
+
+    expect(limited.map(pkg => pkg.ndc)).toEqual(['00000-0000-30', '11111-1111-30']);
+  });
+});
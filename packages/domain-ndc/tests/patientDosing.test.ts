@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeBodySurfaceArea,
+  computeWeightBasedDose,
+  defaultDoseIncrement,
+} from '../src/patientDosing';
+import { computeTotalQuantity } from '../src/quantity';
+
+describe('patientDosing - computeBodySurfaceArea', () => {
+  it('should use the Mosteller formula', () => {
+    expect(computeBodySurfaceArea(36, 100)).toBe(1);
+  });
+
+  it('should reject non-positive measurements', () => {
+    expect(() => computeBodySurfaceArea(0, 100)).toThrow('must be positive');
+  });
+});
+
+describe('patientDosing - computeWeightBasedDose', () => {
+  it('should convert mg/kg/dose to an absolute dose', () => {
+    const result = computeWeightBasedDose({ amount: 15, basis: 'kg' }, { weightKg: 12.4 }, 4);
+
+    expect(result.calculatedDose).toBeCloseTo(186);
+    expect(result.dose).toBe(185);
+    expect(result.unit).toBe('mg');
+    expect(result.capped).toBe(false);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should divide mg/kg/day orders by doses per day', () => {
+    const result = computeWeightBasedDose(
+      { amount: 45, basis: 'kg', per: 'day', roundTo: 1 },
+      { weightKg: 20 },
+      2
+    );
+
+    expect(result.dose).toBe(450);
+    expect(result.calculation).toContain('45 mg/kg/day ÷ 2 doses/day');
+  });
+
+  it('should convert mg/m²/dose using body surface area', () => {
+    const result = computeWeightBasedDose({ amount: 100, basis: 'm2' }, { weightKg: 36, heightCm: 100 }, 1);
+
+    expect(result.dose).toBe(100);
+    expect(result.calculation).toContain('100 mg/m²/dose');
+  });
+
+  it('should cap at the per-dose maximum', () => {
+    const result = computeWeightBasedDose(
+      { amount: 15, basis: 'kg', maxDose: 1000 },
+      { weightKg: 80, ageYears: 17 },
+      4
+    );
+
+    expect(result.dose).toBe(1000);
+    expect(result.capped).toBe(true);
+    expect(result.warnings[0]).toContain('capped at 1000 mg');
+  });
+
+  it('should warn when rounding changes the dose by more than 10%', () => {
+    const result = computeWeightBasedDose({ amount: 0.5, basis: 'kg', roundTo: 5 }, { weightKg: 7 }, 1);
+
+    expect(result.dose).toBe(5);
+    expect(result.warnings[0]).toContain('more than 10%');
+  });
+
+  it('should require height for BSA-based orders', () => {
+    expect(() => computeWeightBasedDose({ amount: 100, basis: 'm2' }, { weightKg: 20 }, 1))
+      .toThrow('Patient height is required');
+  });
+
+  it('should never put patient measurements in the calculation text', () => {
+    const result = computeWeightBasedDose({ amount: 10, basis: 'kg' }, { weightKg: 13.7, heightCm: 91 }, 3);
+
+    expect(result.calculation).not.toContain('13.7');
+    expect(result.calculation).not.toContain('91');
+  });
+
+  it('should pick a default increment by dose size', () => {
+    expect(defaultDoseIncrement(250)).toBe(5);
+    expect(defaultDoseIncrement(42)).toBe(1);
+    expect(defaultDoseIncrement(4.2)).toBe(0.1);
+  });
+
+  it('should feed the quantity calculation', () => {
+    // 15 mg/kg × 10 kg = 150 mg of 250 mg/5 mL = 3 mL, three times daily for 10 days
+    const weightBased = computeWeightBasedDose({ amount: 15, basis: 'kg' }, { weightKg: 10 }, 3);
+    const result = computeTotalQuantity(
+      { dose: weightBased.dose, frequency: 3, unit: weightBased.unit },
+      { strength: '250 MG/5ML' },
+      10
+    );
+
+    expect(result.totalQuantity).toBe(90);
+    expect(result.details?.method).toBe('concentration_conversion');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { computePhasedQuantity, computePhasedQuantityForDays, type SIGPhase } from '../src/quantity';
+
+const taper: SIGPhase[] = [
+  { dose: 1, frequency: 1, unit: 'tablet', durationDays: 7 },
+  { dose: 2, frequency: 1, unit: 'tablet', durationDays: 7 },
+  { dose: 3, frequency: 1, unit: 'tablet', durationDays: 7 },
+];
+
+describe('quantity - computePhasedQuantity', () => {
+  it('should sum quantities across phases', () => {
+    const result = computePhasedQuantity(taper, {}, 21);
+
+    expect(result.totalQuantity).toBe(42);
+    expect(result.totalDays).toBe(21);
+    expect(result.administrationCount).toBe(21);
+    expect(result.phases.map(p => p.quantity)).toEqual([7, 14, 21]);
+    expect(result.warnings).toEqual([]);
+    expect(result.details?.method).toBe('phased');
+  });
+
+  it('should break the calculation down phase by phase', () => {
+    const result = computePhasedQuantity(taper, {}, 21);
+
+    expect(result.details?.calculation).toContain('Phase 1 (7 days): 1 × 1 × 7 = 7 tablet');
+    expect(result.details?.calculation).toContain('Phase 3 (7 days): 3 × 1 × 7 = 21 tablet');
+    expect(result.details?.calculation).toContain('Total: 7 + 14 + 21 = 42 tablet');
+  });
+
+  it('should convert mg doses per phase using strength', () => {
+    const result = computePhasedQuantity(
+      [
+        { dose: 20, frequency: 1, unit: 'mg', durationDays: 5 },
+        { dose: 10, frequency: 1, unit: 'mg', durationDays: 5 },
+      ],
+      { strength: '10 MG' },
+      10
+    );
+
+    expect(result.totalQuantity).toBe(15);
+  });
+
+  it('should warn when phase durations do not match days supply', () => {
+    const result = computePhasedQuantity(taper, {}, 30);
+
+    expect(result.totalQuantity).toBe(42);
+    expect(result.warnings[0]).toContain("Phase durations total 21 days but days' supply is 30");
+  });
+
+  it('should warn when phases use different units', () => {
+    const result = computePhasedQuantity(
+      [
+        { dose: 1, frequency: 1, unit: 'tablet', durationDays: 7 },
+        { dose: 5, frequency: 1, unit: 'mL', durationDays: 7 },
+      ],
+      {},
+      14
+    );
+
+    expect(result.warnings.some(w => w.includes('different units'))).toBe(true);
+  });
+
+  it('should throw for an empty schedule', () => {
+    expect(() => computePhasedQuantity([], {}, 30)).toThrow('At least one phase is required');
+  });
+});
+
+describe('quantity - computePhasedQuantityForDays', () => {
+  it('should cut the phase timeline at the given day', () => {
+    expect(computePhasedQuantityForDays(taper, {}, 10).totalQuantity).toBe(13);
+    expect(computePhasedQuantityForDays(taper, {}, 7).totalQuantity).toBe(7);
+    expect(computePhasedQuantityForDays(taper, {}, 10).warnings).toEqual([]);
+  });
+
+  it('should use the full schedule beyond the last phase', () => {
+    expect(computePhasedQuantityForDays(taper, {}, 30).totalQuantity).toBe(42);
+  });
+});
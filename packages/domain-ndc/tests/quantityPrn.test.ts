@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { computeTotalQuantity } from '../src/quantity';
+
+describe('quantity - computeTotalQuantity (PRN)', () => {
+  it('should use maximum dose and shortest interval', () => {
+    const result = computeTotalQuantity(
+      { dose: 1, frequency: 1, unit: 'tablet', asNeeded: true, minDose: 1, maxDose: 2, intervalHours: 4 },
+      {},
+      10
+    );
+
+    // 2 tablets × 6/day × 10 days
+    expect(result.totalQuantity).toBe(120);
+    expect(result.prn?.administrationsPerDay).toBe(6);
+    expect(result.prn?.cappedByMaxPerDay).toBe(false);
+  });
+
+  it('should cap daily use at maxPerDay', () => {
+    const result = computeTotalQuantity(
+      { dose: 2, frequency: 6, unit: 'tablet', asNeeded: true, maxDose: 2, intervalHours: 4, maxPerDay: 8 },
+      {},
+      30
+    );
+
+    expect(result.totalQuantity).toBe(240);
+    expect(result.prn?.maxDailyQuantity).toBe(8);
+    expect(result.prn?.cappedByMaxPerDay).toBe(true);
+    expect(result.prn?.calculation).toContain('capped at max 8 tablet/day');
+  });
+
+  it('should add a distinct PRN warning', () => {
+    const result = computeTotalQuantity(
+      { dose: 1, frequency: 4, unit: 'tablet', asNeeded: true, maxPerDay: 4 },
+      {},
+      30
+    );
+
+    expect(result.warnings[0]).toContain('As-needed (PRN) prescription');
+    expect(result.warnings.some(w => w.includes('no maximum daily dose'))).toBe(false);
+  });
+
+  it('should warn when no daily maximum is given', () => {
+    const result = computeTotalQuantity(
+      { dose: 1, frequency: 4, unit: 'tablet', asNeeded: true },
+      {},
+      30
+    );
+
+    expect(result.warnings.some(w => w.includes('no maximum daily dose'))).toBe(true);
+  });
+
+  it('should convert mg PRN doses using strength', () => {
+    const result = computeTotalQuantity(
+      { dose: 10, frequency: 1, unit: 'mg', asNeeded: true, intervalHours: 6, maxPerDay: 30 },
+      { strength: '5 MG' },
+      10
+    );
+
+    // capped at 30 mg/day = 6 tablets/day × 10 days
+    expect(result.totalQuantity).toBe(60);
+    expect(result.details?.method).toBe('strength_conversion');
+  });
+
+  it('should not change scheduled (non-PRN) calculations', () => {
+    const result = computeTotalQuantity({ dose: 1, frequency: 2, unit: 'tablet', maxPerDay: 1 }, {}, 30);
+
+    expect(result.totalQuantity).toBe(60);
+    expect(result.prn).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { computeTotalQuantity, countAdministrations } from '../src/quantity';
+
+describe('quantity - countAdministrations', () => {
+  it('should count every-N-days intervals starting on day 1', () => {
+    expect(countAdministrations({ type: 'interval', everyDays: 7 }, 1, 28).administrations).toBe(4);
+    expect(countAdministrations({ type: 'interval', everyDays: 7 }, 1, 30).administrations).toBe(5);
+    expect(countAdministrations({ type: 'interval', everyDays: 2 }, 1, 30).administrations).toBe(15);
+    expect(countAdministrations({ type: 'interval', everyDays: 30 }, 1, 90).administrations).toBe(3);
+  });
+
+  it('should count on/off cycles', () => {
+    expect(countAdministrations({ type: 'cycle', daysOn: 21, daysOff: 7 }, 1, 28).administrations).toBe(21);
+    expect(countAdministrations({ type: 'cycle', daysOn: 21, daysOff: 7 }, 1, 84).administrations).toBe(63);
+    expect(countAdministrations({ type: 'cycle', daysOn: 21, daysOff: 7 }, 1, 35).administrations).toBe(28);
+  });
+
+  it('should count weekdays from a known start day', () => {
+    const result = countAdministrations(
+      { type: 'weekdays', days: ['mon', 'wed', 'fri'], startDay: 'mon' },
+      1,
+      10
+    );
+
+    // Mon, Wed, Fri, Mon, Wed
+    expect(result.administrations).toBe(5);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should use the worst case when the start day is unknown', () => {
+    const result = countAdministrations({ type: 'weekdays', days: ['mon', 'wed', 'fri'] }, 1, 10);
+
+    expect(result.administrations).toBe(5);
+    expect(result.warnings[0]).toContain('Start day not specified');
+  });
+
+  it('should multiply dosing days by administrations per dosing day', () => {
+    expect(countAdministrations({ type: 'interval', everyDays: 7 }, 2, 28).administrations).toBe(8);
+  });
+
+  it('should reject invalid schedules', () => {
+    expect(() => countAdministrations({ type: 'interval', everyDays: 0 }, 1, 30)).toThrow();
+    expect(() => countAdministrations({ type: 'weekdays', days: [] }, 1, 30)).toThrow();
+  });
+});
+
+describe('quantity - computeTotalQuantity (schedules)', () => {
+  it('should compute weekly methotrexate by administration count', () => {
+    const result = computeTotalQuantity(
+      { dose: 4, frequency: 1, unit: 'tablet', schedule: { type: 'interval', everyDays: 7 } },
+      {},
+      28
+    );
+
+    expect(result.totalQuantity).toBe(16);
+    expect(result.administrationCount).toBe(4);
+    expect(result.details?.calculation).toBe('4 × 4 administrations = 16 tablet');
+  });
+
+  it('should apply strength conversion per administration', () => {
+    const result = computeTotalQuantity(
+      { dose: 70, frequency: 1, unit: 'mg', schedule: { type: 'interval', everyDays: 7 } },
+      { strength: '70 MG' },
+      28
+    );
+
+    expect(result.totalQuantity).toBe(4);
+    expect(result.details?.method).toBe('strength_conversion');
+  });
+
+  it('should report administration count for daily SIGs', () => {
+    const result = computeTotalQuantity({ dose: 1, frequency: 2, unit: 'tablet' }, {}, 30);
+
+    expect(result.administrationCount).toBe(60);
+  });
+});
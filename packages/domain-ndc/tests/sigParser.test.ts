@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIG } from '../src/sigParser';
+
+describe('sigParser - parseSIG', () => {
+  it('should parse a simple oral SIG', () => {
+    const result = parseSIG('Take 1 tablet by mouth twice daily');
+
+    expect(result.sig).toEqual({ dose: 1, frequency: 2, unit: 'tablet' });
+    expect(result.route).toBe('oral');
+    expect(result.confidence).toBe(1);
+    expect(result.unparsed).toEqual([]);
+  });
+
+  it.each([
+    ['1 tab PO BID', 2],
+    ['1 tab PO TID', 3],
+    ['1 tab PO QID', 4],
+    ['1 tab PO QHS', 1],
+    ['1 tab PO QD', 1],
+    ['1 tab PO Q8H', 3],
+  ])('should parse Latin abbreviation "%s"', (text, frequency) => {
+    const result = parseSIG(text);
+
+    expect(result.sig.frequency).toBeCloseTo(frequency, 5);
+    expect(result.sig.unit).toBe('tablet');
+  });
+
+  it('should resolve interval ranges to the maximum frequency', () => {
+    const result = parseSIG('Take 1 tablet every 4-6 hours');
+
+    expect(result.sig.frequency).toBe(6);
+    expect(result.frequencyRange).toEqual({ min: 4, max: 6 });
+    expect(result.confidence).toBeLessThan(1);
+  });
+
+  it('should resolve dose ranges to the maximum dose', () => {
+    const result = parseSIG('Take 1-2 capsules by mouth three times a day');
+
+    expect(result.sig).toEqual({ dose: 2, frequency: 3, unit: 'capsule' });
+    expect(result.doseRange).toEqual({ min: 1, max: 2 });
+  });
+
+  it('should parse durations', () => {
+    expect(parseSIG('Take 1 tablet twice daily for 10 days').durationDays).toBe(10);
+    expect(parseSIG('Take 1 tablet daily for 2 weeks').durationDays).toBe(14);
+  });
+
+  it('should parse number words, fractions and liquid units', () => {
+    expect(parseSIG('Take two puffs by inhalation every 6 hours').sig)
+      .toEqual({ dose: 2, frequency: 4, unit: 'puff' });
+    expect(parseSIG('Take 1/2 tablet daily').sig.dose).toBe(0.5);
+    expect(parseSIG('Take 5 mL by mouth BID').sig.unit).toBe('mL');
+  });
+
+  it('should parse routes', () => {
+    expect(parseSIG('Instill 1 drop in each eye BID').route).toBe('ophthalmic');
+    expect(parseSIG('Inject 10 units subcutaneously QHS').route).toBe('subcutaneous');
+  });
+
+  it('should report unknown frequency instead of silently assuming', () => {
+    const result = parseSIG('Take 1 tablet by mouth as directed');
+
+    expect(result.sig.frequency).toBe(1);
+    expect(result.unparsed).toContain('as directed');
+    expect(result.unparsed).toContain('frequency not found (assumed once daily)');
+    expect(result.confidence).toBeLessThan(0.6);
+  });
+
+  it('should throw for empty text', () => {
+    expect(() => parseSIG('  ')).toThrow('SIG text is required');
+  });
+});
+
+describe('sigParser - non-daily schedules', () => {
+  it.each([
+    ['1 tab PO QOD', { type: 'interval', everyDays: 2 }],
+    ['Take 2.5 mg by mouth once weekly', { type: 'interval', everyDays: 7 }],
+    ['Take 1 tablet monthly', { type: 'interval', everyDays: 30 }],
+    ['Take 1 tablet every 3 days', { type: 'interval', everyDays: 3 }],
+  ])('should parse "%s"', (text, schedule) => {
+    const result = parseSIG(text);
+
+    expect(result.sig.schedule).toEqual(schedule);
+    expect(result.sig.frequency).toBe(1);
+    expect(result.unparsed).toEqual([]);
+  });
+
+  it('should parse on/off cycles together with daily frequency', () => {
+    const result = parseSIG('Take 1 tablet daily, 21 days on 7 days off');
+
+    expect(result.sig.schedule).toEqual({ type: 'cycle', daysOn: 21, daysOff: 7 });
+    expect(result.sig.frequency).toBe(1);
+  });
+
+  it('should parse specific weekdays', () => {
+    const result = parseSIG('Take 1 tablet by mouth on Mon, Wed and Fri');
+
+    expect(result.sig.schedule).toEqual({ type: 'weekdays', days: ['mon', 'wed', 'fri'] });
+    expect(result.unparsed).toEqual([]);
+  });
+});
+
+describe('sigParser - PRN', () => {
+  it('should parse PRN with interval range and daily maximum', () => {
+    const result = parseSIG('Take 1-2 tabs PO q4-6h PRN pain, max 8/day');
+
+    expect(result.sig).toEqual({
+      dose: 2,
+      frequency: 6,
+      unit: 'tablet',
+      asNeeded: true,
+      minDose: 1,
+      maxDose: 2,
+      intervalHours: 4,
+      maxPerDay: 8,
+    });
+    expect(result.indication).toBe('pain');
+    expect(result.unparsed).toEqual([]);
+    expect(result.confidence).toBe(1);
+  });
+
+  it('should parse "as needed" and "not to exceed" phrasing', () => {
+    const result = parseSIG('Take 1 tablet every 6 hours as needed, not to exceed 3 tablets in 24 hours');
+
+    expect(result.sig.asNeeded).toBe(true);
+    expect(result.sig.intervalHours).toBe(6);
+    expect(result.sig.maxPerDay).toBe(3);
+  });
+
+  it('should derive frequency from the daily maximum when no interval is given', () => {
+    const result = parseSIG('Take 2 tablets PRN headache, max 6 tablets per day');
+
+    expect(result.sig.frequency).toBe(3);
+    expect(result.unparsed).toEqual([]);
+  });
+});
+
+describe('sigParser - sites', () => {
+  it.each([
+    ['Instill 1 drop OU BID', 'ophthalmic'],
+    ['Instill 2 drops in each ear TID', 'otic'],
+    ['Use 2 sprays in each nostril daily', 'nasal'],
+  ])('should dose both sites for "%s"', (text, route) => {
+    const result = parseSIG(text);
+
+    expect(result.sig.sites).toBe(2);
+    expect(result.route).toBe(route);
+  });
+
+  it('should dose a single site', () => {
+    expect(parseSIG('Instill 1 drop in the left eye BID').sig.sites).toBeUndefined();
+  });
+});
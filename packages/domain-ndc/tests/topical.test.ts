@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { computeTopicalQuantity, fingertipUnitsForSites, type TopicalSite } from '../src/topical';
+import { normalizeDosageForm } from '../src/dosageForm';
+
+describe('topical - fingertipUnitsForSites', () => {
+  it('should sum FTU per site', () => {
+    expect(fingertipUnitsForSites(['face_neck'])).toBe(2.5);
+    expect(fingertipUnitsForSites(['arm', 'arm', 'hand', 'hand'])).toBe(8);
+  });
+
+  it('should throw for unknown sites', () => {
+    expect(() => fingertipUnitsForSites(['scalp' as TopicalSite])).toThrow('Unknown application site: scalp');
+  });
+});
+
+describe('topical - computeTopicalQuantity', () => {
+  it('should estimate grams from application sites', () => {
+    // Both arms: 6 FTU × 2/day × 14 days = 168 FTU = 84 g
+    const result = computeTopicalQuantity(
+      { dose: 1, frequency: 2, unit: 'application' },
+      14,
+      { sites: ['arm', 'arm'] }
+    );
+
+    expect(result.totalQuantity).toBe(84);
+    expect(result.topical.totalFingertipUnits).toBe(168);
+    expect(result.details?.method).toBe('ftu_conversion');
+    expect(result.details?.calculation).toBe(
+      'arm (3) + arm (3) = 6 FTU per application × 28 applications = 168 FTU × 0.5 g/FTU = 84 g'
+    );
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should use an explicit fingertip-unit count', () => {
+    const result = computeTopicalQuantity({ dose: 1, frequency: 1, unit: 'application' }, 7, { fingertipUnits: 1.5 });
+
+    // 10.5 FTU = 5.25 g, rounded up to whole grams
+    expect(result.totalQuantity).toBe(6);
+  });
+
+  it('should fall back to the SIG dose as FTU with a warning', () => {
+    const result = computeTopicalQuantity({ dose: 2, frequency: 2, unit: 'FTU' }, 10);
+
+    expect(result.totalQuantity).toBe(20);
+    expect(result.warnings[0]).toContain('No application sites given');
+  });
+});
+
+describe('dosageForm - topical family', () => {
+  it('should group creams and ointments as topical', () => {
+    expect(normalizeDosageForm('CREAM')).toBe('topical');
+    expect(normalizeDosageForm('OINTMENT')).toBe('topical');
+    expect(normalizeDosageForm('ftu')).toBe('topical');
+    expect(normalizeDosageForm('TABLET')).toBe('solid');
+  });
+});
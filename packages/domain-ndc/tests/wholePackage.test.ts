@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { classifyWholePackage, describeWholePackageReason } from '../src/wholePackage';
+import { chooseBestPackage, type PackageCandidate } from '../src/packageMatch';
+
+const candidate = (
+  ndc: string,
+  quantity: number,
+  unit: string,
+  mustDispenseWhole = false
+): PackageCandidate => ({
+  ndc,
+  packageSize: { quantity, unit },
+  dosageForm: 'AEROSOL, METERED',
+  marketingStatus: 'ACTIVE',
+  isActive: true,
+  mustDispenseWhole,
+  wholePackageReason: mustDispenseWhole ? 'inhaler' : undefined,
+});
+
+describe('wholePackage - classifyWholePackage', () => {
+  it('should classify inhalers', () => {
+    expect(classifyWholePackage('AEROSOL, METERED', '1 INHALER in 1 CARTON > 200 PUFF in 1 INHALER'))
+      .toEqual({ mustDispenseWhole: true, reason: 'inhaler' });
+  });
+
+  it('should classify insulin pens', () => {
+    expect(classifyWholePackage('INJECTION, SOLUTION', '5 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE (PEN)').reason)
+      .toBe('pen');
+    expect(classifyWholePackage('INJECTION, SOLUTION', '5 PEN in 1 CARTON > 3 mL in 1 PEN').reason)
+      .toBe('pen');
+  });
+
+  it('should classify eye drop bottles', () => {
+    expect(classifyWholePackage('SOLUTION/ DROPS', '1 BOTTLE, DROPPER in 1 CARTON > 5 mL in 1 BOTTLE, DROPPER').reason)
+      .toBe('drop_bottle');
+  });
+
+  it('should classify blister cartons', () => {
+    expect(classifyWholePackage('TABLET', '3 BLISTER PACK in 1 CARTON > 10 TABLET in 1 BLISTER PACK').reason)
+      .toBe('blister_carton');
+  });
+
+  it('should classify contraceptive packs and kits', () => {
+    expect(classifyWholePackage('KIT', '3 BLISTER PACK in 1 CARTON > 1 KIT in 1 BLISTER PACK').reason)
+      .toBe('contraceptive_pack');
+    expect(classifyWholePackage('TABLET', '28 TABLET in 1 DIALPACK').reason).toBe('contraceptive_pack');
+    expect(classifyWholePackage('KIT', '1 KIT in 1 CARTON').reason).toBe('kit');
+  });
+
+  it('should leave bottles of tablets and oral liquids breakable', () => {
+    expect(classifyWholePackage('TABLET', '100 TABLET in 1 BOTTLE')).toEqual({ mustDispenseWhole: false });
+    expect(classifyWholePackage('SUSPENSION', '150 mL in 1 BOTTLE')).toEqual({ mustDispenseWhole: false });
+  });
+
+  it('should describe the reason', () => {
+    expect(describeWholePackageReason('inhaler')).toBe('Inhalers cannot be split');
+  });
+});
+
+describe('wholePackage - chooseBestPackage', () => {
+  it('should dispense a whole inhaler for a partial requirement', () => {
+    const selection = chooseBestPackage([candidate('200', 200, 'PUFF', true)], 120);
+
+    expect(selection.packageCount).toBe(1);
+    expect(selection.dispenseQuantity).toBe(200);
+    expect(selection.explanation).toContain('Inhalers cannot be split: 120 PUFF calculated, rounded up to 1 whole package');
+  });
+
+  it('should round up to several whole packages when none is large enough', () => {
+    const selection = chooseBestPackage(
+      [candidate('60', 60, 'PUFF', true), candidate('120', 120, 'PUFF', true)],
+      300
+    );
+
+    // 5×60 = 300 beats 3×120 = 360
+    expect(selection.selected.ndc).toBe('60');
+    expect(selection.packageCount).toBe(5);
+    expect(selection.dispenseQuantity).toBe(300);
+    expect(selection.underfillPercentage).toBe(0);
+  });
+
+  it('should keep partial dispensing for breakable packages', () => {
+    const selection = chooseBestPackage([candidate('100', 100, 'TABLET')], 60);
+
+    expect(selection.packageCount).toBeUndefined();
+    expect(selection.dispenseQuantity).toBeUndefined();
+  });
+});
@@ -1,7 +1,8 @@
 /**
  * Utils Package
- * Shared utility functions
+ * Shared utility functions and the NDC value type
  */
 
 export * from "./helpers";
+export * from "./ndc";
 
@@ -0,0 +1,214 @@
+/**
+ * NDC Value Type
+ * One parser and formatter for National Drug Codes: hyphenated 10-digit NDCs
+ * in any labeler configuration, 11-digit (HIPAA 5-4-2) NDCs and GS1 GTINs
+ */
+
+/**
+ * Segment lengths of a 10-digit NDC (labeler-product-package)
+ */
+export type NDCConfiguration = '4-4-2' | '5-3-2' | '5-4-1';
+
+export interface NDCCode {
+  /** Labeler code as assigned (4 or 5 digits) */
+  readonly labeler: string;
+  /** Product code as assigned (3 or 4 digits) */
+  readonly product: string;
+  /** Package code as assigned (1 or 2 digits) */
+  readonly package: string;
+  readonly configuration: NDCConfiguration;
+}
+
+export interface ParseNDCOptions {
+  /**
+   * Configuration for unhyphenated 10-digit NDCs and GTINs, which do not carry one
+   * Default: 4-4-2
+   */
+  assumeConfiguration?: NDCConfiguration;
+}
+
+export interface NDCForms {
+  /** 10-digit hyphenated, as printed on the label (e.g. "0071-0156-23") */
+  ndc10: string;
+  /** 11-digit hyphenated 5-4-2 (e.g. "00071-0156-23") */
+  ndc11: string;
+  /** 11-digit billing format without hyphens (e.g. "00071015623") */
+  billing: string;
+  /** GS1 GTIN-14 (e.g. "00300710156234") */
+  gtin14: string;
+}
+
+const SEGMENT_LENGTHS: Record<NDCConfiguration, [number, number, number]> = {
+  '4-4-2': [4, 4, 2],
+  '5-3-2': [5, 3, 2],
+  '5-4-1': [5, 4, 1],
+};
+
+/** Zero-padded segment of the 11-digit form, in the order checked when inferring the configuration */
+const PADDED_SEGMENT: Array<[NDCConfiguration, number]> = [
+  ['4-4-2', 0],
+  ['5-3-2', 5],
+  ['5-4-1', 9],
+];
+
+/** GS1 company prefix for NDC-based GTINs */
+const GS1_NDC_PREFIX = '03';
+
+/**
+ * Parse an NDC
+ *
+ * Accepts:
+ * - Hyphenated 10-digit NDCs (4-4-2, 5-3-2, 5-4-1); spaces and slashes also separate segments
+ * - 11-digit NDCs, hyphenated 5-4-2 or digits only
+ * - Unhyphenated 10-digit NDCs (configuration from options; default 4-4-2)
+ * - GTIN-14, GTIN-13 and UPC-A (GTIN-12) carrying an NDC, check digit verified
+ *
+ * For 11-digit input the configuration is the zero-padded segment, checking
+ * labeler, then product, then package.
+ *
+ * @param input NDC as entered, listed or scanned
+ * @param options Configuration for input that does not carry one
+ * @returns Parsed NDC
+ */
+export function parseNDC(input: string, options: ParseNDCOptions = {}): NDCCode {
+  if (!input || !input.trim()) {
+    throw new Error('NDC code is required');
+  }
+
+  const trimmed = input.trim();
+  const segments = trimmed.split(/[\s/-]+/);
+
+  if (segments.some(segment => !/^\d+$/.test(segment))) {
+    throw new Error(`Invalid NDC "${trimmed}": only digits and separators are allowed`);
+  }
+
+  if (segments.length === 3) {
+    const lengths = segments.map(segment => segment.length).join('-');
+    if (lengths === '5-4-2') {
+      return fromElevenDigits(segments.join(''), trimmed, options);
+    }
+    const configuration = (Object.keys(SEGMENT_LENGTHS) as NDCConfiguration[])
+      .find(candidate => candidate === lengths);
+    if (!configuration) {
+      throw new Error(`Invalid NDC "${trimmed}": segments must be 4-4-2, 5-3-2, 5-4-1 or 5-4-2`);
+    }
+    return { labeler: segments[0], product: segments[1], package: segments[2], configuration };
+  }
+
+  if (segments.length !== 1) {
+    throw new Error(`Invalid NDC "${trimmed}": expected three segments`);
+  }
+
+  const digits = segments[0];
+  if (digits.length === 10) {
+    return fromTenDigits(digits, options.assumeConfiguration ?? '4-4-2');
+  }
+  if (digits.length === 11) {
+    return fromElevenDigits(digits, trimmed, options);
+  }
+
+  const gtin = digits.padStart(14, '0');
+  const isGTIN = digits.length === 12
+    ? digits.startsWith('3')
+    : (digits.length === 13 || digits.length === 14) && gtin.slice(1, 3) === GS1_NDC_PREFIX;
+  if (isGTIN) {
+    return fromGTIN(gtin, trimmed, options);
+  }
+
+  throw new Error(`Invalid NDC length: ${digits.length} digits. Expected 10 or 11 digits, or a GTIN.`);
+}
+
+/**
+ * Parse an NDC, returning null instead of throwing
+ */
+export function tryParseNDC(input: string, options: ParseNDCOptions = {}): NDCCode | null {
+  try {
+    return parseNDC(input, options);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 10-digit hyphenated form in the NDC's configuration (e.g. "0071-0156-23")
+ */
+export function formatNDC10(ndc: NDCCode): string {
+  return `${ndc.labeler}-${ndc.product}-${ndc.package}`;
+}
+
+/**
+ * 11-digit 5-4-2 form (e.g. "00071-0156-23")
+ * @param hyphenated Without hyphens this is the billing format (e.g. "00071015623")
+ */
+export function formatNDC11(ndc: NDCCode, hyphenated: boolean = true): string {
+  const labeler = ndc.labeler.padStart(5, '0');
+  const product = ndc.product.padStart(4, '0');
+  const pkg = ndc.package.padStart(2, '0');
+  return hyphenated ? `${labeler}-${product}-${pkg}` : `${labeler}${product}${pkg}`;
+}
+
+/**
+ * GS1 GTIN-14 (indicator digit, "03", 10-digit NDC, check digit)
+ * @param indicator Packaging level indicator (0 for the unit of sale)
+ */
+export function formatGTIN14(ndc: NDCCode, indicator: number = 0): string {
+  if (!Number.isInteger(indicator) || indicator < 0 || indicator > 8) {
+    throw new Error('GTIN indicator digit must be 0-8');
+  }
+  const body = `${indicator}${GS1_NDC_PREFIX}${ndc.labeler}${ndc.product}${ndc.package}`;
+  return `${body}${gtinCheckDigit(body)}`;
+}
+
+/**
+ * All display and billing forms of an NDC
+ */
+export function toNDCForms(ndc: NDCCode): NDCForms {
+  return {
+    ndc10: formatNDC10(ndc),
+    ndc11: formatNDC11(ndc),
+    billing: formatNDC11(ndc, false),
+    gtin14: formatGTIN14(ndc),
+  };
+}
+
+function fromTenDigits(digits: string, configuration: NDCConfiguration): NDCCode {
+  const [labelerLength, productLength] = SEGMENT_LENGTHS[configuration];
+  return {
+    labeler: digits.slice(0, labelerLength),
+    product: digits.slice(labelerLength, labelerLength + productLength),
+    package: digits.slice(labelerLength + productLength),
+    configuration,
+  };
+}
+
+function fromElevenDigits(digits: string, input: string, options: ParseNDCOptions): NDCCode {
+  const padded = PADDED_SEGMENT.filter(([, index]) => digits[index] === '0');
+  const match = options.assumeConfiguration
+    ? padded.find(([configuration]) => configuration === options.assumeConfiguration)
+    : padded[0];
+
+  if (!match) {
+    throw new Error(`Invalid NDC "${input}": no segment of the 11-digit NDC is zero-padded`);
+  }
+
+  const [configuration, index] = match;
+  return fromTenDigits(digits.slice(0, index) + digits.slice(index + 1), configuration);
+}
+
+function fromGTIN(gtin: string, input: string, options: ParseNDCOptions): NDCCode {
+  if (gtinCheckDigit(gtin.slice(0, 13)) !== Number(gtin[13])) {
+    throw new Error(`Invalid GTIN "${input}": check digit does not match`);
+  }
+  return fromTenDigits(gtin.slice(3, 13), options.assumeConfiguration ?? '4-4-2');
+}
+
+/**
+ * GS1 mod-10 check digit (weights 3 and 1 from the rightmost digit)
+ */
+function gtinCheckDigit(body: string): number {
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
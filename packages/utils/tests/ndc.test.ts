@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseNDC,
+  tryParseNDC,
+  formatNDC10,
+  formatNDC11,
+  formatGTIN14,
+  toNDCForms,
+} from '../src/ndc';
+
+describe('ndc - parseNDC', () => {
+  it('should keep the configuration of hyphenated 10-digit NDCs', () => {
+    expect(parseNDC('0071-0156-23')).toEqual({ labeler: '0071', product: '0156', package: '23', configuration: '4-4-2' });
+    expect(parseNDC('00093-155-73').configuration).toBe('5-3-2');
+    expect(parseNDC('50090-1234-5').configuration).toBe('5-4-1');
+  });
+
+  it('should pad the right segment for the 11-digit form', () => {
+    expect(formatNDC11(parseNDC('0071-0156-23'))).toBe('00071-0156-23');
+    expect(formatNDC11(parseNDC('00093-155-73'))).toBe('00093-0155-73');
+    expect(formatNDC11(parseNDC('50090-1234-5'))).toBe('50090-1234-05');
+  });
+
+  it('should infer the configuration of 11-digit NDCs from the zero-padded segment', () => {
+    expect(formatNDC10(parseNDC('00071015623'))).toBe('0071-0156-23');
+    expect(formatNDC10(parseNDC('50090-0123-45'))).toBe('50090-123-45');
+    expect(formatNDC10(parseNDC('12345678901'))).toBe('12345-6789-1');
+    expect(formatNDC10(parseNDC('00093-0155-73', { assumeConfiguration: '5-3-2' }))).toBe('00093-155-73');
+  });
+
+  it('should reject 11-digit NDCs with no zero-padded segment', () => {
+    expect(() => parseNDC('12345-6789-12')).toThrow('zero-padded');
+  });
+
+  it('should split unhyphenated 10-digit NDCs by the assumed configuration', () => {
+    expect(formatNDC11(parseNDC('0071015623'))).toBe('00071-0156-23');
+    expect(formatNDC11(parseNDC('0009315573', { assumeConfiguration: '5-3-2' }))).toBe('00093-0155-73');
+  });
+
+  it('should parse GTINs and verify the check digit', () => {
+    expect(formatNDC11(parseNDC('00300710156234'))).toBe('00071-0156-23');
+    expect(formatNDC11(parseNDC('300710156234'))).toBe('00071-0156-23');
+    expect(() => parseNDC('00300710156235')).toThrow('check digit');
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => parseNDC('')).toThrow('NDC code is required');
+    expect(() => parseNDC('0007A-0156-23')).toThrow('only digits');
+    expect(() => parseNDC('0071-156-2')).toThrow('segments must be');
+    expect(() => parseNDC('123')).toThrow('Invalid NDC length');
+    expect(tryParseNDC('not an ndc')).toBeNull();
+  });
+});
+
+describe('ndc - formatting', () => {
+  it('should render all forms', () => {
+    expect(toNDCForms(parseNDC('0071-0156-23'))).toEqual({
+      ndc10: '0071-0156-23',
+      ndc11: '00071-0156-23',
+      billing: '00071015623',
+      gtin14: '00300710156234',
+    });
+  });
+
+  it('should round-trip through GTIN-14 with the same configuration', () => {
+    const ndc = parseNDC('00093-155-73');
+    expect(parseNDC(formatGTIN14(ndc), { assumeConfiguration: '5-3-2' })).toEqual(ndc);
+    expect(formatGTIN14(ndc, 1).startsWith('1030009315573')).toBe(true);
+  });
+});
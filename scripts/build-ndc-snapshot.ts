@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+
+/**
+ * Build NDC Directory Snapshot
+ *
+ * Loads the FDA NDC Directory bulk download into an indexed snapshot file that
+ * the calculate endpoint can use instead of (or alongside) live openFDA.
+ *
+ * Usage:
+ *   npx tsx --tsconfig tsconfig.base.json scripts/build-ndc-snapshot.ts \
+ *     --openfda drug-ndc-0001-of-0001.json --out ndc-snapshot.json
+ *
+ *   npx tsx --tsconfig tsconfig.base.json scripts/build-ndc-snapshot.ts \
+ *     --product product.txt --package package.txt --version 2025-06-02 --out ndc-snapshot.json
+ *
+ * Downloads: https://www.fda.gov/drugs/drug-approvals-and-databases/national-drug-code-directory
+ * (text files) and https://open.fda.gov/apis/drug/ndc/download/ (JSON). Only the JSON
+ * download carries RxCUIs; a snapshot built from the text files cannot answer
+ * RxCUI lookups, which the calculate endpoint relies on.
+ *
+ * Then set NDC_SNAPSHOT_PATH to the output file and NDC_DATA_SOURCE to
+ * snapshot, fallback or diff.
+ */
+
+import { readFile, stat } from 'fs/promises';
+import {
+  buildSnapshotFromDirectoryText,
+  buildSnapshotFromOpenFDADump,
+  writeNDCSnapshot,
+  type NDCSnapshotData,
+} from '@clients-openfda';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+async function buildSnapshot(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const out = args.out ?? 'ndc-snapshot.json';
+  let data: NDCSnapshotData;
+
+  if (args.openfda) {
+    data = buildSnapshotFromOpenFDADump(await readFile(args.openfda, 'utf8'), args.version);
+  } else if (args.product && args.package) {
+    // The text download carries no publication date; default to the file's date
+    const version = args.version ?? (await stat(args.product)).mtime.toISOString().slice(0, 10);
+    data = buildSnapshotFromDirectoryText(
+      await readFile(args.product, 'utf8'),
+      await readFile(args.package, 'utf8'),
+      version
+    );
+  } else {
+    throw new Error('Pass --openfda <json>, or --product <product.txt> and --package <package.txt>');
+  }
+
+  await writeNDCSnapshot(out, data);
+
+  const packageCount = data.results.reduce((count, result) => count + result.packaging.length, 0);
+  console.log(`✅ Wrote ${out}: version ${data.version}, ${data.results.length} products, ${packageCount} packages`);
+  if (!data.results.some(result => result.openfda?.rxcui?.length)) {
+    console.log('⚠️  Snapshot has no RxCUIs; RxCUI lookups will return no packages');
+  }
+}
+
+buildSnapshot().catch((error) => {
+  console.error('❌ Error building NDC snapshot:', error.message);
+  process.exit(1);
+});
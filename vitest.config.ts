@@ -1,3 +1,4 @@
+import { resolve } from 'path';
 import { defineConfig } from 'vitest/config';
 import tsconfigPaths from 'vite-tsconfig-paths';
 
@@ -24,14 +25,14 @@ export default defineConfig({
     conditions: ['node'],
     extensions: ['.ts', '.tsx', '.js', '.mjs'],
     alias: {
-      '@api-contracts': '/Users/tahmeedrahim/Documents/Projects/NDC/packages/api-contracts/src',
-      '@domain-ndc': '/Users/tahmeedrahim/Documents/Projects/NDC/packages/domain-ndc/src',
-      '@clients-rxnorm': '/Users/tahmeedrahim/Documents/Projects/NDC/packages/clients-rxnorm/src',
-      '@clients-openfda': '/Users/tahmeedrahim/Documents/Projects/NDC/packages/clients-openfda/src',
-      '@data-cache': '/Users/tahmeedrahim/Documents/Projects/NDC/packages/data-cache/src',
-      '@core-config': '/Users/tahmeedrahim/Documents/Projects/NDC/packages/core-config/src',
-      '@core-guardrails': '/Users/tahmeedrahim/Documents/Projects/NDC/packages/core-guardrails/src',
-      '@utils': '/Users/tahmeedrahim/Documents/Projects/NDC/packages/utils/src',
+      '@api-contracts': resolve(__dirname, 'packages/api-contracts/src'),
+      '@domain-ndc': resolve(__dirname, 'packages/domain-ndc/src'),
+      '@clients-rxnorm': resolve(__dirname, 'packages/clients-rxnorm/src'),
+      '@clients-openfda': resolve(__dirname, 'packages/clients-openfda/src'),
+      '@data-cache': resolve(__dirname, 'packages/data-cache/src'),
+      '@core-config': resolve(__dirname, 'packages/core-config/src'),
+      '@core-guardrails': resolve(__dirname, 'packages/core-guardrails/src'),
+      '@utils': resolve(__dirname, 'packages/utils/src'),
     }
   }
 });